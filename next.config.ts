@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfkit 은 내장 글꼴 데이터(.afm)를 패키지 경로에서 읽으므로 번들하지 않음 (리포트 PDF)
+  serverExternalPackages: ["pdfkit"],
 };
 
 export default nextConfig;
@@ -0,0 +1,158 @@
+/**
+ * 지도 경계 데이터(GeoJSON)를 단순화된 TopoJSON 으로 변환해 data/boundaries 에 저장하는 스크립트
+ *
+ * 실행:
+ *   npm run boundaries -- <버전ID> --province <파일|URL> --municipality <파일|URL> [옵션]
+ *
+ * 옵션:
+ *   --label <이름>        관리자 화면에 표시할 이름 (기본값: 버전ID)
+ *   --name1 <속성>        시/도 이름 속성 (기본값: NAME_1)
+ *   --name2 <속성>        시/군/구 이름 속성 (기본값: NAME_2)
+ *   --code <속성>         행정구역 코드 속성 (예: SIG_CD) — 시/도 이름이 없을 때 코드 앞 2자리로 시/도 결정
+ *   --keep <비율>         단순화 후 남길 점 비율 (기본값: 0.2)
+ *
+ * 예시 (southkorea-maps GADM):
+ *   npm run boundaries -- gadm \
+ *     --label "GADM (southkorea-maps)" \
+ *     --province skorea-provinces-geo.json --municipality skorea-municipalities-geo.json
+ *
+ * 예시 (통계청 SGIS 2024, 강원특별자치도/전북특별자치도 반영):
+ *   npm run boundaries -- sgis-2024 --label "SGIS 2024" \
+ *     --province sido.json --municipality sigungu.json \
+ *     --name1 CTP_KOR_NM --name2 SIG_KOR_NM --code SIG_CD
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { topology } from 'topojson-server';
+import { quantize } from 'topojson-client';
+import { presimplify, simplify, quantile } from 'topojson-simplify';
+import type { Objects, Topology } from 'topojson-specification';
+
+type Level = 'province' | 'municipality';
+type NamedFeatures = GeoJSON.FeatureCollection<GeoJSON.Geometry, Record<string, string>>;
+
+const OUTPUT_DIR = path.join(process.cwd(), 'data', 'boundaries');
+
+/**
+ * 행정구역 코드 앞 2자리 → GeoJSON NAME_1 (영문)
+ * 51(강원특별자치도), 52(전북특별자치도)는 2023~2024년 개편 후 코드입니다.
+ */
+const PROVINCE_CODES: Record<string, string> = {
+  '11': 'Seoul',
+  '26': 'Busan',
+  '27': 'Daegu',
+  '28': 'Incheon',
+  '29': 'Gwangju',
+  '30': 'Daejeon',
+  '31': 'Ulsan',
+  '36': 'Sejong',
+  '41': 'Gyeonggi-do',
+  '42': 'Gangwon-do',
+  '51': 'Gangwon-do',
+  '43': 'Chungcheongbuk-do',
+  '44': 'Chungcheongnam-do',
+  '45': 'Jeollabuk-do',
+  '52': 'Jeollabuk-do',
+  '46': 'Jeollanam-do',
+  '47': 'Gyeongsangbuk-do',
+  '48': 'Gyeongsangnam-do',
+  '50': 'Jeju',
+};
+
+interface Options {
+  id: string;
+  label: string;
+  sources: Record<Level, string>;
+  name1: string;
+  name2: string;
+  code?: string;
+  keep: number;
+}
+
+function parseArgs(argv: string[]): Options {
+  const [id, ...rest] = argv;
+  const flags: Record<string, string> = {};
+  for (let i = 0; i < rest.length; i += 2) {
+    flags[rest[i].replace(/^--/, '')] = rest[i + 1];
+  }
+
+  if (!id || !flags.province || !flags.municipality) {
+    console.error('사용법: npm run boundaries -- <버전ID> --province <파일|URL> --municipality <파일|URL>');
+    process.exit(1);
+  }
+
+  return {
+    id,
+    label: flags.label || id,
+    sources: { province: flags.province, municipality: flags.municipality },
+    name1: flags.name1 || 'NAME_1',
+    name2: flags.name2 || 'NAME_2',
+    code: flags.code,
+    keep: Number(flags.keep ?? 0.2),
+  };
+}
+
+async function loadGeoJson(source: string): Promise<GeoJSON.FeatureCollection> {
+  const text = /^https?:\/\//.test(source)
+    ? await (await fetch(source)).text()
+    : await fs.readFile(source, 'utf-8');
+  return JSON.parse(text);
+}
+
+/**
+ * 속성을 NAME_1 / NAME_2 로 통일하고 나머지 속성은 제거 (파일 크기 절감)
+ */
+function normalizeProperties(
+  collection: GeoJSON.FeatureCollection,
+  level: Level,
+  options: Options
+): NamedFeatures {
+  const features = collection.features.map(feature => {
+    const props = feature.properties ?? {};
+    const code = options.code ? String(props[options.code] ?? '') : '';
+    const properties: Record<string, string> = {
+      NAME_1: props[options.name1] ?? PROVINCE_CODES[code.slice(0, 2)] ?? '',
+    };
+    if (level === 'municipality') properties.NAME_2 = props[options.name2] ?? '';
+    if (code) properties.CODE = code;
+    return { ...feature, properties };
+  });
+
+  const missing = features.filter(f => !f.properties.NAME_1).length;
+  if (missing > 0) console.warn(`   ⚠️ 시/도 이름을 찾지 못한 영역 ${missing}개`);
+
+  return { ...collection, features };
+}
+
+async function build() {
+  const options = parseArgs(process.argv.slice(2));
+  console.log(`🗺️  경계 데이터 변환: ${options.id}\n`);
+
+  await fs.mkdir(path.join(OUTPUT_DIR, options.id), { recursive: true });
+
+  for (const level of ['province', 'municipality'] as Level[]) {
+    console.log(`📥 ${level}: ${options.sources[level]}`);
+    const geojson = normalizeProperties(await loadGeoJson(options.sources[level]), level, options);
+
+    const topo = presimplify(topology({ [level]: geojson }) as Topology<Objects>);
+    const simplified = quantize(simplify(topo, quantile(topo, 1 - options.keep)), 1e5);
+
+    const output = path.join(OUTPUT_DIR, options.id, `${level}.json`);
+    const body = JSON.stringify(simplified);
+    await fs.writeFile(output, body, 'utf-8');
+    console.log(`   ✅ ${geojson.features.length}개 영역 → ${(body.length / 1024).toFixed(0)}KB (${output})`);
+  }
+
+  // 버전 목록 갱신 (파일이 번들되었으므로 원본 URL 은 제거)
+  const listPath = path.join(OUTPUT_DIR, 'vintages.json');
+  const list: { id: string; label: string }[] = JSON.parse(await fs.readFile(listPath, 'utf-8').catch(() => '[]'));
+  const updated = [...list.filter(v => v.id !== options.id), { id: options.id, label: options.label }];
+  await fs.writeFile(listPath, JSON.stringify(updated, null, 2) + '\n', 'utf-8');
+
+  console.log('\n========================================');
+  console.log(`✅ data/boundaries/${options.id} 저장 완료`);
+  console.log('========================================');
+}
+
+build();
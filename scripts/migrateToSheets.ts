@@ -1,10 +1,14 @@
 /**
  * 기존 clients.ts 데이터를 Google Sheets로 마이그레이션하는 스크립트
  *
- * 실행: npx tsx scripts/migrateToSheets.ts
+ * 실행: GOOGLE_SHEETS_API_URL=<Apps Script 웹 앱 주소> npm run migrate-sheets
  */
 
-const API_URL = 'https://script.google.com/macros/s/AKfycbwzFO4EoVbDWBxqT98RN0i9L_xulxECBf80t5wii1HJH0StCl8YRDCfeGr82ldBgW6Brw/exec';
+const API_URL = process.env.GOOGLE_SHEETS_API_URL ?? '';
+if (!API_URL) {
+  console.error('GOOGLE_SHEETS_API_URL 환경변수를 설정해주세요');
+  process.exit(1);
+}
 
 interface UserMetrics {
   activeUsers?: number;
@@ -0,0 +1,226 @@
+/**
+ * 로컬 개발 / 테스트용 모의 OIDC IdP
+ *
+ * 실제 IdP 없이 SSO 로그인(/api/auth/oidc/*)을 확인하기 위한 최소 구현입니다.
+ * - Authorization Code + PKCE(S256), client_secret_basic / 공개 클라이언트
+ * - RS256 ID 토큰 (시작할 때마다 새 키 생성)
+ * - 인증 화면에서 테스트 사용자를 골라 로그인 (login_hint=<사용자 ID> 를 주면 바로 로그인)
+ *
+ * 실행: npm run mock-idp
+ *
+ * 대시보드 .env.local 설정:
+ *   OIDC_ISSUER=http://localhost:4000
+ *   OIDC_CLIENT_ID=gov-dashboard
+ *   OIDC_CLIENT_SECRET=mock-secret
+ *   OIDC_ROLE_MAP=dashboard-admin=admin,sales=editor,staff=viewer
+ */
+
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+
+const PORT = Number(process.env.MOCK_OIDC_PORT) || 4000;
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'gov-dashboard';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'mock-secret';
+
+/** ID 토큰 유효 시간 (초) */
+const ID_TOKEN_TTL = 60 * 5;
+
+interface MockUser {
+  sub: string;
+  name: string;
+  email: string;
+  groups: string[];
+}
+
+/** 테스트 사용자 (groups 를 OIDC_ROLE_MAP 으로 권한 매핑) */
+const USERS: MockUser[] = [
+  { sub: 'mock-admin', name: '모의 관리자', email: 'admin@example.com', groups: ['dashboard-admin', 'staff'] },
+  { sub: 'mock-sales', name: '모의 영업', email: 'sales@example.com', groups: ['sales', 'staff'] },
+  { sub: 'mock-viewer', name: '모의 조회', email: 'viewer@example.com', groups: ['staff'] },
+  { sub: 'mock-outsider', name: '권한 없음', email: 'outsider@example.com', groups: [] },
+];
+
+interface PendingCode {
+  user: MockUser;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = randomBytes(8).toString('hex');
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, use: 'sig', alg: 'RS256' };
+
+// ============================================================================
+// 유틸리티
+// ============================================================================
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: KEY_ID }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = sign('sha256', Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(data));
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString('utf-8'));
+}
+
+/**
+ * 인가 코드 발급 후 클라이언트 콜백으로 이동
+ */
+function issueCode(res: ServerResponse, params: URLSearchParams, user: MockUser) {
+  const code = randomBytes(16).toString('hex');
+  codes.set(code, {
+    user,
+    redirectUri: params.get('redirect_uri') ?? '',
+    nonce: params.get('nonce') ?? undefined,
+    codeChallenge: params.get('code_challenge') ?? undefined,
+    expiresAt: Date.now() + 60 * 1000,
+  });
+
+  const target = new URL(params.get('redirect_uri') ?? '');
+  target.searchParams.set('code', code);
+  if (params.get('state')) target.searchParams.set('state', params.get('state')!);
+  res.writeHead(302, { Location: target.toString() });
+  res.end();
+}
+
+// ============================================================================
+// 엔드포인트
+// ============================================================================
+
+/**
+ * 인증 화면 (테스트 사용자 선택)
+ */
+function handleAuthorize(res: ServerResponse, params: URLSearchParams) {
+  if (params.get('client_id') !== CLIENT_ID || !params.get('redirect_uri')) {
+    sendJson(res, 400, { error: 'invalid_request', error_description: 'client_id / redirect_uri 확인' });
+    return;
+  }
+
+  const hinted = USERS.find((u) => u.sub === params.get('login_hint'));
+  if (hinted) {
+    issueCode(res, params, hinted);
+    return;
+  }
+
+  const hidden = [...params].map(
+    ([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`
+  ).join('');
+  const buttons = USERS.map(
+    (u) => `<button name="login_hint" value="${u.sub}">${escapeHtml(u.name)} (${u.email}) — ${u.groups.join(', ') || '그룹 없음'}</button>`
+  ).join('<br>');
+
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!doctype html><meta charset="utf-8"><title>Mock IdP</title>
+<h1>모의 IdP 로그인</h1><form method="post" action="/authorize">${hidden}${buttons}</form>`);
+}
+
+/**
+ * 토큰 엔드포인트 (인가 코드 → ID 토큰)
+ */
+async function handleToken(req: IncomingMessage, res: ServerResponse) {
+  const form = await readForm(req);
+
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/)?.[1];
+  const [clientId, clientSecret] = basic
+    ? Buffer.from(basic, 'base64').toString('utf-8').split(':').map(decodeURIComponent)
+    : [form.get('client_id'), undefined];
+  if (clientId !== CLIENT_ID || (basic && clientSecret !== CLIENT_SECRET)) {
+    sendJson(res, 401, { error: 'invalid_client' });
+    return;
+  }
+
+  const code = form.get('code') ?? '';
+  const pending = codes.get(code);
+  codes.delete(code);
+  if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== form.get('redirect_uri')) {
+    sendJson(res, 400, { error: 'invalid_grant' });
+    return;
+  }
+
+  const verifier = form.get('code_verifier') ?? '';
+  if (pending.codeChallenge && createHash('sha256').update(verifier).digest('base64url') !== pending.codeChallenge) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE 확인 실패' });
+    return;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const { user } = pending;
+  sendJson(res, 200, {
+    access_token: randomBytes(16).toString('hex'),
+    token_type: 'Bearer',
+    expires_in: ID_TOKEN_TTL,
+    id_token: signIdToken({
+      iss: ISSUER,
+      sub: user.sub,
+      aud: CLIENT_ID,
+      iat: now,
+      exp: now + ID_TOKEN_TTL,
+      nonce: pending.nonce,
+      name: user.name,
+      email: user.email,
+      preferred_username: user.email.split('@')[0],
+      groups: user.groups,
+    }),
+  });
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', ISSUER);
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      sendJson(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'none'],
+      });
+    } else if (req.method === 'GET' && url.pathname === '/jwks') {
+      sendJson(res, 200, { keys: [jwk] });
+    } else if (req.method === 'GET' && url.pathname === '/authorize') {
+      handleAuthorize(res, url.searchParams);
+    } else if (req.method === 'POST' && url.pathname === '/authorize') {
+      handleAuthorize(res, await readForm(req));
+    } else if (req.method === 'POST' && url.pathname === '/token') {
+      await handleToken(req, res);
+    } else {
+      sendJson(res, 404, { error: 'not_found' });
+    }
+  } catch (error) {
+    console.error('요청 처리 실패:', error);
+    sendJson(res, 500, { error: 'server_error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`모의 OIDC IdP: ${ISSUER}`);
+  console.log(`client_id=${CLIENT_ID} client_secret=${CLIENT_SECRET}`);
+  console.log(`테스트 사용자: ${USERS.map((u) => `${u.sub} [${u.groups.join(', ')}]`).join(' / ')}`);
+});
@@ -1,63 +1,112 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { timingSafeEqual } from 'crypto';
-import { createSessionToken, COOKIE_NAME, COOKIE_MAX_AGE } from '@/lib/auth';
+import { createSessionToken, COOKIE_MAX_AGE, SessionUser } from '@/lib/auth';
+import { setSessionCookie } from '@/lib/session';
+import { authenticate } from '@/lib/userStore';
+import {
+  reserveLoginAttempt,
+  releaseLoginAttempt,
+  recordLoginSuccess,
+  LoginAttemptStatus,
+} from '@/lib/loginRateLimit';
+
+/**
+ * 접속 IP (알 수 없으면 null)
+ * X-Forwarded-For 는 누구나 보낼 수 있으므로 TRUST_PROXY(앞단 리버스 프록시 수)가 설정된 경우에만 사용합니다.
+ * 프록시는 받은 주소를 오른쪽에 덧붙이므로 오른쪽에서 TRUST_PROXY 번째 값이 실제 접속 IP 입니다.
+ */
+function getClientIp(request: NextRequest): string | null {
+  const trustedProxies = Number(process.env.TRUST_PROXY) || 0;
+  if (trustedProxies < 1) return null;
+
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map((ip) => ip.trim()) ?? [];
+  return forwarded[forwarded.length - trustedProxies] || null;
+}
+
+/**
+ * 시도 제한 응답 (429 + Retry-After)
+ */
+function tooManyAttempts(status: LoginAttemptStatus) {
+  const minutes = Math.ceil(status.retryAfter / 60);
+  return NextResponse.json(
+    {
+      error: status.locked
+        ? `로그인 실패가 너무 많아 잠겼습니다. ${minutes}분 후 다시 시도해주세요`
+        : `잠시 후 다시 시도해주세요 (${status.retryAfter}초)`,
+      locked: status.locked,
+      retryAfter: status.retryAfter,
+    },
+    { status: 429, headers: { 'Retry-After': String(status.retryAfter) } }
+  );
+}
 
 /**
  * POST /api/auth/login
  *
- * 비밀번호 검증 후 세션 쿠키 발급
- * - timingSafeEqual 로 타이밍 공격 방지
+ * 아이디 / 비밀번호 검증 후 세션 쿠키 발급
+ * - body: { id, password }
+ * - 비밀번호는 scrypt 해시와 timingSafeEqual 로 비교 (없는 ID 도 같은 시간 소요)
+ * - IP / 계정별 실패 횟수 제한: 연속 실패 시 대기 시간 증가, 한도 초과 시 잠금 (429 + Retry-After)
+ *   비밀번호 확인 전에 시도를 실패로 미리 기록하므로 동시에 보낸 요청도 제한을 받음
+ * - 세션 토큰에 세션 ID / 사용자 ID / 이름 / 권한을 담음 (로그아웃 시 세션 ID 로 폐기)
  * - HTTP-only, SameSite=Lax 쿠키 사용
  */
 export async function POST(request: NextRequest) {
+  let id: string;
   let password: string;
 
   try {
     const body = await request.json();
+    id = typeof body.id === 'string' ? body.id : '';
     password = typeof body.password === 'string' ? body.password : '';
   } catch {
     return NextResponse.json({ error: '잘못된 요청입니다' }, { status: 400 });
   }
 
-  const correctPassword = process.env.AUTH_PASSWORD;
   const secret = process.env.AUTH_SECRET;
 
-  if (!correctPassword || !secret) {
+  if (!secret) {
     return NextResponse.json(
       { error: '서버 설정 오류' },
       { status: 500 }
     );
   }
 
-  // 타이밍 공격 방지: 길이가 다를 경우에도 동일한 시간 소요
-  const inputBuf = Buffer.from(password);
-  const correctBuf = Buffer.from(correctPassword);
-  const paddedInput = Buffer.alloc(correctBuf.length);
-  inputBuf.copy(paddedInput);
+  const ip = getClientIp(request);
+  const attempt = await reserveLoginAttempt(ip, id);
+  if (!attempt.allowed) {
+    return tooManyAttempts(attempt.status);
+  }
 
-  const isCorrect =
-    inputBuf.length === correctBuf.length &&
-    timingSafeEqual(paddedInput, correctBuf);
+  let user: SessionUser | null;
+  try {
+    user = id && password ? await authenticate(id, password) : null;
+  } catch (error) {
+    console.error('로그인 처리 실패:', error);
+    await releaseLoginAttempt(ip, id);
+    return NextResponse.json({ error: '서버 설정 오류' }, { status: 500 });
+  }
 
-  if (!isCorrect) {
+  if (!user) {
     // 인증 실패 시 약간의 지연 (brute-force 완화)
     await new Promise((r) => setTimeout(r, 300));
+    if (attempt.status.locked) {
+      return tooManyAttempts(attempt.status);
+    }
     return NextResponse.json(
-      { error: '비밀번호가 올바르지 않습니다' },
+      {
+        error: '아이디 또는 비밀번호가 올바르지 않습니다',
+        remainingAttempts: attempt.status.remainingAttempts,
+      },
       { status: 401 }
     );
   }
 
-  const token = await createSessionToken(secret);
+  await recordLoginSuccess(ip, id);
+
+  const token = await createSessionToken(secret, user);
 
-  const response = NextResponse.json({ success: true });
-  response.cookies.set(COOKIE_NAME, token, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: COOKIE_MAX_AGE,
-    path: '/',
-  });
+  const response = NextResponse.json({ user });
+  setSessionCookie(response, token, Date.now() + COOKIE_MAX_AGE * 1000);
 
   return response;
 }
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeUserSessions } from '@/lib/sessionRevocation';
+import { clearSessionCookie, getSessionUser } from '@/lib/session';
+
+/**
+ * POST /api/auth/logout-all
+ *
+ * 모든 기기에서 로그아웃
+ * - 현재 사용자가 지금까지 로그인한 세션을 모두 폐기 (현재 세션 포함)
+ */
+export async function POST(request: NextRequest) {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: '로그인이 필요합니다' }, { status: 401 });
+  }
+
+  try {
+    await revokeUserSessions(user.id);
+  } catch (error) {
+    console.error('세션 폐기 실패:', error);
+    return NextResponse.json({ error: '로그아웃 처리에 실패했습니다' }, { status: 500 });
+  }
+
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
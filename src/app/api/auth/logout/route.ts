@@ -1,19 +1,27 @@
-import { NextResponse } from 'next/server';
-import { COOKIE_NAME } from '@/lib/auth';
+import { NextRequest, NextResponse } from 'next/server';
+import { revokeSession } from '@/lib/sessionRevocation';
+import { clearSessionCookie, getSession } from '@/lib/session';
 
 /**
  * POST /api/auth/logout
  *
- * 세션 쿠키 삭제
+ * 현재 세션 폐기 후 세션 쿠키 삭제
+ * - 세션 ID 를 폐기 목록에 기록하므로 쿠키가 남아 있어도 다시 사용할 수 없습니다.
+ * - 폐기 기록에 실패해도 쿠키는 삭제합니다.
  */
-export async function POST() {
-  const response = NextResponse.json({ success: true });
-  response.cookies.set(COOKIE_NAME, '', {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: 0,
-    path: '/',
-  });
+export async function POST(request: NextRequest) {
+  let response: NextResponse = NextResponse.json({ success: true });
+
+  try {
+    const session = await getSession(request);
+    if (session) {
+      await revokeSession(session);
+    }
+  } catch (error) {
+    console.error('세션 폐기 실패:', error);
+    response = NextResponse.json({ error: '로그아웃 처리에 실패했습니다' }, { status: 500 });
+  }
+
+  clearSessionCookie(response);
   return response;
 }
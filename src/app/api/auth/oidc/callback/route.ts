@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSessionToken, COOKIE_MAX_AGE } from '@/lib/auth';
+import { setSessionCookie } from '@/lib/session';
+import {
+  completeAuthorization,
+  decodeLoginState,
+  getOidcConfig,
+  getRedirectUri,
+  mapClaimsToRole,
+  toSessionUser,
+  safeReturnPath,
+  OIDC_STATE_COOKIE,
+} from '@/lib/oidc';
+
+/**
+ * 로그인 화면으로 돌아가 오류 표시 (진행 상태 쿠키 삭제)
+ */
+function loginError(request: NextRequest, code: string) {
+  const response = NextResponse.redirect(new URL(`/login?error=${code}`, request.url));
+  response.cookies.set(OIDC_STATE_COOKIE, '', { maxAge: 0, path: '/api/auth/oidc' });
+  return response;
+}
+
+/**
+ * GET /api/auth/oidc/callback?code=&state=
+ *
+ * SSO 로그인 완료: IdP 가 돌려준 인가 코드로 ID 토큰을 받아 세션 쿠키 발급
+ * - state 가 로그인 시작 때 쿠키에 담은 값과 같아야 함 (CSRF 방지)
+ * - ID 토큰 서명 / issuer / audience / 만료 / nonce 확인
+ * - OIDC_ROLE_CLAIM 클레임을 OIDC_ROLE_MAP 으로 권한 매핑, 매핑되는 권한이 없으면 로그인 거부
+ */
+export async function GET(request: NextRequest) {
+  const config = getOidcConfig();
+  const secret = process.env.AUTH_SECRET;
+  if (!config || !secret) {
+    return loginError(request, 'sso_disabled');
+  }
+
+  const params = request.nextUrl.searchParams;
+  const loginState = decodeLoginState(request.cookies.get(OIDC_STATE_COOKIE)?.value);
+  const code = params.get('code');
+
+  if (params.get('error')) {
+    console.error('SSO 로그인 거부:', params.get('error'), params.get('error_description'));
+    return loginError(request, 'sso_failed');
+  }
+  if (!loginState || !code || params.get('state') !== loginState.state) {
+    return loginError(request, 'sso_expired');
+  }
+
+  let claims;
+  try {
+    claims = await completeAuthorization(config, getRedirectUri(config, request.url), code, loginState);
+  } catch (error) {
+    console.error('SSO 로그인 처리 실패:', error);
+    return loginError(request, 'sso_failed');
+  }
+
+  const role = mapClaimsToRole(claims, config);
+  if (!role) {
+    console.error('SSO 로그인 권한 없음:', claims.sub, claims[config.roleClaim.split('.')[0]]);
+    return loginError(request, 'sso_forbidden');
+  }
+
+  const token = await createSessionToken(secret, toSessionUser(claims, role));
+  const response = NextResponse.redirect(new URL(safeReturnPath(loginState.from), request.url));
+  response.cookies.set(OIDC_STATE_COOKIE, '', { maxAge: 0, path: '/api/auth/oidc' });
+  setSessionCookie(response, token, Date.now() + COOKIE_MAX_AGE * 1000);
+  return response;
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createAuthorizationRequest,
+  encodeLoginState,
+  getOidcConfig,
+  getRedirectUri,
+  safeReturnPath,
+  OIDC_STATE_COOKIE,
+  OIDC_STATE_MAX_AGE,
+} from '@/lib/oidc';
+
+/**
+ * GET /api/auth/oidc/login?from=
+ *
+ * SSO 로그인 시작: IdP 인증 화면으로 이동
+ * - state / nonce / PKCE verifier 를 HTTP-only 쿠키에 담아 콜백에서 확인
+ * - 실패하면 로그인 화면으로 돌아가 오류 표시
+ */
+export async function GET(request: NextRequest) {
+  const config = getOidcConfig();
+  if (!config) {
+    return NextResponse.redirect(new URL('/login?error=sso_disabled', request.url));
+  }
+
+  const from = safeReturnPath(request.nextUrl.searchParams.get('from'));
+
+  try {
+    const { url, loginState } = await createAuthorizationRequest(
+      config,
+      getRedirectUri(config, request.url),
+      from
+    );
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_STATE_COOKIE, encodeLoginState(loginState), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: OIDC_STATE_MAX_AGE,
+      path: '/api/auth/oidc',
+    });
+    return response;
+  } catch (error) {
+    console.error('SSO 로그인 시작 실패:', error);
+    return NextResponse.redirect(new URL('/login?error=sso_failed', request.url));
+  }
+}
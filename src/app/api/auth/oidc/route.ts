@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { getOidcConfig } from '@/lib/oidc';
+
+/**
+ * GET /api/auth/oidc
+ *
+ * SSO 로그인 사용 여부 (로그인 화면의 SSO 버튼 표시용)
+ * - 응답: { enabled, name }
+ */
+export async function GET() {
+  const config = getOidcConfig();
+  return NextResponse.json({ enabled: config !== null, name: config?.providerName ?? null });
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session';
+
+/**
+ * GET /api/auth/session
+ *
+ * 현재 로그인한 사용자 (ID / 이름 / 권한)
+ * - 화면에서 권한별로 버튼을 숨기는 용도이며, 실제 권한 확인은 미들웨어와 각 라우트에서 합니다.
+ */
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: '로그인이 필요합니다' }, { status: 401 });
+  }
+  return NextResponse.json({ user });
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BOUNDARY_LEVELS,
+  BoundaryLevel,
+  isValidVintageId,
+  getActiveVintageId,
+  readBoundary,
+} from '@/lib/boundaryStore';
+
+/**
+ * GET /api/boundaries/[level]?vintage=<id>
+ *
+ * 지도 경계 파일 (level: province | municipality)
+ * - vintage 를 지정하면 하루 동안 캐시, 생략하면 현재 버전이 바뀔 수 있으므로 매번 검증 (ETag)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ level: string }> }
+) {
+  const { level } = await params;
+  if (!BOUNDARY_LEVELS.includes(level as BoundaryLevel)) {
+    return NextResponse.json({ error: '알 수 없는 경계 단위입니다' }, { status: 404 });
+  }
+
+  const requested = request.nextUrl.searchParams.get('vintage');
+  if (requested !== null && !isValidVintageId(requested)) {
+    return NextResponse.json({ error: '알 수 없는 경계 버전입니다' }, { status: 404 });
+  }
+
+  try {
+    const vintage = requested ?? await getActiveVintageId();
+    const file = vintage ? await readBoundary(vintage, level as BoundaryLevel) : null;
+    if (!file) {
+      return NextResponse.json({ error: '경계 데이터가 없습니다' }, { status: 404 });
+    }
+
+    const headers = {
+      ETag: file.etag,
+      'Cache-Control': requested ? 'private, max-age=86400' : 'private, no-cache',
+    };
+    if (request.headers.get('if-none-match') === file.etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(file.body, {
+      headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+    });
+  } catch (error) {
+    console.error('경계 데이터 조회 실패:', error);
+    return NextResponse.json({ error: '경계 데이터를 불러오지 못했습니다' }, { status: 502 });
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BOUNDARY_LEVELS,
+  BoundaryLevel,
+  MAX_BOUNDARY_FILE_SIZE,
+  isValidVintageId,
+  listBoundaryVintages,
+  getActiveVintageId,
+  setActiveVintage,
+  validateBoundary,
+  saveUploadedVintage,
+} from '@/lib/boundaryStore';
+import { requireRole } from '@/lib/session';
+
+/**
+ * GET /api/boundaries
+ *
+ * 지도 경계 버전 목록과 현재 사용 중인 버전
+ */
+export async function GET() {
+  try {
+    const [vintages, active] = await Promise.all([listBoundaryVintages(), getActiveVintageId()]);
+    return NextResponse.json(
+      { active, vintages },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    console.error('경계 버전 조회 실패:', error);
+    return NextResponse.json({ error: '데이터 조회에 실패했습니다' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/boundaries
+ *
+ * - application/json { active }: 사용할 경계 버전 변경
+ * - multipart/form-data { id, label, province, municipality }: 경계 버전 업로드 (TopoJSON / GeoJSON)
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, 'admin');
+  if (user instanceof NextResponse) return user;
+
+  if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+    return uploadVintage(request);
+  }
+
+  let active: string;
+  try {
+    const body = await request.json();
+    active = typeof body.active === 'string' ? body.active : '';
+  } catch {
+    return NextResponse.json({ error: '잘못된 요청입니다' }, { status: 400 });
+  }
+
+  const vintages = await listBoundaryVintages();
+  if (!vintages.some((v) => v.id === active && v.available.province)) {
+    return NextResponse.json({ error: '경계 파일이 없는 버전입니다' }, { status: 400 });
+  }
+
+  try {
+    await setActiveVintage(active);
+    return NextResponse.json({ active });
+  } catch (error) {
+    console.error('경계 버전 변경 실패:', error);
+    return NextResponse.json({ error: '저장에 실패했습니다' }, { status: 500 });
+  }
+}
+
+async function uploadVintage(request: NextRequest) {
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ error: '잘못된 요청입니다' }, { status: 400 });
+  }
+
+  const id = String(form.get('id') ?? '').trim();
+  const label = String(form.get('label') ?? '').trim() || id;
+  if (!isValidVintageId(id)) {
+    return NextResponse.json(
+      { error: '버전 ID 는 영문 소문자, 숫자, . _ - 만 사용할 수 있습니다' },
+      { status: 400 }
+    );
+  }
+
+  const files: Partial<Record<BoundaryLevel, string>> = {};
+  for (const level of BOUNDARY_LEVELS) {
+    const file = form.get(level);
+    if (!(file instanceof File) || file.size === 0) continue;
+    if (file.size > MAX_BOUNDARY_FILE_SIZE) {
+      return NextResponse.json({ error: '파일이 너무 큽니다 (최대 20MB)' }, { status: 413 });
+    }
+
+    const body = await file.text();
+    try {
+      validateBoundary(body);
+    } catch (error) {
+      return NextResponse.json({ error: `${file.name}: ${(error as Error).message}` }, { status: 400 });
+    }
+    files[level] = body;
+  }
+
+  if (!files.province) {
+    return NextResponse.json({ error: '시/도 경계 파일은 필수입니다' }, { status: 400 });
+  }
+
+  try {
+    await saveUploadedVintage(id, label, files);
+    return NextResponse.json({ vintages: await listBoundaryVintages() });
+  } catch (error) {
+    console.error('경계 버전 업로드 실패:', error);
+    return NextResponse.json({ error: (error as Error).message || '저장에 실패했습니다' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientStore } from '@/lib/clientStore';
+
+/**
+ * GET /api/clients/[name]
+ *
+ * 기관명으로 고객사 단건 조회 (월별 시계열 포함)
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const { name } = await params;
+
+  try {
+    const client = await getClientStore().get(name);
+    if (!client) {
+      return NextResponse.json({ error: '고객사를 찾을 수 없습니다' }, { status: 404 });
+    }
+    return NextResponse.json({ client });
+  } catch (error) {
+    console.error('고객사 조회 실패:', error);
+    return NextResponse.json({ error: '데이터 조회에 실패했습니다' }, { status: 500 });
+  }
+}
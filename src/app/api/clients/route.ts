@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ClientCategory, isClientCategory } from '@/data/clients';
+import { getClientStore } from '@/lib/clientStore';
+
+/**
+ * GET /api/clients
+ *
+ * 고객사 목록 조회 (월별 시계열 포함)
+ * - ?category=education,local 로 분류 필터링
+ */
+export async function GET(request: NextRequest) {
+  const param = request.nextUrl.searchParams.get('category');
+  const categories = param
+    ? (param.split(',').filter(Boolean) as ClientCategory[])
+    : undefined;
+
+  if (categories?.some((c) => !isClientCategory(c))) {
+    return NextResponse.json({ error: '알 수 없는 분류입니다' }, { status: 400 });
+  }
+
+  try {
+    const clients = await getClientStore().list(categories);
+    return NextResponse.json({ clients });
+  } catch (error) {
+    console.error('고객사 목록 조회 실패:', error);
+    return NextResponse.json({ error: '데이터 조회에 실패했습니다' }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientStore } from '@/lib/clientStore';
+import {
+  MAX_IMPORT_FILE_SIZE,
+  isValidMonth,
+  parseBillingFile,
+  classifyNewRows,
+  findImportConflicts,
+  diffImport,
+  applyImport,
+} from '@/lib/billingImport';
+import { enqueueReviewItems } from '@/lib/reviewQueue';
+import { requireRole } from '@/lib/session';
+
+/**
+ * POST /api/import
+ *
+ * 월별 청구 데이터 가져오기 (multipart/form-data)
+ * - file: CSV / XLSX / JSON 파일
+ * - month: 반영할 월 (YYYY-MM)
+ * - mode: 'preview' (기본값, 검증 + 변경 내역) | 'commit' (저장소 반영)
+ *
+ * commit 도 파일을 다시 받아 같은 검증을 거친 뒤 반영합니다.
+ * 분류가 없는 신규 기관은 자동 분류하며, 신뢰도가 낮으면 반영 시 검토 대기열에 추가합니다.
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, 'admin');
+  if (user instanceof NextResponse) return user;
+
+  let form: FormData;
+
+  try {
+    form = await request.formData();
+  } catch {
+    return NextResponse.json({ error: '잘못된 요청입니다' }, { status: 400 });
+  }
+
+  const file = form.get('file');
+  const month = String(form.get('month') ?? '');
+  const mode = form.get('mode') === 'commit' ? 'commit' : 'preview';
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: '파일을 선택해주세요' }, { status: 400 });
+  }
+  if (file.size > MAX_IMPORT_FILE_SIZE) {
+    return NextResponse.json({ error: '파일이 너무 큽니다 (최대 5MB)' }, { status: 413 });
+  }
+  if (!isValidMonth(month)) {
+    return NextResponse.json({ error: '월 형식이 올바르지 않습니다 (YYYY-MM)' }, { status: 400 });
+  }
+
+  const parsed = parseBillingFile(file.name, Buffer.from(await file.arrayBuffer()));
+
+  const store = getClientStore();
+  let records;
+  try {
+    records = await store.list();
+  } catch (error) {
+    console.error('고객사 목록 조회 실패:', error);
+    return NextResponse.json({ error: '데이터 조회에 실패했습니다' }, { status: 500 });
+  }
+
+  const classified = classifyNewRows(records, parsed.rows);
+  const rows = classified.rows;
+  const conflicts = findImportConflicts(records, rows);
+  const result = {
+    month,
+    rows,
+    errors: [...parsed.errors, ...conflicts.errors],
+    warnings: [...parsed.warnings, ...classified.warnings, ...conflicts.warnings],
+    diff: diffImport(records, month, rows),
+    writable: store.writable,
+  };
+
+  if (mode === 'preview') {
+    return NextResponse.json({ ...result, committed: false });
+  }
+
+  if (result.errors.length > 0) {
+    return NextResponse.json(
+      { ...result, committed: false, error: '오류가 있는 행을 수정한 뒤 다시 시도해주세요' },
+      { status: 422 }
+    );
+  }
+  if (!store.writable) {
+    return NextResponse.json(
+      { ...result, committed: false, error: '읽기 전용 저장소입니다 (CLIENT_STORE=static)' },
+      { status: 409 }
+    );
+  }
+
+  try {
+    // 미리보기 이후 바뀐 목록에 반영 (다른 변경을 덮어쓰지 않도록)
+    await store.update((current) => applyImport(current, month, rows));
+
+    const createdAt = new Date().toISOString();
+    await enqueueReviewItems(
+      rows
+        .filter((row) => row.classification?.confidence === 'low')
+        .map((row) => ({ ...row.classification!, name: row.name, createdAt }))
+    );
+  } catch (error) {
+    console.error('청구 데이터 반영 실패:', error);
+    return NextResponse.json({ error: '저장에 실패했습니다' }, { status: 500 });
+  }
+
+  return NextResponse.json({ ...result, committed: true });
+}
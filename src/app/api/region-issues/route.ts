@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CategorizedRecord } from '@/data/clients';
+import { getClientStore } from '@/lib/clientStore';
+import { findRegionIssues, validateRegionPair } from '@/lib/regionResolver';
+import { requireRole } from '@/lib/session';
+
+/**
+ * GET /api/region-issues
+ *
+ * 지역 정보 점검: 시/도·시/군/구 조합 오류, 기관명과 불일치, 지역 누락 고객사 목록 (제안 값 포함)
+ */
+export async function GET() {
+  try {
+    const records = await getClientStore().list();
+    return NextResponse.json({ issues: findRegionIssues(records) });
+  } catch (error) {
+    console.error('지역 정보 점검 실패:', error);
+    return NextResponse.json({ error: '데이터 조회에 실패했습니다' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/region-issues
+ *
+ * 고객사 지역 수정
+ * - body: { name, region, subRegion? }
+ * - 조합을 검증하고 정식 명칭으로 저장 (예: 전라북도 → 전북특별자치도)
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, 'admin');
+  if (user instanceof NextResponse) return user;
+
+  let name: string;
+  let region: string;
+  let subRegion: string | undefined;
+
+  try {
+    const body = await request.json();
+    name = typeof body.name === 'string' ? body.name : '';
+    region = typeof body.region === 'string' ? body.region.trim() : '';
+    subRegion = typeof body.subRegion === 'string' && body.subRegion.trim() ? body.subRegion.trim() : undefined;
+  } catch {
+    return NextResponse.json({ error: '잘못된 요청입니다' }, { status: 400 });
+  }
+
+  if (!name || !region) {
+    return NextResponse.json({ error: '기관명과 시/도를 입력해주세요' }, { status: 400 });
+  }
+
+  const { resolved, issues } = validateRegionPair(region, subRegion);
+  const invalid = issues.find((issue) => issue.severity === 'error');
+  if (invalid) {
+    return NextResponse.json({ error: invalid.message }, { status: 400 });
+  }
+
+  const store = getClientStore();
+  if (!store.writable) {
+    return NextResponse.json({ error: '읽기 전용 저장소입니다 (CLIENT_STORE=static)' }, { status: 409 });
+  }
+
+  try {
+    let updated: CategorizedRecord | null = null;
+    await store.update((records) => {
+      const record = records.find((r) => r.name === name);
+      if (!record) return null;
+
+      const changed = { ...record, region: resolved.region, subRegion: resolved.subRegion };
+      updated = changed;
+      return records.map((r) => (r.name === name ? changed : r));
+    });
+    if (!updated) {
+      return NextResponse.json({ error: '고객사를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    return NextResponse.json({ client: updated });
+  } catch (error) {
+    console.error('지역 정보 저장 실패:', error);
+    return NextResponse.json({ error: '저장에 실패했습니다' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatPeriod } from '@/data/clients';
+import { loadReportData } from '@/lib/report';
+import { renderReportPdf } from '@/lib/reportPdf';
+
+/**
+ * GET /api/report/pdf?from=YYYY-MM&to=YYYY-MM
+ *
+ * 인쇄용 리포트 PDF 다운로드 (/report 와 같은 구성, 서버에서 생성 - 외부 서비스 불필요)
+ * - 기간 생략 시 가장 최근 월
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  try {
+    const report = await loadReportData(searchParams.get('from'), searchParams.get('to'));
+    if (!report) {
+      return NextResponse.json({ error: '조회 기간 형식이 올바르지 않습니다 (YYYY-MM)' }, { status: 400 });
+    }
+
+    const pdf = await renderReportPdf(report);
+    const fileName = `공공고객사_리포트_${formatPeriod(report.period).replace(/\s+/g, '')}.pdf`;
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="report.pdf"; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('리포트 PDF 생성 실패:', error);
+    return NextResponse.json({ error: 'PDF 생성에 실패했습니다' }, { status: 500 });
+  }
+}
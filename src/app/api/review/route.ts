@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CategorizedRecord, isClientCategory } from '@/data/clients';
+import { getClientStore } from '@/lib/clientStore';
+import { listReviewItems, removeReviewItem, ReviewDecision } from '@/lib/reviewQueue';
+import { validateRegionPair } from '@/lib/regionResolver';
+import { requireRole } from '@/lib/session';
+
+/**
+ * GET /api/review
+ *
+ * 분류 검토 대기 목록 조회
+ */
+export async function GET() {
+  try {
+    const items = await listReviewItems();
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error('검토 대기 목록 조회 실패:', error);
+    return NextResponse.json({ error: '데이터 조회에 실패했습니다' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/review
+ *
+ * 검토 완료 처리: 고객사 분류/지역을 확정하고 대기열에서 제거
+ * - body: { name, category, region?, subRegion? }
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, 'admin');
+  if (user instanceof NextResponse) return user;
+
+  let decision: ReviewDecision;
+
+  try {
+    const body = await request.json();
+    decision = {
+      name: typeof body.name === 'string' ? body.name : '',
+      category: body.category,
+      region: typeof body.region === 'string' && body.region ? body.region : undefined,
+      subRegion: typeof body.subRegion === 'string' && body.subRegion ? body.subRegion : undefined,
+    };
+  } catch {
+    return NextResponse.json({ error: '잘못된 요청입니다' }, { status: 400 });
+  }
+
+  if (!decision.name || !isClientCategory(decision.category)) {
+    return NextResponse.json({ error: '기관명과 분류를 확인해주세요' }, { status: 400 });
+  }
+
+  const { resolved, issues } = validateRegionPair(decision.region, decision.subRegion);
+  const invalid = issues.find((issue) => issue.severity === 'error');
+  if (invalid) {
+    return NextResponse.json({ error: invalid.message }, { status: 400 });
+  }
+
+  const store = getClientStore();
+  if (!store.writable) {
+    return NextResponse.json({ error: '읽기 전용 저장소입니다 (CLIENT_STORE=static)' }, { status: 409 });
+  }
+
+  try {
+    let updated: CategorizedRecord | null = null;
+    await store.update((records) => {
+      const record = records.find((r) => r.name === decision.name);
+      if (!record) return null;
+
+      const changed = {
+        ...record,
+        category: decision.category,
+        region: resolved.region,
+        subRegion: resolved.subRegion,
+      };
+      updated = changed;
+      return records.map((r) => (r.name === decision.name ? changed : r));
+    });
+    await removeReviewItem(decision.name);
+
+    // 검토 중 삭제된 고객사는 대기열에서만 제거
+    if (!updated) {
+      return NextResponse.json({ error: '고객사를 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    return NextResponse.json({ client: updated });
+  } catch (error) {
+    console.error('검토 결과 저장 실패:', error);
+    return NextResponse.json({ error: '저장에 실패했습니다' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listAuditEntries } from '@/lib/auditLog';
+
+/**
+ * GET /api/sheets/history?client=
+ *
+ * 고객사별 계약 정보 / 사용자 지표 변경 이력 (최신순)
+ */
+export async function GET(request: NextRequest) {
+  const clientName = request.nextUrl.searchParams.get('client')?.trim();
+  if (!clientName) {
+    return NextResponse.json({ error: '기관명을 입력해주세요' }, { status: 400 });
+  }
+
+  try {
+    const entries = await listAuditEntries(clientName);
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('변경 이력 조회 실패:', error);
+    return NextResponse.json({ error: '데이터 조회에 실패했습니다' }, { status: 500 });
+  }
+}
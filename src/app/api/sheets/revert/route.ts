@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applySheetChange, getAuditEntry } from '@/lib/auditLog';
+import { requireRole } from '@/lib/session';
+
+/**
+ * POST /api/sheets/revert
+ *
+ * 변경 되돌리기 (영업 편집 권한 이상)
+ * - body: { entryId }
+ * - 해당 변경의 이전 값으로 다시 저장하고, 되돌리기도 변경 이력에 기록합니다.
+ * - 이후에 다시 변경된 값은 덮어쓰지 않도록 현재 값이 해당 변경 후 값과 같을 때만 되돌립니다.
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, 'editor');
+  if (user instanceof NextResponse) return user;
+
+  let entryId: string;
+
+  try {
+    const body = await request.json();
+    entryId = typeof body.entryId === 'string' ? body.entryId : '';
+  } catch {
+    return NextResponse.json({ error: '잘못된 요청입니다' }, { status: 400 });
+  }
+
+  try {
+    const entry = entryId ? await getAuditEntry(entryId) : null;
+    if (!entry) {
+      return NextResponse.json({ error: '변경 이력을 찾을 수 없습니다' }, { status: 404 });
+    }
+
+    const reverted = await applySheetChange(
+      { clientName: entry.clientName, target: entry.target, value: entry.before },
+      user,
+      { revertOf: entry.id, expected: entry.after }
+    );
+    if (!reverted) {
+      return NextResponse.json(
+        { error: '이후에 다시 변경되어 되돌릴 수 없습니다. 최근 변경부터 되돌려주세요' },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ entry: reverted });
+  } catch (error) {
+    console.error('변경 되돌리기 실패:', error);
+    return NextResponse.json({ error: '되돌리기에 실패했습니다' }, { status: 502 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applySheetChange, normalizeContract, normalizeMetrics, SheetChange } from '@/lib/auditLog';
+import { loadSheetData } from '@/lib/googleSheets';
+import { SheetAction, SHEET_ACTIONS } from '@/lib/sheetsApi';
+import { requireRole } from '@/lib/session';
+
+/**
+ * GET /api/sheets
+ *
+ * Google Sheets 계약 정보 / 사용자 지표 전체 (로그인 사용자)
+ * - Apps Script 주소는 서버 환경변수(GOOGLE_SHEETS_API_URL)에만 두고 브라우저는 이 라우트로 읽습니다.
+ */
+export async function GET() {
+  try {
+    const data = await loadSheetData();
+    return NextResponse.json(data, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    console.error('Google Sheets 조회 실패:', error);
+    return NextResponse.json({ error: 'Google Sheets 조회에 실패했습니다' }, { status: 502 });
+  }
+}
+
+/**
+ * POST /api/sheets
+ *
+ * Google Sheets 계약 정보 / 사용자 지표 저장·삭제 (영업 편집 권한 이상)
+ * - body: { action, clientName, contract?, metrics? }
+ * - action: saveContract | deleteContract | saveUsers | deleteUsers
+ * - 변경한 사용자 이름을 updatedBy 로 함께 보내고, 변경 전/후 값을 변경 이력에 기록합니다.
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, 'editor');
+  if (user instanceof NextResponse) return user;
+
+  let action: SheetAction;
+  let clientName: string;
+  let body: Record<string, unknown>;
+
+  try {
+    body = await request.json();
+    action = body.action as SheetAction;
+    clientName = typeof body.clientName === 'string' ? body.clientName.trim() : '';
+  } catch {
+    return NextResponse.json({ error: '잘못된 요청입니다' }, { status: 400 });
+  }
+
+  if (!SHEET_ACTIONS.includes(action) || !clientName) {
+    return NextResponse.json({ error: '작업과 기관명을 확인해주세요' }, { status: 400 });
+  }
+
+  // 저장할 값이 비어 있으면 삭제로 처리
+  const change: SheetChange =
+    action === 'saveContract' || action === 'deleteContract'
+      ? {
+          clientName,
+          target: 'contract',
+          value: action === 'saveContract' ? normalizeContract(body.contract) : null,
+        }
+      : {
+          clientName,
+          target: 'userMetrics',
+          value: action === 'saveUsers' ? normalizeMetrics(body.metrics) : null,
+        };
+
+  try {
+    const entry = await applySheetChange(change, user);
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    console.error('Google Sheets 저장 실패:', error);
+    return NextResponse.json({ error: 'Google Sheets 저장에 실패했습니다' }, { status: 502 });
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isUserRole } from '@/lib/auth';
+import { requireRole } from '@/lib/session';
+import { revokeUserSessions } from '@/lib/sessionRevocation';
+import {
+  MIN_PASSWORD_LENGTH,
+  isValidUserId,
+  listUsers,
+  createUser,
+  updateUser,
+  deleteUser,
+  UserChanges,
+} from '@/lib/userStore';
+
+/**
+ * GET /api/users
+ *
+ * 사용자 계정 목록 (관리자 전용)
+ */
+export async function GET(request: NextRequest) {
+  const user = await requireRole(request, 'admin');
+  if (user instanceof NextResponse) return user;
+
+  try {
+    return NextResponse.json({ users: await listUsers() });
+  } catch (error) {
+    console.error('사용자 목록 조회 실패:', error);
+    return NextResponse.json({ error: '데이터 조회에 실패했습니다' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/users
+ *
+ * 사용자 계정 추가 (관리자 전용)
+ * - body: { id, name, role, password }
+ */
+export async function POST(request: NextRequest) {
+  const user = await requireRole(request, 'admin');
+  if (user instanceof NextResponse) return user;
+
+  let id: string;
+  let name: string;
+  let role: unknown;
+  let password: string;
+
+  try {
+    const body = await request.json();
+    id = typeof body.id === 'string' ? body.id.trim().toLowerCase() : '';
+    name = typeof body.name === 'string' ? body.name.trim() : '';
+    role = body.role;
+    password = typeof body.password === 'string' ? body.password : '';
+  } catch {
+    return NextResponse.json({ error: '잘못된 요청입니다' }, { status: 400 });
+  }
+
+  if (!isValidUserId(id)) {
+    return NextResponse.json(
+      { error: 'ID 는 영문 소문자, 숫자, . _ @ - 로 2~64자여야 합니다' },
+      { status: 400 }
+    );
+  }
+  if (!name || !isUserRole(role)) {
+    return NextResponse.json({ error: '이름과 권한을 확인해주세요' }, { status: 400 });
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return NextResponse.json(
+      { error: `비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const created = await createUser({ id, name, role, password });
+    return NextResponse.json({ user: created });
+  } catch (error) {
+    console.error('사용자 추가 실패:', error);
+    return NextResponse.json({ error: (error as Error).message || '저장에 실패했습니다' }, { status: 400 });
+  }
+}
+
+/**
+ * PATCH /api/users
+ *
+ * 사용자 계정 수정 (관리자 전용)
+ * - body: { id, name?, role?, password? }
+ * - 권한 / 비밀번호를 바꾸면 해당 사용자의 기존 세션을 모두 폐기합니다. (다시 로그인해야 적용)
+ */
+export async function PATCH(request: NextRequest) {
+  const user = await requireRole(request, 'admin');
+  if (user instanceof NextResponse) return user;
+
+  let id: string;
+  const changes: UserChanges = {};
+
+  try {
+    const body = await request.json();
+    id = typeof body.id === 'string' ? body.id : '';
+    if (typeof body.name === 'string' && body.name.trim()) changes.name = body.name.trim();
+    if (body.role !== undefined) {
+      if (!isUserRole(body.role)) {
+        return NextResponse.json({ error: '알 수 없는 권한입니다' }, { status: 400 });
+      }
+      changes.role = body.role;
+    }
+    if (typeof body.password === 'string' && body.password) changes.password = body.password;
+  } catch {
+    return NextResponse.json({ error: '잘못된 요청입니다' }, { status: 400 });
+  }
+
+  if (changes.password !== undefined && changes.password.length < MIN_PASSWORD_LENGTH) {
+    return NextResponse.json(
+      { error: `비밀번호는 ${MIN_PASSWORD_LENGTH}자 이상이어야 합니다` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const updated = await updateUser(id, changes);
+    if (changes.role !== undefined || changes.password !== undefined) {
+      await revokeUserSessions(id);
+    }
+    return NextResponse.json({ user: updated });
+  } catch (error) {
+    console.error('사용자 수정 실패:', error);
+    return NextResponse.json({ error: (error as Error).message || '저장에 실패했습니다' }, { status: 400 });
+  }
+}
+
+/**
+ * DELETE /api/users?id=
+ *
+ * 사용자 계정 삭제 (관리자 전용, 본인 계정 / 마지막 관리자는 삭제 불가)
+ * - 삭제한 사용자의 기존 세션도 모두 폐기합니다.
+ */
+export async function DELETE(request: NextRequest) {
+  const user = await requireRole(request, 'admin');
+  if (user instanceof NextResponse) return user;
+
+  const id = request.nextUrl.searchParams.get('id') ?? '';
+  if (id === user.id) {
+    return NextResponse.json({ error: '본인 계정은 삭제할 수 없습니다' }, { status: 400 });
+  }
+
+  try {
+    await deleteUser(id);
+    await revokeUserSessions(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('사용자 삭제 실패:', error);
+    return NextResponse.json({ error: (error as Error).message || '삭제에 실패했습니다' }, { status: 400 });
+  }
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import type { BoundaryVintage } from '@/lib/boundaryStore';
+
+/**
+ * 지도 경계 데이터 설정
+ * 지도에 사용할 경계 버전(행정구역 개편 시점)을 선택하고, 새 경계 파일을 업로드합니다.
+ */
+export default function BoundarySettings() {
+  const [vintages, setVintages] = useState<BoundaryVintage[]>([]);
+  const [active, setActive] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/boundaries');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setVintages(data.vintages);
+      setActive(data.active);
+      setError('');
+    } catch {
+      setError('경계 데이터 설정을 불러오지 못했습니다');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function handleSelect(id: string) {
+    setSaving(true);
+    setError('');
+
+    try {
+      const res = await fetch('/api/boundaries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: id }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setActive(data.active);
+      } else {
+        setError(data.error || '저장에 실패했습니다');
+      }
+    } catch {
+      setError('네트워크 오류가 발생했습니다. 다시 시도해주세요.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5">
+      <h2 className="font-bold text-lg">🗺️ 지도 경계 데이터</h2>
+      <p className="text-xs text-slate-500 mt-0.5 mb-3">
+        지도에 사용할 행정구역 경계 버전입니다. 강원특별자치도·전북특별자치도 등 개편된 경계로 바꿀 수 있습니다.
+      </p>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      <div className="space-y-1.5">
+        {vintages.map(vintage => (
+          <label
+            key={vintage.id}
+            className="flex items-center gap-2 p-2.5 bg-slate-50 rounded-lg text-sm cursor-pointer"
+          >
+            <input
+              type="radio"
+              name="boundary-vintage"
+              checked={active === vintage.id}
+              onChange={() => handleSelect(vintage.id)}
+              disabled={saving || !vintage.available.province}
+            />
+            <span className="font-medium">{vintage.label}</span>
+            <span className="text-xs text-slate-400">{vintage.id}</span>
+            <span className="text-xs text-slate-400">{vintage.bundled ? '기본 제공' : '업로드'}</span>
+            {!vintage.available.province ? (
+              <span className="text-xs text-amber-600">경계 파일 없음 (npm run boundaries 로 생성)</span>
+            ) : !vintage.available.municipality && (
+              <span className="text-xs text-amber-600">시/군/구 경계 없음</span>
+            )}
+          </label>
+        ))}
+      </div>
+      <UploadForm onUploaded={load} />
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub Components
+// ============================================================================
+
+function UploadForm({ onUploaded }: { onUploaded: () => void }) {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const form = e.currentTarget;
+    setUploading(true);
+    setError('');
+
+    try {
+      const res = await fetch('/api/boundaries', { method: 'POST', body: new FormData(form) });
+      if (res.ok) {
+        form.reset();
+        onUploaded();
+      } else {
+        const data = await res.json();
+        setError(data.error || '업로드에 실패했습니다');
+      }
+    } catch {
+      setError('네트워크 오류가 발생했습니다. 다시 시도해주세요.');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 pt-4 border-t border-slate-100">
+      <div className="text-sm font-medium mb-2">새 경계 버전 업로드</div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          name="id"
+          required
+          placeholder="버전 ID (예: sgis-2024)"
+          className="w-40 px-2 py-1.5 border border-slate-300 rounded"
+          disabled={uploading}
+        />
+        <input
+          name="label"
+          placeholder="이름"
+          className="w-40 px-2 py-1.5 border border-slate-300 rounded"
+          disabled={uploading}
+        />
+        <label className="flex items-center gap-1 text-slate-500">
+          시/도
+          <input name="province" type="file" accept=".json,.topojson,.geojson" required disabled={uploading} />
+        </label>
+        <label className="flex items-center gap-1 text-slate-500">
+          시/군/구
+          <input name="municipality" type="file" accept=".json,.topojson,.geojson" disabled={uploading} />
+        </label>
+        <button
+          type="submit"
+          disabled={uploading}
+          className="px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {uploading ? '업로드 중...' : '업로드'}
+        </button>
+      </div>
+      <p className="text-xs text-slate-400 mt-1.5">
+        TopoJSON / GeoJSON (최대 20MB) · NAME_1(시/도), NAME_2(시/군/구) 속성 필요 · scripts/buildBoundaries.ts 로 변환 권장
+      </p>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,291 @@
+'use client';
+
+import { useState, FormEvent } from 'react';
+import Link from 'next/link';
+import { formatMoney, formatMonth, shiftMonth, MonthlyMetrics, CLIENT_CATEGORY_LABELS } from '@/data/clients';
+import type { ImportRow, ImportIssue, ImportDiff } from '@/lib/billingImport';
+import ReviewQueue from './ReviewQueue';
+
+interface ImportResult {
+  month: string;
+  rows: ImportRow[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+  diff: ImportDiff;
+  writable: boolean;
+  committed: boolean;
+  error?: string;
+}
+
+/**
+ * 기본 반영 월: 직전 달 (청구 데이터는 월이 끝난 뒤 받으므로)
+ */
+function defaultMonth(): string {
+  const now = new Date();
+  const current = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+  return shiftMonth(current, -1);
+}
+
+export default function ImportForm() {
+  const [month, setMonth] = useState(defaultMonth);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [commitCount, setCommitCount] = useState(0);
+
+  async function submit(mode: 'preview' | 'commit') {
+    if (!file) return;
+    setLoading(true);
+    setError('');
+
+    const body = new FormData();
+    body.append('file', file);
+    body.append('month', month);
+    body.append('mode', mode);
+
+    try {
+      const res = await fetch('/api/import', { method: 'POST', body });
+      const data = await res.json();
+
+      if (data.diff) setResult(data);
+      if (data.committed) setCommitCount(count => count + 1);
+      if (!res.ok) setError(data.error || '요청 처리에 실패했습니다');
+    } catch {
+      setError('네트워크 오류가 발생했습니다. 다시 시도해주세요.');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function handlePreview(e: FormEvent) {
+    e.preventDefault();
+    setResult(null);
+    submit('preview');
+  }
+
+  const canCommit = !!result && !result.committed && result.errors.length === 0 && result.writable
+    && result.month === month;
+
+  return (
+    <div className="space-y-5">
+      {/* 파일 선택 */}
+      <form onSubmit={handlePreview} className="bg-white rounded-xl border border-slate-200 p-5 flex flex-wrap items-end gap-4">
+        <div>
+          <label htmlFor="month" className="block text-sm font-semibold text-slate-700 mb-1.5">반영 월</label>
+          <input
+            id="month"
+            type="month"
+            value={month}
+            onChange={(e) => { setMonth(e.target.value); setResult(null); }}
+            className="px-3 py-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            required
+            disabled={loading}
+          />
+        </div>
+        <div className="flex-1 min-w-[240px]">
+          <label htmlFor="file" className="block text-sm font-semibold text-slate-700 mb-1.5">청구 파일</label>
+          <input
+            id="file"
+            type="file"
+            accept=".csv,.xlsx,.xls,.json"
+            onChange={(e) => { setFile(e.target.files?.[0] ?? null); setResult(null); }}
+            className="block w-full text-sm text-slate-600 file:mr-3 file:px-3 file:py-2 file:rounded-lg file:border-0 file:bg-slate-100 file:text-slate-700 file:text-sm file:font-medium hover:file:bg-slate-200"
+            required
+            disabled={loading}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!file || loading}
+          className="px-4 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {loading ? '처리 중...' : '미리보기'}
+        </button>
+        <p className="w-full text-xs text-slate-400">
+          필수 열: 기관명, 사용금액, 사용량 · 선택 열: 분류, 활성사용자, 전체가입자 (최대 5MB)
+        </p>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg px-4 py-3 text-sm text-red-600">{error}</div>
+      )}
+
+      {result && (
+        <>
+          {/* 요약 */}
+          <div className="bg-white rounded-xl border border-slate-200 p-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h2 className="font-bold text-lg">{formatMonth(result.month)} 변경 내역</h2>
+                <p className="text-xs text-slate-500 mt-0.5">
+                  {result.diff.baseMonth
+                    ? `비교 기준: ${formatMonth(result.diff.baseMonth)}${result.diff.baseMonth === result.month ? ' (기존 데이터 교체)' : ''}`
+                    : '비교할 기존 데이터가 없습니다'}
+                </p>
+              </div>
+              <div className="flex gap-2 text-xs">
+                <SummaryChip label="신규" count={result.diff.added.length} color="emerald" />
+                <SummaryChip label="변경" count={result.diff.changed.length} color="indigo" />
+                <SummaryChip label="누락" count={result.diff.removed.length} color="amber" />
+                <SummaryChip label="변동 없음" count={result.diff.unchangedCount} color="slate" />
+              </div>
+            </div>
+
+            {result.committed ? (
+              <div className="mt-4 bg-emerald-50 border border-emerald-200 rounded-lg px-4 py-3 text-sm text-emerald-700 flex items-center justify-between">
+                <span>✓ {result.rows.length}개 기관의 {formatMonth(result.month)} 데이터를 반영했습니다.</span>
+                <Link href="/" className="font-semibold hover:underline">대시보드로 이동 →</Link>
+              </div>
+            ) : (
+              <div className="mt-4 flex items-center justify-between gap-3">
+                <p className="text-xs text-slate-500">
+                  {!result.writable
+                    ? '읽기 전용 저장소(CLIENT_STORE=static)에서는 반영할 수 없습니다.'
+                    : result.errors.length > 0
+                      ? '오류를 수정한 파일로 다시 미리보기 해주세요.'
+                      : `반영하면 ${formatMonth(result.month)} 데이터가 파일 내용으로 교체됩니다.`}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => submit('commit')}
+                  disabled={!canCommit || loading}
+                  className="px-4 py-2 bg-emerald-600 text-white text-sm font-semibold rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  반영하기
+                </button>
+              </div>
+            )}
+          </div>
+
+          <IssueList title="오류" issues={result.errors} tone="red" />
+          <IssueList title="경고" issues={result.warnings} tone="amber" />
+
+          {result.diff.added.length > 0 && (
+            <DiffSection title="신규 기관">
+              {result.diff.added.map(row => (
+                <tr key={row.name} className="border-t border-slate-100">
+                  <td className="py-1.5 pr-3">
+                    {row.name}
+                    {row.region && (
+                      <span className="ml-1.5 text-slate-400">{[row.region, row.subRegion].filter(Boolean).join(' ')}</span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-3 text-slate-500">
+                    {row.category ? CLIENT_CATEGORY_LABELS[row.category] : '-'}
+                    {row.classification && (
+                      <span
+                        className={`ml-1.5 px-1.5 py-0.5 rounded text-[10px] font-semibold ${
+                          row.classification.confidence === 'low' ? 'bg-amber-100 text-amber-700' : 'bg-slate-100 text-slate-500'
+                        }`}
+                        title={row.classification.reason}
+                      >
+                        {row.classification.confidence === 'low' ? '검토 필요' : '자동'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-3 text-right">-</td>
+                  <td className="py-1.5 text-right font-medium">{formatMetrics(row)}</td>
+                </tr>
+              ))}
+            </DiffSection>
+          )}
+
+          {result.diff.changed.length > 0 && (
+            <DiffSection title="변경">
+              {result.diff.changed.map(({ name, before, after }) => (
+                <tr key={name} className="border-t border-slate-100">
+                  <td className="py-1.5 pr-3">{name}</td>
+                  <td className="py-1.5 pr-3 text-slate-500">{after.category ? CLIENT_CATEGORY_LABELS[after.category] : '-'}</td>
+                  <td className="py-1.5 pr-3 text-right text-slate-400">{formatMetrics(before)}</td>
+                  <td className="py-1.5 text-right font-medium">{formatMetrics(after)}</td>
+                </tr>
+              ))}
+            </DiffSection>
+          )}
+
+          {result.diff.removed.length > 0 && (
+            <DiffSection title="파일에 없는 기관 (해당 월 데이터 없음으로 처리)">
+              {result.diff.removed.map(({ name, category, before }) => (
+                <tr key={name} className="border-t border-slate-100">
+                  <td className="py-1.5 pr-3">{name}</td>
+                  <td className="py-1.5 pr-3 text-slate-500">{CLIENT_CATEGORY_LABELS[category]}</td>
+                  <td className="py-1.5 pr-3 text-right text-slate-400">{formatMetrics(before)}</td>
+                  <td className="py-1.5 text-right text-slate-400">-</td>
+                </tr>
+              ))}
+            </DiffSection>
+          )}
+        </>
+      )}
+
+      <ReviewQueue refreshKey={commitCount} />
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub Components
+// ============================================================================
+
+function formatMetrics(metrics: Pick<MonthlyMetrics, 'charge' | 'usage'>): string {
+  return `${formatMoney(metrics.charge)} · ${metrics.usage.toLocaleString()}`;
+}
+
+const CHIP_STYLES = {
+  emerald: 'bg-emerald-50 text-emerald-700',
+  indigo: 'bg-indigo-50 text-indigo-700',
+  amber: 'bg-amber-50 text-amber-700',
+  slate: 'bg-slate-100 text-slate-600',
+};
+
+function SummaryChip({ label, count, color }: { label: string; count: number; color: keyof typeof CHIP_STYLES }) {
+  return (
+    <span className={`px-2.5 py-1 rounded-full font-semibold ${CHIP_STYLES[color]}`}>
+      {label} {count}
+    </span>
+  );
+}
+
+function IssueList({ title, issues, tone }: { title: string; issues: ImportIssue[]; tone: 'red' | 'amber' }) {
+  if (issues.length === 0) return null;
+  const styles = tone === 'red'
+    ? 'bg-red-50 border-red-200 text-red-700'
+    : 'bg-amber-50 border-amber-200 text-amber-700';
+
+  return (
+    <details open={tone === 'red'} className={`rounded-xl border px-4 py-3 text-sm ${styles}`}>
+      <summary className="font-semibold cursor-pointer">{title} {issues.length}건</summary>
+      <ul className="mt-2 space-y-1 max-h-64 overflow-y-auto">
+        {issues.map((issue, i) => (
+          <li key={i} className="text-xs">
+            {issue.row !== null && <span className="font-mono mr-1.5">{issue.row}행</span>}
+            {issue.name && <span className="font-medium mr-1.5">{issue.name}</span>}
+            {issue.message}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+function DiffSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5">
+      <h3 className="font-semibold text-sm mb-2">{title}</h3>
+      <div className="max-h-80 overflow-y-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-slate-400 text-left">
+              <th className="py-1 pr-3 font-medium">기관명</th>
+              <th className="py-1 pr-3 font-medium">분류</th>
+              <th className="py-1 pr-3 font-medium text-right">기존 (금액 · 사용량)</th>
+              <th className="py-1 font-medium text-right">가져오기</th>
+            </tr>
+          </thead>
+          <tbody>{children}</tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
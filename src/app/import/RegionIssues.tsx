@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CLIENT_CATEGORY_LABELS } from '@/data/clients';
+import type { RegionCheckResult } from '@/lib/regionResolver';
+
+/**
+ * 지역 정보 점검
+ * 시/도·시/군/구 조합 오류, 기관명과 불일치, 지역 누락 고객사를 보여주고 수정합니다.
+ */
+export default function RegionIssues() {
+  const [results, setResults] = useState<RegionCheckResult[]>([]);
+  const [error, setError] = useState('');
+  const [showWarnings, setShowWarnings] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/region-issues');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setResults(data.issues);
+      setError('');
+    } catch {
+      setError('지역 정보 점검 결과를 불러오지 못했습니다');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const errorCount = results.filter(r => r.issues.some(i => i.severity === 'error')).length;
+  const visible = showWarnings ? results : results.filter(r => r.issues.some(i => i.severity === 'error'));
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h2 className="font-bold text-lg">📍 지역 정보 점검</h2>
+          <p className="text-xs text-slate-500 mt-0.5">
+            기관명과 시/도·시/군/구 조합을 검사합니다 · 오류 {errorCount}건 · 확인 권장 {results.length - errorCount}건
+          </p>
+        </div>
+        <label className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer">
+          <input type="checkbox" checked={showWarnings} onChange={(e) => setShowWarnings(e.target.checked)} />
+          확인 권장 항목도 보기
+        </label>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      {!error && visible.length === 0 && (
+        <p className="text-sm text-slate-400 mt-3">표시할 항목이 없습니다.</p>
+      )}
+      <div className="space-y-2 mt-3">
+        {visible.map(result => (
+          <RegionIssueRow key={result.name} result={result} onDone={load} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub Components
+// ============================================================================
+
+function RegionIssueRow({ result, onDone }: { result: RegionCheckResult; onDone: () => void }) {
+  const [region, setRegion] = useState(result.suggestion?.region ?? result.region ?? '');
+  const [subRegion, setSubRegion] = useState(result.suggestion?.subRegion ?? result.subRegion ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  async function handleSave() {
+    setSaving(true);
+    setError('');
+
+    try {
+      const res = await fetch('/api/region-issues', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: result.name, region, subRegion }),
+      });
+      if (res.ok) {
+        onDone();
+      } else {
+        const data = await res.json();
+        setError(data.error || '저장에 실패했습니다');
+      }
+    } catch {
+      setError('네트워크 오류가 발생했습니다. 다시 시도해주세요.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-50 rounded-lg text-sm">
+      <div className="flex-1 min-w-[220px]">
+        <div className="font-medium">
+          {result.name}
+          <span className="ml-1.5 text-xs text-slate-400">{CLIENT_CATEGORY_LABELS[result.category]}</span>
+        </div>
+        <div className="text-xs text-slate-500">
+          현재: {[result.region, result.subRegion].filter(Boolean).join(' ') || '없음'}
+        </div>
+        {result.issues.map((issue, i) => (
+          <div key={i} className={`text-xs ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+            {issue.message}
+          </div>
+        ))}
+      </div>
+      <input
+        value={region}
+        onChange={(e) => setRegion(e.target.value)}
+        placeholder="시/도"
+        className="w-32 px-2 py-1.5 border border-slate-300 rounded text-xs"
+        disabled={saving}
+      />
+      <input
+        value={subRegion}
+        onChange={(e) => setSubRegion(e.target.value)}
+        placeholder="시/군/구"
+        className="w-24 px-2 py-1.5 border border-slate-300 rounded text-xs"
+        disabled={saving}
+      />
+      <button
+        onClick={handleSave}
+        disabled={!region || saving}
+        className="px-3 py-1.5 text-xs bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {saving ? '저장 중...' : result.suggestion ? '제안 적용' : '저장'}
+      </button>
+      {error && <p className="w-full text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
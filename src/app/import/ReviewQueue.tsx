@@ -0,0 +1,129 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ClientCategory, CLIENT_CATEGORY_LABELS } from '@/data/clients';
+import type { ReviewItem } from '@/lib/reviewQueue';
+
+const CATEGORY_OPTIONS = Object.entries(CLIENT_CATEGORY_LABELS) as [ClientCategory, string][];
+
+/**
+ * 분류 검토 대기열
+ * 자동 분류 신뢰도가 낮았던 신규 기관의 분류/지역을 확정합니다.
+ * @param refreshKey 값이 바뀌면 목록을 다시 불러옵니다 (가져오기 반영 후)
+ */
+export default function ReviewQueue({ refreshKey }: { refreshKey: number }) {
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/review');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setItems(data.items);
+      setError('');
+    } catch {
+      setError('검토 대기 목록을 불러오지 못했습니다');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load, refreshKey]);
+
+  if (items.length === 0 && !error) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-amber-200 p-5">
+      <h2 className="font-bold text-lg">🔎 분류 검토 대기 ({items.length})</h2>
+      <p className="text-xs text-slate-500 mt-0.5 mb-3">
+        자동 분류 신뢰도가 낮은 기관입니다. 분류와 지역을 확인한 뒤 확정해주세요.
+      </p>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      <div className="space-y-2">
+        {items.map(item => (
+          <ReviewRow key={item.name} item={item} onDone={load} />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub Components
+// ============================================================================
+
+function ReviewRow({ item, onDone }: { item: ReviewItem; onDone: () => void }) {
+  const [category, setCategory] = useState<ClientCategory | ''>(item.category ?? '');
+  const [region, setRegion] = useState(item.region ?? '');
+  const [subRegion, setSubRegion] = useState(item.subRegion ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  async function handleConfirm() {
+    if (!category) return;
+    setSaving(true);
+    setError('');
+
+    try {
+      const res = await fetch('/api/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: item.name, category, region, subRegion }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || '저장에 실패했습니다');
+      }
+      onDone();
+    } catch {
+      setError('네트워크 오류가 발생했습니다. 다시 시도해주세요.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-slate-50 rounded-lg text-sm">
+      <div className="flex-1 min-w-[180px]">
+        <div className="font-medium">{item.name}</div>
+        <div className="text-xs text-slate-400">
+          제안: {item.category ? CLIENT_CATEGORY_LABELS[item.category] : '없음'} · {item.reason}
+        </div>
+      </div>
+      <select
+        value={category}
+        onChange={(e) => setCategory(e.target.value as ClientCategory)}
+        className="px-2 py-1.5 border border-slate-300 rounded text-xs"
+        disabled={saving}
+      >
+        <option value="">분류 선택</option>
+        {CATEGORY_OPTIONS.map(([key, label]) => (
+          <option key={key} value={key}>{label}</option>
+        ))}
+      </select>
+      <input
+        value={region}
+        onChange={(e) => setRegion(e.target.value)}
+        placeholder="시/도"
+        className="w-28 px-2 py-1.5 border border-slate-300 rounded text-xs"
+        disabled={saving}
+      />
+      <input
+        value={subRegion}
+        onChange={(e) => setSubRegion(e.target.value)}
+        placeholder="시/군/구"
+        className="w-24 px-2 py-1.5 border border-slate-300 rounded text-xs"
+        disabled={saving}
+      />
+      <button
+        onClick={handleConfirm}
+        disabled={!category || saving}
+        className="px-3 py-1.5 text-xs bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {saving ? '저장 중...' : '확정'}
+      </button>
+      {error && <p className="w-full text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
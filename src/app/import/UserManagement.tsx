@@ -0,0 +1,213 @@
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import { ROLE_LABELS, USER_ROLES, UserRole } from '@/lib/auth';
+import type { PublicUser } from '@/lib/userStore';
+
+/**
+ * 사용자 계정 관리
+ * 로그인 계정을 추가하고 권한(조회 / 영업 편집 / 관리자) 변경, 비밀번호 재설정, 삭제를 합니다.
+ * 권한 / 비밀번호를 바꾸면 해당 사용자는 모든 기기에서 로그아웃되고, 다시 로그인하면 적용됩니다.
+ */
+export default function UserManagement() {
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/users');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setUsers(data.users);
+      setError('');
+    } catch {
+      setError('사용자 목록을 불러오지 못했습니다');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-5">
+      <h2 className="font-bold text-lg">👤 사용자 계정</h2>
+      <p className="text-xs text-slate-500 mt-0.5 mb-3">
+        조회: 대시보드 · 리포트 보기 / 영업 편집: 계약 정보 · 사용자 수 수정 / 관리자: 데이터 가져오기 · 설정 · 계정 관리
+      </p>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      <div className="space-y-1.5">
+        {users.map(user => (
+          <UserRow key={user.id} user={user} onChanged={load} />
+        ))}
+      </div>
+      <CreateUserForm onCreated={load} />
+    </div>
+  );
+}
+
+// ============================================================================
+// Sub Components
+// ============================================================================
+
+function UserRow({ user, onChanged }: { user: PublicUser; onChanged: () => void }) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  async function request(method: 'PATCH' | 'DELETE', body?: Record<string, string>) {
+    setSaving(true);
+    setError('');
+
+    try {
+      const res = method === 'DELETE'
+        ? await fetch(`/api/users?${new URLSearchParams({ id: user.id })}`, { method })
+        : await fetch('/api/users', {
+            method,
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ id: user.id, ...body }),
+          });
+      const data = await res.json();
+      if (res.ok) {
+        onChanged();
+      } else {
+        setError(data.error || '저장에 실패했습니다');
+      }
+    } catch {
+      setError('네트워크 오류가 발생했습니다. 다시 시도해주세요.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  function handleResetPassword() {
+    const password = prompt(`${user.name} (${user.id}) 의 새 비밀번호`);
+    if (password) request('PATCH', { password });
+  }
+
+  function handleDelete() {
+    if (confirm(`${user.name} (${user.id}) 계정을 삭제하시겠습니까?`)) request('DELETE');
+  }
+
+  return (
+    <div className="p-2.5 bg-slate-50 rounded-lg text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium">{user.name}</span>
+        <span className="text-xs text-slate-400">{user.id}</span>
+        <select
+          value={user.role}
+          onChange={(e) => request('PATCH', { role: e.target.value })}
+          disabled={saving}
+          className="ml-auto text-xs px-2 py-1 border border-slate-300 rounded bg-white"
+        >
+          {USER_ROLES.map(role => (
+            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleResetPassword}
+          disabled={saving}
+          className="text-xs px-2 py-1 text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded disabled:opacity-50"
+        >
+          비밀번호 재설정
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={saving}
+          className="text-xs px-2 py-1 text-red-500 hover:text-red-700 hover:bg-red-50 rounded disabled:opacity-50"
+        >
+          삭제
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
+
+function CreateUserForm({ onCreated }: { onCreated: () => void }) {
+  const [role, setRole] = useState<UserRole>('viewer');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  async function handleSubmit(e: FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const values = new FormData(form);
+    setSaving(true);
+    setError('');
+
+    try {
+      const res = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id: values.get('id'),
+          name: values.get('name'),
+          password: values.get('password'),
+          role,
+        }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        form.reset();
+        setRole('viewer');
+        onCreated();
+      } else {
+        setError(data.error || '저장에 실패했습니다');
+      }
+    } catch {
+      setError('네트워크 오류가 발생했습니다. 다시 시도해주세요.');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 pt-4 border-t border-slate-100">
+      <div className="text-sm font-medium mb-2">새 계정 추가</div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <input
+          name="id"
+          required
+          placeholder="아이디 (예: kim.sales)"
+          autoComplete="off"
+          className="w-40 px-2 py-1.5 border border-slate-300 rounded"
+          disabled={saving}
+        />
+        <input
+          name="name"
+          required
+          placeholder="이름"
+          className="w-32 px-2 py-1.5 border border-slate-300 rounded"
+          disabled={saving}
+        />
+        <input
+          name="password"
+          type="password"
+          required
+          placeholder="초기 비밀번호 (8자 이상)"
+          autoComplete="new-password"
+          className="w-44 px-2 py-1.5 border border-slate-300 rounded"
+          disabled={saving}
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          className="px-2 py-1.5 border border-slate-300 rounded bg-white"
+          disabled={saving}
+        >
+          {USER_ROLES.map(r => (
+            <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? '저장 중...' : '추가'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,52 @@
+import Link from 'next/link';
+import ImportForm from './ImportForm';
+import RegionIssues from './RegionIssues';
+import BoundarySettings from './BoundarySettings';
+import UserManagement from './UserManagement';
+
+export const metadata = {
+  title: 'Wrks.ai - 청구 데이터 가져오기',
+};
+
+export default function ImportPage() {
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg bg-indigo-600 flex items-center justify-center text-white font-bold text-lg">
+              W
+            </div>
+            <span className="font-bold text-lg tracking-tight">
+              Wrks<span className="text-indigo-600">.ai</span>
+            </span>
+          </Link>
+          <Link
+            href="/"
+            className="text-xs text-slate-500 hover:text-slate-700 px-2.5 py-1.5 rounded-lg hover:bg-slate-100 transition-colors"
+          >
+            ← 대시보드
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-6">
+        <h1 className="text-2xl font-bold tracking-tight">📥 월별 청구 데이터 가져오기</h1>
+        <p className="text-sm text-slate-500 mt-1 mb-6">
+          청구 시스템에서 내려받은 CSV / XLSX / JSON 파일을 검증하고, 변경 내역을 확인한 뒤 해당 월 데이터로 반영합니다.
+        </p>
+        <ImportForm />
+        <div className="mt-5">
+          <RegionIssues />
+        </div>
+        <div className="mt-5">
+          <BoundarySettings />
+        </div>
+        <div className="mt-5">
+          <UserManagement />
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,26 +1,56 @@
 'use client';
 
-import { useState, FormEvent } from 'react';
+import { useState, useEffect, FormEvent } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 
+/** SSO 콜백이 돌려준 오류 코드 (/login?error=) */
+const SSO_ERROR_MESSAGES: Record<string, string> = {
+  sso_disabled: 'SSO 로그인이 설정되지 않았습니다',
+  sso_expired: 'SSO 로그인 시간이 지났습니다. 다시 시도해주세요',
+  sso_forbidden: '대시보드 사용 권한이 없는 계정입니다. 관리자에게 문의해주세요',
+  sso_failed: 'SSO 로그인에 실패했습니다. 다시 시도해주세요',
+};
+
 export default function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  const [id, setId] = useState('');
   const [password, setPassword] = useState('');
-  const [error, setError] = useState('');
+  const [error, setError] = useState(() => SSO_ERROR_MESSAGES[searchParams.get('error') ?? ''] ?? '');
   const [loading, setLoading] = useState(false);
+  // 잠기기 전까지 남은 시도 횟수 (실패 응답에만 포함)
+  const [remainingAttempts, setRemainingAttempts] = useState<number | null>(null);
+  // 다시 시도할 수 있을 때까지 남은 시간 (초, 429 응답)
+  const [retryAfter, setRetryAfter] = useState(0);
+  // SSO 로그인 버튼 이름 (SSO 를 사용하지 않으면 null)
+  const [ssoName, setSsoName] = useState<string | null>(null);
 
-  const router = useRouter();
-  const searchParams = useSearchParams();
+  useEffect(() => {
+    fetch('/api/auth/oidc')
+      .then((res) => res.json())
+      .then((data) => setSsoName(data.enabled ? data.name : null))
+      .catch(() => setSsoName(null));
+  }, []);
+
+  // 대기 시간 카운트다운
+  useEffect(() => {
+    if (retryAfter <= 0) return;
+    const timer = setTimeout(() => setRetryAfter((s) => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryAfter]);
 
   async function handleSubmit(e: FormEvent) {
     e.preventDefault();
     setLoading(true);
     setError('');
+    setRemainingAttempts(null);
 
     try {
       const res = await fetch('/api/auth/login', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({ id, password }),
       });
 
       if (res.ok) {
@@ -31,6 +61,12 @@ export default function LoginForm() {
         const data = await res.json();
         setError(data.error || '로그인에 실패했습니다');
         setPassword('');
+        if (typeof data.remainingAttempts === 'number') {
+          setRemainingAttempts(data.remainingAttempts);
+        }
+        if (res.status === 429) {
+          setRetryAfter(Number(res.headers.get('Retry-After')) || data.retryAfter || 0);
+        }
       }
     } catch {
       setError('네트워크 오류가 발생했습니다. 다시 시도해주세요.');
@@ -39,74 +75,132 @@ export default function LoginForm() {
     }
   }
 
+  const ssoLoginUrl = `/api/auth/oidc/login?${new URLSearchParams({ from: searchParams.get('from') || '/' })}`;
+
   return (
-    <form onSubmit={handleSubmit} className="space-y-5">
-      <div>
-        <label
-          htmlFor="password"
-          className="block text-sm font-semibold text-slate-700 mb-1.5"
-        >
-          비밀번호
-        </label>
-        <input
-          id="password"
-          type="password"
-          value={password}
-          onChange={(e) => setPassword(e.target.value)}
-          className="w-full px-4 py-2.5 border border-slate-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all placeholder:text-slate-400"
-          placeholder="비밀번호를 입력하세요"
-          required
-          autoFocus
-          autoComplete="current-password"
-          disabled={loading}
-        />
-      </div>
-
-      {error && (
-        <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
-          <svg
-            className="w-4 h-4 text-red-500 flex-shrink-0"
-            fill="currentColor"
-            viewBox="0 0 20 20"
+    <>
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label
+            htmlFor="id"
+            className="block text-sm font-semibold text-slate-700 mb-1.5"
           >
-            <path
-              fillRule="evenodd"
-              d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
-              clipRule="evenodd"
-            />
-          </svg>
-          <p className="text-red-600 text-sm">{error}</p>
+            아이디
+          </label>
+          <input
+            id="id"
+            type="text"
+            value={id}
+            onChange={(e) => setId(e.target.value)}
+            className="w-full px-4 py-2.5 border border-slate-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all placeholder:text-slate-400"
+            placeholder="아이디를 입력하세요"
+            required
+            autoFocus
+            autoCapitalize="none"
+            autoComplete="username"
+            disabled={loading}
+          />
         </div>
-      )}
 
-      <button
-        type="submit"
-        disabled={loading || !password}
-        className="w-full bg-indigo-600 text-white py-2.5 rounded-xl font-semibold text-sm hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
-      >
-        {loading ? (
-          <span className="flex items-center justify-center gap-2">
-            <svg className="w-4 h-4 animate-spin" viewBox="0 0 24 24" fill="none">
-              <circle
-                className="opacity-25"
-                cx="12"
-                cy="12"
-                r="10"
-                stroke="currentColor"
-                strokeWidth="4"
-              />
+        <div>
+          <label
+            htmlFor="password"
+            className="block text-sm font-semibold text-slate-700 mb-1.5"
+          >
+            비밀번호
+          </label>
+          <input
+            id="password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-4 py-2.5 border border-slate-300 rounded-xl text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all placeholder:text-slate-400"
+            placeholder="비밀번호를 입력하세요"
+            required
+            autoComplete="current-password"
+            disabled={loading}
+          />
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-2">
+            <svg
+              className="w-4 h-4 text-red-500 flex-shrink-0"
+              fill="currentColor"
+              viewBox="0 0 20 20"
+            >
               <path
-                className="opacity-75"
-                fill="currentColor"
-                d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
+                fillRule="evenodd"
+                d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z"
+                clipRule="evenodd"
               />
             </svg>
-            로그인 중...
-          </span>
-        ) : (
-          '로그인'
+            <div>
+              <p className="text-red-600 text-sm">{error}</p>
+              {remainingAttempts !== null && remainingAttempts > 0 && (
+                <p className="text-red-500 text-xs mt-0.5">
+                  남은 시도 {remainingAttempts}회 · 모두 실패하면 잠시 로그인할 수 없습니다
+                </p>
+              )}
+            </div>
+          </div>
         )}
-      </button>
-    </form>
+
+        <button
+          type="submit"
+          disabled={loading || !id || !password || retryAfter > 0}
+          className="w-full bg-indigo-600 text-white py-2.5 rounded-xl font-semibold text-sm hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
+        >
+          {loading ? (
+            <span className="flex items-center justify-center gap-2">
+              <svg className="w-4 h-4 animate-spin" viewBox="0 0 24 24" fill="none">
+                <circle
+                  className="opacity-25"
+                  cx="12"
+                  cy="12"
+                  r="10"
+                  stroke="currentColor"
+                  strokeWidth="4"
+                />
+                <path
+                  className="opacity-75"
+                  fill="currentColor"
+                  d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
+                />
+              </svg>
+              로그인 중...
+            </span>
+          ) : retryAfter > 0 ? (
+            `${formatWait(retryAfter)} 후 다시 시도`
+          ) : (
+            '로그인'
+          )}
+        </button>
+      </form>
+
+      {ssoName && (
+        <div className="mt-5">
+          <div className="flex items-center gap-3 text-xs text-slate-400 mb-5">
+            <span className="flex-1 border-t border-slate-200" />
+            또는
+            <span className="flex-1 border-t border-slate-200" />
+          </div>
+          <a
+            href={ssoLoginUrl}
+            className="block w-full text-center border border-slate-300 text-slate-700 py-2.5 rounded-xl font-semibold text-sm hover:bg-slate-50 transition-all"
+          >
+            {ssoName} 로그인
+          </a>
+        </div>
+      )}
+    </>
   );
 }
+
+/**
+ * 대기 시간 표시 (예: 14:05, 8초)
+ */
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds}초`;
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
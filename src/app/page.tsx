@@ -9,20 +9,32 @@
  * @page
  */
 
-import { useState, useMemo, useCallback, useEffect } from 'react';
+import { Suspense, useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import dynamic from 'next/dynamic';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import {
-  educationData,
-  localGovData,
-  centralGovData,
-  publicInstitutionData,
-  provinceGovData,
-  privateData,
-  universityData,
   formatMoney,
+  formatMonth,
+  formatPeriod,
+  applyPeriod,
+  aggregateByRegion,
+  aggregateBySubRegion,
+  resolveLatest,
+  getAvailableMonths,
+  monthsInPeriod,
+  buildTrendSeries,
+  calcClientStats,
+  POC_THRESHOLD,
+  comparePeriods,
+  previousPeriod,
+  yearAgoPeriod,
   AggregatedData,
   Client,
+  MonthKey,
+  Period,
+  ClientRecord,
+  CategorizedRecord,
+  ClientCategory,
   ContractInfo,
   ContractChannel,
   PaymentMethod,
@@ -36,15 +48,51 @@ import {
   CONTRACT_CHANNEL_DESC,
   PAYMENT_METHOD_DESC,
   BILLING_TYPE_DESC,
+  hasContractInfo,
 } from '@/data/clients';
+import type { UserMetrics } from '@/lib/googleSheets';
 import {
   fetchAllData,
   saveContract,
   deleteContract,
   saveUserMetrics,
   deleteUserMetrics,
-  UserMetrics,
-} from '@/lib/googleSheets';
+  fetchChangeHistory,
+  revertChange,
+  AuditEntry,
+  AuditValue,
+  AUDIT_TARGET_LABELS,
+  AUDIT_ACTION_LABELS,
+} from '@/lib/sheetsApi';
+import { fetchClients } from '@/lib/clientsApi';
+import { SessionUser, ROLE_LABELS, hasRole } from '@/lib/auth';
+import { canonicalProvince } from '@/data/regionMappings';
+import { MapMetric, MAP_METRICS, MAP_METRIC_KEYS, buildMapColorScale } from '@/data/mapMetrics';
+import {
+  COLOR_RANGES,
+  COLOR_SCALE_LABELS,
+  COLOR_SCALE_TYPES,
+  ColorLegend,
+  ColorScaleType,
+  MapColorScheme,
+} from '@/lib/colorScales';
+import { ExportSheet, downloadCsv, downloadXlsx } from '@/lib/tableExport';
+import { toFileName } from '@/lib/mapExport';
+import { searchOrganizations, SearchMatchKind } from '@/lib/orgSearch';
+import {
+  DEFAULT_LIST_VIEW,
+  LIST_SORT_LABELS,
+  ListFilters,
+  ListSortKey,
+  ListView,
+  ListViewContext,
+  countActiveFilters,
+  filterClients,
+  parseListView,
+  sortClients,
+  writeListView,
+} from '@/lib/clientListView';
+import GrowthBadge from '@/components/GrowthBadge';
 
 // ============================================================================
 // 동적 임포트 (SSR 비활성화)
@@ -62,19 +110,36 @@ const KoreaMap = dynamic(() => import('@/components/KoreaMap'), {
   ),
 });
 
+const TrendChart = dynamic(() => import('@/components/TrendChart'), {
+  ssr: false,
+});
+
 // ============================================================================
 // 타입 정의
 // ============================================================================
 
-type TabType = 'education' | 'local' | 'central' | 'public' | 'private';
+type TabType = 'overview' | 'education' | 'local' | 'central' | 'public' | 'private';
+
+/** 목록 내보내기 범위 (현재 탭 / 전국을 제외한 전체 탭) */
+type ExportScope = 'tab' | 'all';
+
+/** 검색 대상 고객사 (소속 탭 포함) */
+interface SearchItem extends Client {
+  tab: TabType;
+}
 
 interface TabConfig {
   label: string;
   icon: string;
-  data: Client[];
+  categories: ClientCategory[];
   hasMap: boolean;
-  mapType?: 'province' | 'municipality';
-  colorScheme: 'indigo' | 'green' | 'blue' | 'purple' | 'amber';
+  /** drilldown: 전국 시/도 지도에서 시/도를 클릭하면 해당 시/도의 시/군/구 지도로 전환 */
+  mapType?: 'province' | 'municipality' | 'drilldown';
+  /** 지도 아래에 고객사 카드 목록도 표시 */
+  showCards?: boolean;
+  colorScheme: MapColorScheme;
+  /** 기본 색상 스케일 (탭별 값 분포에 맞춤, 범례에서 변경 가능) */
+  colorScale: ColorScaleType;
   colorClass: {
     active: string;
     text: string;
@@ -87,18 +152,31 @@ interface TabConfig {
 // 상수 정의
 // ============================================================================
 
-/** PoC 판단 기준 금액 (10만원) */
-const POC_THRESHOLD = 100000;
-
 /** 탭 설정 */
 const TAB_CONFIG: Record<TabType, TabConfig> = {
+  overview: {
+    label: '전국',
+    icon: '🗺️',
+    categories: ['education', 'local', 'public', 'province'],
+    hasMap: true,
+    mapType: 'drilldown',
+    colorScheme: 'indigo',
+    colorScale: 'log',
+    colorClass: {
+      active: 'border-slate-400 bg-slate-100 text-slate-700',
+      text: 'text-slate-700',
+      border: 'border-l-slate-500',
+      bg: 'bg-slate-50',
+    },
+  },
   education: {
     label: '교육청',
     icon: '📚',
-    data: educationData,
+    categories: ['education'],
     hasMap: true,
     mapType: 'province',
     colorScheme: 'indigo',
+    colorScale: 'jenks',
     colorClass: {
       active: 'border-indigo-300 bg-indigo-50 text-indigo-700',
       text: 'text-indigo-600',
@@ -109,10 +187,11 @@ const TAB_CONFIG: Record<TabType, TabConfig> = {
   local: {
     label: '지자체',
     icon: '🏛️',
-    data: localGovData,
+    categories: ['local'],
     hasMap: true,
     mapType: 'municipality',
     colorScheme: 'green',
+    colorScale: 'quantile',
     colorClass: {
       active: 'border-emerald-300 bg-emerald-50 text-emerald-700',
       text: 'text-emerald-600',
@@ -123,9 +202,12 @@ const TAB_CONFIG: Record<TabType, TabConfig> = {
   central: {
     label: '중앙행정기관',
     icon: '🏢',
-    data: centralGovData,
-    hasMap: false,
+    categories: ['central'],
+    hasMap: true,
+    mapType: 'province',
+    showCards: true,
     colorScheme: 'blue',
+    colorScale: 'linear',
     colorClass: {
       active: 'border-blue-300 bg-blue-50 text-blue-700',
       text: 'text-blue-600',
@@ -136,9 +218,12 @@ const TAB_CONFIG: Record<TabType, TabConfig> = {
   public: {
     label: '공공기관',
     icon: '🏗️',
-    data: [...publicInstitutionData, ...provinceGovData],
-    hasMap: false,
+    categories: ['public', 'province'],
+    hasMap: true,
+    mapType: 'province',
+    showCards: true,
     colorScheme: 'purple',
+    colorScale: 'log',
     colorClass: {
       active: 'border-purple-300 bg-purple-50 text-purple-700',
       text: 'text-purple-600',
@@ -149,9 +234,12 @@ const TAB_CONFIG: Record<TabType, TabConfig> = {
   private: {
     label: '민간/대학',
     icon: '🏫',
-    data: [...privateData, ...universityData],
-    hasMap: false,
+    categories: ['private', 'university'],
+    hasMap: true,
+    mapType: 'province',
+    showCards: true,
     colorScheme: 'amber',
+    colorScale: 'log',
     colorClass: {
       active: 'border-amber-300 bg-amber-50 text-amber-700',
       text: 'text-amber-600',
@@ -165,19 +253,47 @@ const TAB_CONFIG: Record<TabType, TabConfig> = {
 // 메인 컴포넌트
 // ============================================================================
 
+/**
+ * 목록 정렬/필터를 URL 쿼리에서 읽으므로(useSearchParams) Suspense 로 감쌉니다.
+ */
 export default function Home() {
+  return (
+    <Suspense fallback={<LoadingOverlay />}>
+      <Dashboard />
+    </Suspense>
+  );
+}
+
+function Dashboard() {
   // ============================================================================
   // 상태 관리
   // ============================================================================
 
   const router = useRouter();
+  const searchParams = useSearchParams();
 
   const [activeTab, setActiveTab] = useState<TabType>('education');
   const [selectedRegion, setSelectedRegion] = useState<{
     name: string;
     data: AggregatedData | null;
   } | null>(null);
+  // 전국 탭에서 펼친 시/도 (null 이면 전국 시/도 지도)
+  const [drillProvince, setDrillProvince] = useState<string | null>(null);
+  // 검색으로 찾은 고객사 (카드/목록 강조)
+  const [highlightedClient, setHighlightedClient] = useState<string | null>(null);
+  // 지도에 기관별 마커 표시
+  const [showMarkers, setShowMarkers] = useState(false);
+  // 지도 색상 지표
+  const [mapMetric, setMapMetric] = useState<MapMetric>('charge');
+  /** 탭별로 바꾼 색상 스케일 (없으면 탭 기본값) */
+  const [scaleTypes, setScaleTypes] = useState<Partial<Record<TabType, ColorScaleType>>>({});
   const [showPoc, setShowPoc] = useState(true);
+  // 사용자가 기간을 고르기 전에는 null (가장 최근 월 사용)
+  const [selectedPeriod, setPeriod] = useState<Period | null>(null);
+
+  // 고객사 데이터 (/api/clients)
+  const [records, setRecords] = useState<CategorizedRecord[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
 
   // 계약 정보 수정용 상태
   const [contractInfos, setContractInfos] = useState<Record<string, ContractInfo>>({});
@@ -187,26 +303,40 @@ export default function Home() {
   const [userMetrics, setUserMetrics] = useState<Record<string, UserMetrics>>({});
   const [editingUserMetrics, setEditingUserMetrics] = useState<Client | null>(null);
 
+  // 변경 이력 보기 (계약 정보 / 사용자 지표)
+  const [historyClient, setHistoryClient] = useState<Client | null>(null);
+
   // 로딩/저장 상태
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isMigrating, setIsMigrating] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [migrationLog, setMigrationLog] = useState<string[]>([]);
 
+  // 로그인 사용자 (권한에 따라 편집 버튼 / 관리자 도구 표시)
+  const [sessionUser, setSessionUser] = useState<SessionUser | null>(null);
+  const canEdit = sessionUser !== null && hasRole(sessionUser.role, 'editor');
+  const isAdmin = sessionUser !== null && hasRole(sessionUser.role, 'admin');
+
   // ============================================================================
-  // Google Sheets 동기화
+  // 데이터 로드 (고객사 API + Google Sheets)
   // ============================================================================
 
-  // 초기 로드: Google Sheets에서 데이터 불러오기
+  // 초기 로드: 고객사 데이터와 Google Sheets 데이터를 함께 불러오기
   useEffect(() => {
     const loadData = async () => {
       setIsLoading(true);
       try {
-        const data = await fetchAllData();
+        const [clients, data] = await Promise.all([
+          fetchClients(),
+          fetchAllData(),
+        ]);
+        setRecords(clients);
         setContractInfos(data.contracts);
         setUserMetrics(data.users);
       } catch (e) {
-        console.error('Google Sheets에서 데이터를 불러오는데 실패했습니다:', e);
+        console.error('데이터를 불러오는데 실패했습니다:', e);
+        setLoadError('고객사 데이터를 불러오지 못했습니다. 잠시 후 다시 시도해주세요.');
       } finally {
         setIsLoading(false);
       }
@@ -214,38 +344,158 @@ export default function Home() {
     loadData();
   }, []);
 
+  // 로그인 사용자 불러오기 (실제 권한 확인은 서버에서)
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setSessionUser(data?.user ?? null))
+      .catch((e) => console.error('로그인 사용자 조회 실패:', e));
+  }, []);
+
   // ============================================================================
   // 현재 탭 설정
   // ============================================================================
 
   const config = TAB_CONFIG[activeTab];
 
+  /** 실제로 그릴 지도 단위 (드릴다운은 펼친 시/도 여부에 따라 결정) */
+  const mapType = config.mapType === 'drilldown'
+    ? (drillProvince ? 'municipality' : 'province')
+    : config.mapType;
+
   // ============================================================================
   // 메모이제이션된 계산
   // ============================================================================
 
   /**
-   * PoC 필터가 적용된 데이터
+   * 데이터가 존재하는 전체 월 목록 (오름차순)
+   */
+  const availableMonths = useMemo(() => getAvailableMonths(records), [records]);
+
+  /**
+   * 추이 차트 표시 월 (첫 월 ~ 최근 월, 중간 누락 월 포함)
+   */
+  const trendMonths = useMemo(() => {
+    if (availableMonths.length === 0) return [];
+    return monthsInPeriod({
+      from: availableMonths[0],
+      to: availableMonths[availableMonths.length - 1],
+    });
+  }, [availableMonths]);
+
+  /**
+   * 조회 기간 (미선택 시 가장 최근 월)
+   */
+  const period = useMemo<Period>(() => {
+    if (selectedPeriod) return selectedPeriod;
+    const latest = availableMonths[availableMonths.length - 1] ?? '';
+    return { from: latest, to: latest };
+  }, [selectedPeriod, availableMonths]);
+
+  /**
+   * 탭별 고객사 레코드
+   */
+  const recordsByTab = useMemo(() => {
+    return Object.fromEntries(
+      (Object.keys(TAB_CONFIG) as TabType[]).map((tab) => [
+        tab,
+        records.filter((record) =>
+          TAB_CONFIG[tab].categories.includes(record.category)
+        ),
+      ])
+    ) as Record<TabType, CategorizedRecord[]>;
+  }, [records]);
+
+  const tabRecords = recordsByTab[activeTab];
+
+  /**
+   * 기간 기준 PoC 판단 금액 (월 기준 금액 × 기간 개월 수)
+   */
+  const pocThreshold = useMemo(() => {
+    return POC_THRESHOLD * monthsInPeriod(period).length;
+  }, [period]);
+
+  /**
+   * 선택 기간 기준으로 계산된 탭별 데이터
+   */
+  const periodDataByTab = useMemo(() => {
+    return Object.fromEntries(
+      (Object.keys(TAB_CONFIG) as TabType[]).map((tab) => [
+        tab,
+        applyPeriod(recordsByTab[tab], period),
+      ])
+    ) as Record<TabType, Client[]>;
+  }, [recordsByTab, period]);
+
+  const periodData = periodDataByTab[activeTab];
+
+  /**
+   * 검색 대상 (전국 탭은 다른 탭과 중복되므로 제외)
+   */
+  const searchItems = useMemo<SearchItem[]>(() => {
+    return (Object.keys(TAB_CONFIG) as TabType[])
+      .filter((tab) => tab !== 'overview')
+      .flatMap((tab) => periodDataByTab[tab].map((item) => ({ ...item, tab })));
+  }, [periodDataByTab]);
+
+  /**
+   * 목록 정렬/필터 (URL 쿼리 기준 - 같은 주소로 같은 목록을 공유)
+   */
+  const listView = useMemo(() => parseListView(searchParams), [searchParams]);
+
+  /**
+   * 목록 정렬/필터 계산용 Google Sheets 값 (계약 정보, 사용자 지표)
+   */
+  const listContext = useMemo<ListViewContext>(
+    () => ({ contracts: contractInfos, userMetrics }),
+    [contractInfos, userMetrics]
+  );
+
+  /**
+   * PoC 토글과 목록 필터 적용 (현재 탭 / 전체 탭 내보내기 공용)
+   */
+  const applyFilters = useCallback(
+    (items: Client[]) =>
+      filterClients(
+        showPoc ? items : items.filter((item) => item.charge >= pocThreshold),
+        listView.filters,
+        listContext
+      ),
+    [showPoc, pocThreshold, listView.filters, listContext]
+  );
+
+  /**
+   * PoC 토글 · 목록 필터가 적용된 데이터 (통계 / 지도 / 목록)
    */
   const filteredData = useMemo(() => {
-    return showPoc
-      ? config.data
-      : config.data.filter((item) => item.charge >= POC_THRESHOLD);
-  }, [config.data, showPoc]);
+    return applyFilters(periodData);
+  }, [periodData, applyFilters]);
 
   /**
-   * 정렬된 데이터 (사용금액 순)
+   * 정렬된 데이터 (목록 정렬 기준)
    */
   const sortedData = useMemo(() => {
-    return [...filteredData].sort((a, b) => b.charge - a.charge);
-  }, [filteredData]);
+    return sortClients(filteredData, listView.sort, listContext);
+  }, [filteredData, listView.sort, listContext]);
+
+  /**
+   * 지역 필터 선택지 (현재 탭 조회 기간 내 고객사의 시/도)
+   */
+  const regionOptions = useMemo(() => {
+    const regions = new Set(
+      periodData
+        .map((item) => item.region && (canonicalProvince(item.region) ?? item.region))
+        .filter((region): region is string => Boolean(region))
+    );
+    return [...regions].sort((a, b) => a.localeCompare(b, 'ko'));
+  }, [periodData]);
 
   /**
    * PoC 고객사 수
    */
   const pocCount = useMemo(() => {
-    return config.data.filter((item) => item.charge < POC_THRESHOLD).length;
-  }, [config.data]);
+    return periodData.filter((item) => item.charge < pocThreshold).length;
+  }, [periodData, pocThreshold]);
 
   /**
    * 사용자 지표 가져오기 (로컬 스토리지 우선, 없으면 원본 데이터)
@@ -261,43 +511,82 @@ export default function Home() {
     [userMetrics]
   );
 
+  /**
+   * 지도 데이터 (드릴다운 시 펼친 시/도 소속만, 사용자 지표는 Google Sheets 값 반영)
+   */
+  const mapData = useMemo(() => {
+    const items = drillProvince
+      ? filteredData.filter(
+          (item) => item.region && canonicalProvince(item.region) === drillProvince
+        )
+      : filteredData;
+    return items.map((item) => ({ ...item, ...getUserMetrics(item.name, item) }));
+  }, [filteredData, drillProvince, getUserMetrics]);
+
+  /**
+   * 현재 탭의 색상 스케일 종류
+   */
+  const scaleType = scaleTypes[activeTab] ?? TAB_CONFIG[activeTab].colorScale;
+
+  /**
+   * 범례 (지도 색상 스케일과 같은 기준 - PoC 지역 제외)
+   */
+  const mapLegend = useMemo(() => {
+    const groups = mapType === 'province'
+      ? aggregateByRegion(mapData)
+      : aggregateBySubRegion(mapData);
+    return buildMapColorScale({
+      metric: mapMetric,
+      scaleType,
+      groups: Object.values(groups).filter((group) => group.charge >= pocThreshold),
+      type: mapType ?? 'province',
+      range: COLOR_RANGES[TAB_CONFIG[activeTab].colorScheme],
+      period,
+    }).legend;
+  }, [mapData, mapType, mapMetric, scaleType, pocThreshold, activeTab, period]);
+
   /**
    * 통계 계산 (로컬 스토리지 지표 포함)
    */
   const stats = useMemo(() => {
-    const totalCharge = filteredData.reduce((sum, item) => sum + item.charge, 0);
-    const totalUsage = filteredData.reduce((sum, item) => sum + item.usage, 0);
-
-    // 사용자 지표 합계 (로컬 스토리지 값 우선)
-    const totalActiveUsers = filteredData.reduce((sum, item) => {
-      const metrics = getUserMetrics(item.name, item);
-      return sum + (metrics.activeUsers || 0);
-    }, 0);
-    const totalTotalUsers = filteredData.reduce((sum, item) => {
-      const metrics = getUserMetrics(item.name, item);
-      return sum + (metrics.totalUsers || 0);
-    }, 0);
-
-    const overallActivationRate =
-      totalTotalUsers > 0
-        ? ((totalActiveUsers / totalTotalUsers) * 100).toFixed(1)
-        : null;
-    const avgPricePerTotalUser =
-      totalTotalUsers > 0 ? Math.round(totalCharge / totalTotalUsers) : null;
-    const avgPricePerActiveUser =
-      totalActiveUsers > 0 ? Math.round(totalCharge / totalActiveUsers) : null;
-
-    return {
-      totalCharge,
-      totalUsage,
-      totalActiveUsers,
-      totalTotalUsers,
-      overallActivationRate,
-      avgPricePerTotalUser,
-      avgPricePerActiveUser,
-    };
+    return calcClientStats(
+      filteredData.map((item) => ({ ...item, ...getUserMetrics(item.name, item) }))
+    );
   }, [filteredData, getUserMetrics]);
 
+  /**
+   * 탭 합계 성장률
+   * PoC 포함 · 필터 없음이면 현재 기간에 청구가 없는(이탈) 고객사도 비교 기간 합계에 포함
+   */
+  const statsGrowth = usePeriodGrowth(
+    showPoc && countActiveFilters(listView.filters) === 0 ? tabRecords : filteredData,
+    period
+  );
+
+  /**
+   * 현재 탭 월별 추이 (PoC 필터 적용)
+   */
+  const tabTrend = useMemo(() => {
+    return buildTrendSeries(filteredData, trendMonths);
+  }, [filteredData, trendMonths]);
+
+  /**
+   * 선택 지역 월별 추이
+   */
+  const regionTrend = useMemo(() => {
+    return selectedRegion?.data
+      ? buildTrendSeries(selectedRegion.data.items, trendMonths)
+      : [];
+  }, [selectedRegion, trendMonths]);
+
+  /**
+   * 선택 지역 성장률
+   */
+  const regionItems = useMemo(() => {
+    return selectedRegion?.data?.items ?? [];
+  }, [selectedRegion]);
+  const regionGrowth = usePeriodGrowth(regionItems, period);
+
   // ============================================================================
   // 이벤트 핸들러
   // ============================================================================
@@ -308,18 +597,88 @@ export default function Home() {
   const handleTabChange = useCallback((tab: TabType) => {
     setActiveTab(tab);
     setSelectedRegion(null);
+    setDrillProvince(null);
+    setHighlightedClient(null);
   }, []);
 
   /**
    * 지역 선택 핸들러
+   * 전국 탭의 시/도 지도에서는 선택한 시/도의 시/군/구 지도로 펼칩니다.
    */
   const handleRegionSelect = useCallback(
     (region: string, data: AggregatedData | null) => {
       setSelectedRegion({ name: region, data });
+      setHighlightedClient(null);
+      if (config.mapType === 'drilldown' && !drillProvince) {
+        setDrillProvince(region);
+      }
     },
-    []
+    [config.mapType, drillProvince]
   );
 
+  /**
+   * 목록 정렬/필터 변경 (URL 쿼리 갱신, 기록은 남기지 않음)
+   */
+  const handleListViewChange = useCallback(
+    (next: ListView) => {
+      const params = new URLSearchParams(searchParams.toString());
+      writeListView(params, next);
+      const query = params.toString();
+      router.replace(query ? `/?${query}` : '/', { scroll: false });
+      setSelectedRegion(null);
+    },
+    [router, searchParams]
+  );
+
+  /**
+   * 검색 결과 선택 핸들러
+   * 고객사가 속한 탭으로 이동해 지도에서 소속 지역을 선택하고 카드/목록을 강조합니다.
+   * PoC 제외 중에 PoC 고객사를 고르면 PoC 표시를 켜고, 목록 필터에 걸리면 필터를 해제합니다.
+   */
+  const handleSearchSelect = useCallback(
+    (item: SearchItem) => {
+      const isPoc = item.charge < pocThreshold;
+      const passesFilters = filterClients([item], listView.filters, listContext).length > 0;
+      const visible = filterClients(
+        showPoc || isPoc
+          ? periodDataByTab[item.tab]
+          : periodDataByTab[item.tab].filter((i) => i.charge >= pocThreshold),
+        passesFilters ? listView.filters : DEFAULT_LIST_VIEW.filters,
+        listContext
+      );
+      const groups = TAB_CONFIG[item.tab].mapType === 'municipality'
+        ? aggregateBySubRegion(visible)
+        : aggregateByRegion(visible);
+      const region = Object.entries(groups).find(
+        ([key, group]) => key !== '기타' && group.items.some((i) => i.name === item.name)
+      );
+
+      if (!passesFilters) handleListViewChange({ ...listView, filters: DEFAULT_LIST_VIEW.filters });
+      if (isPoc) setShowPoc(true);
+      setActiveTab(item.tab);
+      setDrillProvince(null);
+      setSelectedRegion(region ? { name: region[0], data: region[1] } : null);
+      setHighlightedClient(item.name);
+    },
+    [pocThreshold, showPoc, periodDataByTab, listView, listContext, handleListViewChange]
+  );
+
+  /**
+   * 드릴다운 경로 이동 (null 이면 전국)
+   */
+  const handleDrillNavigate = useCallback((province: string | null) => {
+    setDrillProvince(province);
+    setSelectedRegion(null);
+  }, []);
+
+  /**
+   * 조회 기간 변경 핸들러
+   */
+  const handlePeriodChange = useCallback((next: Period) => {
+    setPeriod(next);
+    setSelectedRegion(null);
+  }, []);
+
   /**
    * PoC 토글 핸들러
    */
@@ -327,6 +686,53 @@ export default function Home() {
     setShowPoc((prev) => !prev);
   }, []);
 
+  /**
+   * 목록 내보내기 (CSV / XLSX)
+   * 전체 탭은 전국 탭(다른 탭과 중복)을 제외하고 탭별로 같은 PoC 필터 · 목록 필터 · 정렬을 적용합니다.
+   */
+  const handleTableExport = useCallback(
+    async (format: 'csv' | 'xlsx', scope: ExportScope) => {
+      const sheets: ExportSheet[] = scope === 'tab'
+        ? [{ name: config.label, items: sortedData }]
+        : (Object.keys(TAB_CONFIG) as TabType[])
+            .filter((tab) => tab !== 'overview')
+            .map((tab) => ({
+              name: TAB_CONFIG[tab].label,
+              items: sortClients(applyFilters(periodDataByTab[tab]), listView.sort, listContext),
+            }));
+      const context = {
+        categories: Object.fromEntries(records.map((record) => [record.name, record.category])),
+        contracts: contractInfos,
+        userMetrics,
+        pocThreshold,
+      };
+      const fileName = toFileName(
+        '공공고객사',
+        scope === 'tab' ? config.label : '전체',
+        formatPeriod(period),
+        showPoc ? '' : 'PoC제외'
+      );
+
+      setIsExporting(true);
+      try {
+        if (format === 'csv') {
+          downloadCsv(sheets, context, fileName);
+        } else {
+          await downloadXlsx(sheets, context, fileName);
+        }
+      } catch (error) {
+        console.error('목록 내보내기 실패:', error);
+        alert('목록 내보내기에 실패했습니다. 다시 시도해주세요.');
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [
+      config.label, sortedData, applyFilters, listView.sort, listContext, periodDataByTab,
+      showPoc, pocThreshold, records, contractInfos, userMetrics, period,
+    ]
+  );
+
   /**
    * 계약 정보 변경 핸들러 (Google Sheets 저장)
    */
@@ -379,15 +785,8 @@ export default function Home() {
     setIsMigrating(true);
     setMigrationLog([]);
 
-    const allData = [
-      ...educationData,
-      ...localGovData,
-      ...centralGovData,
-      ...publicInstitutionData,
-      ...provinceGovData,
-      ...privateData,
-      ...universityData,
-    ];
+    // 고객사별 가장 최근 월 기준 사용자 지표
+    const allData = resolveLatest(records);
 
     // 사용자 지표가 있는 항목만 필터
     const dataWithMetrics = allData.filter(
@@ -442,7 +841,7 @@ export default function Home() {
       setContractInfos(data.contracts);
       setUserMetrics(data.users);
     }
-  }, []);
+  }, [records]);
 
   /**
    * 사용자 지표 변경 핸들러 (Google Sheets 저장)
@@ -475,6 +874,23 @@ export default function Home() {
     []
   );
 
+  /**
+   * 변경 되돌리기 후 화면 값 갱신 (되돌린 값으로 교체, 없으면 삭제)
+   */
+  const handleChangeReverted = useCallback((entry: AuditEntry) => {
+    const update = <T,>(prev: Record<string, T>, value: T | null) => {
+      const next = { ...prev };
+      if (value) next[entry.clientName] = value;
+      else delete next[entry.clientName];
+      return next;
+    };
+    if (entry.target === 'contract') {
+      setContractInfos((prev) => update(prev, entry.after as ContractInfo | null));
+    } else {
+      setUserMetrics((prev) => update(prev, entry.after as UserMetrics | null));
+    }
+  }, []);
+
   // ============================================================================
   // 렌더링
   // ============================================================================
@@ -498,6 +914,26 @@ export default function Home() {
             <span className="text-xs text-slate-400 font-medium hidden sm:block">
               공공 고객사 대시보드
             </span>
+            {sessionUser && (
+              <span className="text-xs text-slate-600 font-medium" title={sessionUser.id}>
+                {sessionUser.name}
+                <span className="ml-1 px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">
+                  {ROLE_LABELS[sessionUser.role]}
+                </span>
+              </span>
+            )}
+            <button
+              onClick={async () => {
+                if (!confirm('이 계정으로 로그인한 모든 기기에서 로그아웃하시겠습니까?')) return;
+                await fetch('/api/auth/logout-all', { method: 'POST' });
+                router.push('/login');
+                router.refresh();
+              }}
+              className="hidden sm:block text-xs text-slate-400 hover:text-slate-700 px-2 py-1.5 rounded-lg hover:bg-slate-100 transition-colors"
+              title="다른 기기의 세션도 모두 종료"
+            >
+              모든 기기
+            </button>
             <button
               onClick={async () => {
                 await fetch('/api/auth/logout', { method: 'POST' });
@@ -520,13 +956,29 @@ export default function Home() {
       {/* Hero */}
       {/* ================================================================== */}
       <section className="bg-white border-b border-slate-100 py-6 px-4">
-        <div className="max-w-7xl mx-auto">
-          <h1 className="text-2xl font-bold tracking-tight">
-            공공 고객사 대시보드
-          </h1>
-          <p className="text-sm text-slate-500 mt-1">
-            2026년 1월 기준 · AI 서비스 활용 현황
-          </p>
+        <div className="max-w-7xl mx-auto flex items-end justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">
+              공공 고객사 대시보드
+            </h1>
+            <p className="text-sm text-slate-500 mt-1">
+              {formatPeriod(period)} 기준 · AI 서비스 활용 현황
+            </p>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            <OrgSearchBox items={searchItems} onSelect={handleSearchSelect} />
+            <PeriodSelector
+              months={availableMonths}
+              period={period}
+              onChange={handlePeriodChange}
+            />
+            <a
+              href={`/report?${new URLSearchParams({ from: period.from, to: period.to })}`}
+              className="px-3 py-1.5 text-xs bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+            >
+              🖨️ 리포트
+            </a>
+          </div>
         </div>
       </section>
 
@@ -534,6 +986,19 @@ export default function Home() {
       {/* Main */}
       {/* ================================================================== */}
       <main className="max-w-7xl mx-auto px-4 py-6">
+        {/* 데이터 로드 오류 */}
+        {loadError && (
+          <div className="mb-4 flex items-center justify-between gap-3 bg-red-50 border border-red-200 rounded-xl px-4 py-3">
+            <p className="text-sm text-red-600">⚠️ {loadError}</p>
+            <button
+              onClick={() => window.location.reload()}
+              className="px-3 py-1.5 text-xs bg-white border border-red-200 text-red-600 rounded-lg hover:bg-red-100 transition-colors"
+            >
+              새로고침
+            </button>
+          </div>
+        )}
+
         {/* ============================================================== */}
         {/* Tabs */}
         {/* ============================================================== */}
@@ -557,13 +1022,22 @@ export default function Home() {
                     activeTab === tab ? 'bg-white/50' : 'bg-slate-100'
                   }`}
                 >
-                  {tabConfig.data.length}
+                  {periodDataByTab[tab].length}
                 </span>
               </button>
             );
           })}
         </div>
 
+        {/* ============================================================== */}
+        {/* List Sort & Filters */}
+        {/* ============================================================== */}
+        <ListToolbar
+          view={listView}
+          regionOptions={regionOptions}
+          onChange={handleListViewChange}
+        />
+
         {/* ============================================================== */}
         {/* PoC Filter & Summary */}
         {/* ============================================================== */}
@@ -575,6 +1049,10 @@ export default function Home() {
               <div className={`text-lg font-bold ${config.colorClass.text}`}>
                 {formatMoney(stats.totalCharge)}
               </div>
+              <div className="flex gap-2">
+                <GrowthBadge growth={statsGrowth.mom?.charge ?? null} label={statsGrowth.momLabel} unit="money" />
+                <GrowthBadge growth={statsGrowth.yoy?.charge ?? null} label="전년" unit="money" />
+              </div>
             </div>
             <div className="w-px h-8 bg-slate-200" />
 
@@ -584,6 +1062,10 @@ export default function Home() {
               <div className={`text-lg font-bold ${config.colorClass.text}`}>
                 {stats.totalUsage.toLocaleString()}
               </div>
+              <div className="flex gap-2">
+                <GrowthBadge growth={statsGrowth.mom?.usage ?? null} label={statsGrowth.momLabel} unit="number" />
+                <GrowthBadge growth={statsGrowth.yoy?.usage ?? null} label="전년" unit="number" />
+              </div>
             </div>
             <div className="w-px h-8 bg-slate-200" />
 
@@ -633,33 +1115,55 @@ export default function Home() {
             )}
           </div>
 
-          {/* PoC Filter Toggle */}
-          <button
-            onClick={handleTogglePoc}
-            className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-all ${
-              showPoc
-                ? 'bg-slate-100 text-slate-600'
-                : 'bg-amber-100 text-amber-700'
-            }`}
-          >
-            <div
-              className={`w-8 h-5 rounded-full relative transition-all ${
-                showPoc ? 'bg-slate-300' : 'bg-amber-400'
+          <div className="flex items-center gap-2 flex-wrap">
+            {/* 목록 내보내기 */}
+            <TableExportMenu
+              tabLabel={config.label}
+              disabled={isLoading || isExporting}
+              onExport={handleTableExport}
+            />
+
+            {/* PoC Filter Toggle */}
+            <button
+              onClick={handleTogglePoc}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                showPoc
+                  ? 'bg-slate-100 text-slate-600'
+                  : 'bg-amber-100 text-amber-700'
               }`}
             >
               <div
-                className={`absolute top-0.5 w-4 h-4 rounded-full bg-white shadow transition-all ${
-                  showPoc ? 'left-0.5' : 'left-3.5'
+                className={`w-8 h-5 rounded-full relative transition-all ${
+                  showPoc ? 'bg-slate-300' : 'bg-amber-400'
                 }`}
-              />
+              >
+                <div
+                  className={`absolute top-0.5 w-4 h-4 rounded-full bg-white shadow transition-all ${
+                    showPoc ? 'left-0.5' : 'left-3.5'
+                  }`}
+                />
+              </div>
+              <span>PoC 제외</span>
+              {pocCount > 0 && (
+                <span className="text-xs bg-white/50 px-1.5 py-0.5 rounded">
+                  {pocCount}건
+                </span>
+              )}
+            </button>
+          </div>
+
+          {/* 월별 추이 */}
+          <div className="w-full pt-3 border-t border-slate-100">
+            <div className="text-xs font-semibold text-slate-500 mb-2">
+              📈 {config.label} 월별 추이
             </div>
-            <span>PoC 제외</span>
-            {pocCount > 0 && (
-              <span className="text-xs bg-white/50 px-1.5 py-0.5 rounded">
-                {pocCount}건
-              </span>
-            )}
-          </button>
+            <TrendChart
+              series={tabTrend}
+              colorScheme={config.colorScheme}
+              height={140}
+              highlight={period}
+            />
+          </div>
         </div>
 
         {/* ============================================================== */}
@@ -675,63 +1179,78 @@ export default function Home() {
               {config.label} 현황
               {config.hasMap && (
                 <span className="text-xs font-normal text-slate-400">
-                  ({config.mapType === 'province' ? '시/도 단위' : '시/군/구 단위'})
+                  ({mapType === 'province' ? '시/도 단위' : '시/군/구 단위'})
                 </span>
               )}
+              {config.hasMap && (
+                <button
+                  onClick={() => setShowMarkers((prev) => !prev)}
+                  className={`ml-auto px-2.5 py-1 text-xs font-medium rounded-lg border transition-colors ${
+                    showMarkers
+                      ? 'border-slate-400 bg-slate-100 text-slate-700'
+                      : 'border-slate-200 text-slate-500 hover:bg-slate-50'
+                  }`}
+                >
+                  📍 기관별 마커
+                </button>
+              )}
             </h2>
 
-            {config.hasMap ? (
+            {config.hasMap && (
               <>
+                {config.mapType === 'drilldown' && (
+                  <MapBreadcrumbs
+                    province={drillProvince}
+                    onNavigate={handleDrillNavigate}
+                  />
+                )}
                 <KoreaMap
-                  data={filteredData}
-                  type={config.mapType!}
-                  colorScheme={config.colorScheme as 'indigo' | 'green'}
+                  key={drillProvince ?? activeTab}
+                  data={mapData}
+                  type={mapType!}
+                  colorScheme={config.colorScheme}
                   onRegionSelect={handleRegionSelect}
-                  pocThreshold={POC_THRESHOLD}
+                  pocThreshold={pocThreshold}
                   showPoc={showPoc}
+                  period={period}
+                  province={drillProvince ?? undefined}
+                  showMarkers={showMarkers}
+                  metric={mapMetric}
+                  scaleType={scaleType}
+                  highlightRegion={selectedRegion?.data ? selectedRegion.name : undefined}
+                  exportTitle={`${config.label}${drillProvince ? ` · ${drillProvince}` : ''} ${MAP_METRICS[mapMetric].label} 현황`}
                 />
 
-                {/* Legend */}
-                <div className="mt-5 p-4 bg-slate-50 rounded-lg">
-                  <div className="text-xs font-semibold text-slate-500 mb-2">
-                    사용금액 기준
-                  </div>
-                  <div
-                    className="h-3 rounded-full"
-                    style={{
-                      background:
-                        config.colorScheme === 'indigo'
-                          ? 'linear-gradient(to right, #e0e7ff, #4f46e5)'
-                          : 'linear-gradient(to right, #d1fae5, #059669)',
-                    }}
-                  />
-                  <div className="flex justify-between mt-1 text-xs text-slate-400">
-                    <span>0원</span>
-                    <span>
-                      {config.mapType === 'province' ? '1억원+' : '1천만원+'}
-                    </span>
-                  </div>
-                  {showPoc && (
-                    <div className="mt-2 flex items-center gap-2 text-xs text-slate-400">
-                      <div className="w-3 h-3 rounded bg-slate-300 border border-dashed border-slate-400" />
-                      <span>PoC (10만원 미만)</span>
-                    </div>
-                  )}
-                </div>
+                <MapLegend
+                  metric={mapMetric}
+                  onMetricChange={setMapMetric}
+                  scaleType={scaleType}
+                  onScaleTypeChange={(type) =>
+                    setScaleTypes((prev) => ({ ...prev, [activeTab]: type }))
+                  }
+                  legend={mapLegend}
+                  showPoc={showPoc}
+                />
               </>
-            ) : (
-              /* Card Grid for non-map tabs */
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-[600px] overflow-y-auto">
+            )}
+
+            {/* Card Grid (지도가 없거나 카드 목록을 함께 표시하는 탭) */}
+            {(!config.hasMap || config.showCards) && (
+              <div className={`grid grid-cols-1 md:grid-cols-2 gap-3 max-h-[600px] overflow-y-auto ${config.hasMap ? 'mt-5' : ''}`}>
                 {sortedData.map((item, idx) => (
                   <ClientCard
                     key={idx}
                     item={item}
-                    isPoc={item.charge < POC_THRESHOLD}
+                    isPoc={item.charge < pocThreshold}
                     colorClass={config.colorClass}
+                    colorScheme={config.colorScheme}
+                    period={period}
+                    trendMonths={trendMonths}
                     contractInfo={getContractInfo(item.name)}
-                    onEditContract={() => setEditingClient(item)}
+                    onEditContract={canEdit ? () => setEditingClient(item) : undefined}
                     userMetrics={getUserMetrics(item.name, item)}
-                    onEditUserMetrics={() => setEditingUserMetrics(item)}
+                    onEditUserMetrics={canEdit ? () => setEditingUserMetrics(item) : undefined}
+                    highlighted={item.name === highlightedClient}
                   />
                 ))}
               </div>
@@ -764,15 +1283,34 @@ export default function Home() {
                     <div className={`text-base font-bold ${config.colorClass.text}`}>
                       {formatMoney(selectedRegion.data.charge)}
                     </div>
+                    <div className="flex flex-col">
+                      <GrowthBadge growth={regionGrowth.mom?.charge ?? null} label={regionGrowth.momLabel} unit="money" />
+                      <GrowthBadge growth={regionGrowth.yoy?.charge ?? null} label="전년" unit="money" />
+                    </div>
                   </div>
                   <div className="bg-white/60 rounded-lg p-2">
                     <div className="text-xs text-slate-500">사용량</div>
                     <div className={`text-base font-bold ${config.colorClass.text}`}>
                       {selectedRegion.data.usage.toLocaleString()}
                     </div>
+                    <div className="flex flex-col">
+                      <GrowthBadge growth={regionGrowth.mom?.usage ?? null} label={regionGrowth.momLabel} unit="number" />
+                      <GrowthBadge growth={regionGrowth.yoy?.usage ?? null} label="전년" unit="number" />
+                    </div>
                   </div>
                 </div>
 
+                {/* 월별 추이 */}
+                <div className="bg-white/60 rounded-lg p-2 mb-3">
+                  <div className="text-xs text-slate-500 mb-1">월별 추이</div>
+                  <TrendChart
+                    series={regionTrend}
+                    colorScheme={config.colorScheme}
+                    height={110}
+                    highlight={period}
+                  />
+                </div>
+
                 {/* 소속 기관 목록 */}
                 <div className="bg-white/60 rounded-lg p-2">
                   <div className="text-xs text-slate-500 mb-1">
@@ -797,7 +1335,7 @@ export default function Home() {
             <h3 className="text-sm font-semibold text-slate-500 mb-3 flex items-center justify-between">
               <span>📊 {config.label} 목록</span>
               <span className="text-xs font-normal text-slate-400">
-                사용금액순 · {selectedRegion?.data ? selectedRegion.data.items.length : filteredData.length}개
+                {LIST_SORT_LABELS[listView.sort]} · {selectedRegion?.data ? selectedRegion.data.items.length : filteredData.length}개
                 {selectedRegion?.data && (
                   <button
                     onClick={() => setSelectedRegion(null)}
@@ -811,23 +1349,25 @@ export default function Home() {
 
             <div className="space-y-2 max-h-[500px] overflow-y-auto pr-1">
               {(selectedRegion?.data
-                ? selectedRegion.data.items.sort((a, b) => b.charge - a.charge)
+                ? sortClients(selectedRegion.data.items, listView.sort, listContext)
                 : sortedData
               ).map((item, idx) => (
                 <ClientItem
                   key={idx}
                   item={item}
+                  period={period}
                   isActive={
                     selectedRegion?.data?.items.some(
                       (i) => i.name === item.name
                     ) || false
                   }
-                  isPoc={item.charge < POC_THRESHOLD}
+                  isPoc={item.charge < pocThreshold}
                   colorClass={config.colorClass}
                   contractInfo={getContractInfo(item.name)}
-                  onEditContract={() => setEditingClient(item)}
+                  onEditContract={canEdit ? () => setEditingClient(item) : undefined}
                   userMetrics={getUserMetrics(item.name, item)}
-                  onEditUserMetrics={() => setEditingUserMetrics(item)}
+                  onEditUserMetrics={canEdit ? () => setEditingUserMetrics(item) : undefined}
+                  highlighted={item.name === highlightedClient}
                 />
               ))}
             </div>
@@ -841,53 +1381,59 @@ export default function Home() {
       <footer className="border-t border-slate-200 bg-white mt-8 py-5">
         <div className="max-w-7xl mx-auto px-4">
           <p className="text-xs text-slate-400 text-center">
-            데이터 출처 · Wrks.ai 내부 고객 DB | 금액 단위: 원 | PoC 기준: 10만원
+            데이터 출처 · Wrks.ai 내부 고객 DB | 금액 단위: 원 | PoC 기준: 월 10만원
             미만
           </p>
 
           {/* 관리자 도구 */}
-          <details className="mt-4">
-            <summary className="text-xs text-slate-400 cursor-pointer hover:text-slate-600">
-              🔧 관리자 도구
-            </summary>
-            <div className="mt-3 p-4 bg-slate-50 rounded-lg">
-              <div className="flex items-center gap-3 flex-wrap">
-                <button
-                  onClick={handleMigrateToSheets}
-                  disabled={isMigrating}
-                  className="px-3 py-1.5 text-xs bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {isMigrating ? '마이그레이션 중...' : '📤 기존 데이터 → Google Sheets'}
-                </button>
-                <span className="text-xs text-slate-500">
-                  교육청 등 기존 사용자 수 데이터를 Sheet로 내보냅니다
-                </span>
-              </div>
-
-              {/* 마이그레이션 로그 */}
-              {migrationLog.length > 0 && (
-                <div className="mt-3 p-3 bg-slate-800 text-green-400 rounded font-mono text-xs max-h-60 overflow-y-auto">
-                  {migrationLog.map((log, i) => (
-                    <div key={i}>{log}</div>
-                  ))}
+          {isAdmin && (
+            <details className="mt-4">
+              <summary className="text-xs text-slate-400 cursor-pointer hover:text-slate-600">
+                🔧 관리자 도구
+              </summary>
+              <div className="mt-3 p-4 bg-slate-50 rounded-lg">
+                <div className="flex items-center gap-3 flex-wrap">
+                  <button
+                    onClick={handleMigrateToSheets}
+                    disabled={isMigrating}
+                    className="px-3 py-1.5 text-xs bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isMigrating ? '마이그레이션 중...' : '📤 기존 데이터 → Google Sheets'}
+                  </button>
+                  <span className="text-xs text-slate-500">
+                    교육청 등 기존 사용자 수 데이터를 Sheet로 내보냅니다
+                  </span>
                 </div>
-              )}
-            </div>
-          </details>
+                <div className="flex items-center gap-3 flex-wrap mt-3">
+                  <a
+                    href="/import"
+                    className="px-3 py-1.5 text-xs bg-emerald-600 text-white rounded hover:bg-emerald-700"
+                  >
+                    📥 월별 청구 데이터 가져오기
+                  </a>
+                  <span className="text-xs text-slate-500">
+                    청구 시스템 CSV / XLSX 파일을 검증 후 해당 월 데이터로 반영합니다
+                  </span>
+                </div>
+
+                {/* 마이그레이션 로그 */}
+                {migrationLog.length > 0 && (
+                  <div className="mt-3 p-3 bg-slate-800 text-green-400 rounded font-mono text-xs max-h-60 overflow-y-auto">
+                    {migrationLog.map((log, i) => (
+                      <div key={i}>{log}</div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </details>
+          )}
         </div>
       </footer>
 
       {/* ================================================================== */}
       {/* 초기 로딩 오버레이 */}
       {/* ================================================================== */}
-      {isLoading && (
-        <div className="fixed inset-0 bg-white/80 flex items-center justify-center z-50">
-          <div className="flex flex-col items-center gap-3">
-            <div className="w-10 h-10 border-3 border-indigo-200 border-t-indigo-600 rounded-full animate-spin" />
-            <span className="text-sm text-slate-600">데이터 불러오는 중...</span>
-          </div>
-        </div>
-      )}
+      {isLoading && <LoadingOverlay />}
 
       {/* ================================================================== */}
       {/* 저장 중 인디케이터 */}
@@ -908,6 +1454,10 @@ export default function Home() {
           currentInfo={getContractInfo(editingClient.name)}
           onSave={(info) => handleContractInfoChange(editingClient.name, info)}
           onClose={() => setEditingClient(null)}
+          onShowHistory={() => {
+            setHistoryClient(editingClient);
+            setEditingClient(null);
+          }}
           isSaving={isSaving}
         />
       )}
@@ -921,9 +1471,552 @@ export default function Home() {
           currentMetrics={getUserMetrics(editingUserMetrics.name, editingUserMetrics)}
           onSave={(metrics) => handleUserMetricsChange(editingUserMetrics.name, metrics)}
           onClose={() => setEditingUserMetrics(null)}
+          onShowHistory={() => {
+            setHistoryClient(editingUserMetrics);
+            setEditingUserMetrics(null);
+          }}
           isSaving={isSaving}
         />
       )}
+
+      {/* ================================================================== */}
+      {/* 변경 이력 모달 */}
+      {/* ================================================================== */}
+      {historyClient && (
+        <ChangeHistoryModal
+          client={historyClient}
+          onReverted={handleChangeReverted}
+          onClose={() => setHistoryClient(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// 훅: usePeriodGrowth (전월/전년 대비 증감)
+// ============================================================================
+
+/**
+ * 레코드 합계의 직전 기간(전월) / 전년 동기간 대비 증감 계산
+ * 단일 월 조회 시 '전월', 기간 조회 시 '직전기간' 라벨 사용
+ */
+function usePeriodGrowth(records: ClientRecord[], period: Period) {
+  return useMemo(
+    () => ({
+      mom: comparePeriods(records, period, previousPeriod(period)),
+      yoy: comparePeriods(records, period, yearAgoPeriod(period)),
+      momLabel: period.from === period.to ? '전월' : '직전기간',
+    }),
+    [records, period]
+  );
+}
+
+// ============================================================================
+// 훅: useScrollIntoView (강조된 항목으로 스크롤)
+// ============================================================================
+
+/**
+ * active 가 true 가 되면 요소를 화면(스크롤 목록) 안으로 스크롤
+ */
+function useScrollIntoView<T extends HTMLElement>(active: boolean) {
+  const ref = useRef<T>(null);
+  useEffect(() => {
+    if (active) ref.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [active]);
+  return ref;
+}
+
+// ============================================================================
+// 서브 컴포넌트: OrgSearchBox (전체 탭 기관 검색)
+// ============================================================================
+
+/** 일치 방식 안내 (일반 일치는 표시 안 함) */
+const SEARCH_KIND_LABELS: Partial<Record<SearchMatchKind, string>> = {
+  chosung: '초성',
+  fuzzy: '유사',
+};
+
+interface OrgSearchBoxProps {
+  items: SearchItem[];
+  onSelect: (item: SearchItem) => void;
+}
+
+function OrgSearchBox({ items, onSelect }: OrgSearchBoxProps) {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(() => searchOrganizations(items, query, 8), [items, query]);
+
+  const select = (item: SearchItem) => {
+    onSelect(item);
+    setQuery('');
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[activeIndex]) {
+      e.preventDefault();
+      select(results[activeIndex].item);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="🔍 기관명·지역 검색 (초성 가능)"
+        className="w-64 text-sm border border-slate-200 rounded-lg px-3 py-1.5 bg-white focus:outline-none focus:border-indigo-400"
+        aria-label="기관 검색"
+      />
+      {open && query.trim() && (
+        <div className="absolute right-0 mt-1 w-80 bg-white border border-slate-200 rounded-xl shadow-lg z-30 overflow-hidden">
+          {results.length === 0 ? (
+            <div className="px-3 py-3 text-xs text-slate-400">검색 결과가 없습니다</div>
+          ) : (
+            results.map((result, idx) => {
+              const { item, kind } = result;
+              const tabConfig = TAB_CONFIG[item.tab];
+              return (
+                <button
+                  key={`${item.tab}-${item.name}`}
+                  // 입력창 blur 보다 먼저 선택되도록 mousedown 사용
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    select(item);
+                  }}
+                  onMouseEnter={() => setActiveIndex(idx)}
+                  className={`w-full text-left px-3 py-2 flex items-center justify-between gap-2 ${
+                    idx === activeIndex ? 'bg-slate-100' : 'bg-white'
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-slate-800 truncate">{item.name}</div>
+                    {item.region && (
+                      <div className="text-xs text-slate-400 truncate">
+                        📍 {item.region}
+                        {item.subRegion && item.subRegion !== item.region ? ` · ${item.subRegion}` : ''}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {SEARCH_KIND_LABELS[kind] && (
+                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-amber-50 text-amber-600">
+                        {SEARCH_KIND_LABELS[kind]}
+                      </span>
+                    )}
+                    <span className={`text-xs px-1.5 py-0.5 rounded ${tabConfig.colorClass.bg} ${tabConfig.colorClass.text}`}>
+                      {tabConfig.icon} {tabConfig.label}
+                    </span>
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// 서브 컴포넌트: PeriodSelector (조회 기간 선택)
+// ============================================================================
+
+interface PeriodSelectorProps {
+  months: MonthKey[];
+  period: Period;
+  onChange: (period: Period) => void;
+}
+
+function PeriodSelector({ months, period, onChange }: PeriodSelectorProps) {
+  // 최신 월이 위로 오도록 역순 표시
+  const options = [...months].reverse();
+
+  const selectClass =
+    'px-2.5 py-1.5 border border-slate-200 rounded-lg text-sm bg-white focus:outline-none focus:border-slate-400';
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="text-xs text-slate-400">조회 기간</span>
+      <select
+        value={period.from}
+        onChange={(e) => {
+          const from = e.target.value;
+          onChange({ from, to: from > period.to ? from : period.to });
+        }}
+        className={selectClass}
+      >
+        {options.map((month) => (
+          <option key={month} value={month}>
+            {formatMonth(month)}
+          </option>
+        ))}
+      </select>
+      <span className="text-slate-400">~</span>
+      <select
+        value={period.to}
+        onChange={(e) => {
+          const to = e.target.value;
+          onChange({ from: to < period.from ? to : period.from, to });
+        }}
+        className={selectClass}
+      >
+        {options.map((month) => (
+          <option key={month} value={month}>
+            {formatMonth(month)}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+// ============================================================================
+// 서브 컴포넌트: MapBreadcrumbs (전국 지도 드릴다운 경로)
+// ============================================================================
+
+interface MapBreadcrumbsProps {
+  province: string | null;
+  onNavigate: (province: string | null) => void;
+}
+
+function MapBreadcrumbs({ province, onNavigate }: MapBreadcrumbsProps) {
+  return (
+    <div className="flex items-center gap-1.5 mb-3 text-sm">
+      <button
+        onClick={() => onNavigate(null)}
+        disabled={!province}
+        className={province ? 'text-indigo-600 hover:text-indigo-800' : 'font-semibold text-slate-700'}
+      >
+        전국
+      </button>
+      {province ? (
+        <>
+          <span className="text-slate-300">›</span>
+          <span className="font-semibold text-slate-700">{province}</span>
+        </>
+      ) : (
+        <span className="text-xs text-slate-400 ml-1">시/도를 클릭하면 시/군/구별로 볼 수 있습니다</span>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// 서브 컴포넌트: MapLegend (지도 범례 - 색상 지표 / 스케일 선택)
+// ============================================================================
+
+interface MapLegendProps {
+  metric: MapMetric;
+  onMetricChange: (metric: MapMetric) => void;
+  scaleType: ColorScaleType;
+  onScaleTypeChange: (type: ColorScaleType) => void;
+  legend: ColorLegend;
+  showPoc: boolean;
+}
+
+function MapLegend({
+  metric,
+  onMetricChange,
+  scaleType,
+  onScaleTypeChange,
+  legend,
+  showPoc,
+}: MapLegendProps) {
+  const { label, format, diverging } = MAP_METRICS[metric];
+
+  return (
+    <div className="mt-5 p-4 bg-slate-50 rounded-lg">
+      <div className="flex items-center justify-between gap-2 mb-2 flex-wrap">
+        <div className="text-xs font-semibold text-slate-500">{label} 기준</div>
+        <div className="flex items-center gap-1 flex-wrap">
+          {MAP_METRIC_KEYS.map((key) => (
+            <button
+              key={key}
+              onClick={() => onMetricChange(key)}
+              className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                metric === key
+                  ? 'bg-white border border-slate-300 text-slate-700 font-semibold'
+                  : 'text-slate-400 hover:text-slate-600'
+              }`}
+            >
+              {MAP_METRICS[key].label}
+            </button>
+          ))}
+          <select
+            value={scaleType}
+            onChange={(e) => onScaleTypeChange(e.target.value as ColorScaleType)}
+            disabled={diverging}
+            title={diverging ? '증감 지표는 0 기준 발산형 스케일을 사용합니다' : '색상 스케일'}
+            className="ml-1 px-1.5 py-0.5 text-xs border border-slate-300 rounded bg-white text-slate-600 disabled:opacity-50"
+          >
+            {COLOR_SCALE_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {COLOR_SCALE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {legend.kind === 'continuous' ? (
+        <>
+          <div
+            className="h-3 rounded-full"
+            style={{ background: `linear-gradient(to right, ${legend.colors.join(', ')})` }}
+          />
+          <div className="flex justify-between mt-1 text-xs text-slate-400">
+            <span>{format(legend.min)}</span>
+            {legend.mid !== undefined && <span>{format(legend.mid)}</span>}
+            <span>{format(legend.max)}</span>
+          </div>
+        </>
+      ) : (
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {legend.classes.map((item, idx) => (
+            <div key={idx} className="flex items-center gap-1.5 text-xs text-slate-500">
+              <div className="w-3 h-3 rounded" style={{ background: item.color }} />
+              <span>
+                {item.from === item.to
+                  ? format(item.from)
+                  : `${format(item.from)} ~ ${format(item.to)}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {metric !== 'charge' && metric !== 'usage' && (
+        <div className="mt-2 flex items-center gap-2 text-xs text-slate-400">
+          <div className="w-3 h-3 rounded bg-slate-100 border border-slate-200" />
+          <span>{diverging ? '비교 기간 데이터 없음 / 신규' : '사용자 수 데이터 없음'}</span>
+        </div>
+      )}
+      {showPoc && (
+        <div className="mt-2 flex items-center gap-2 text-xs text-slate-400">
+          <div className="w-3 h-3 rounded bg-slate-300 border border-dashed border-slate-400" />
+          <span>PoC (월 10만원 미만)</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// 서브 컴포넌트: LoadingOverlay (초기 로딩)
+// ============================================================================
+
+function LoadingOverlay() {
+  return (
+    <div className="fixed inset-0 bg-white/80 flex items-center justify-center z-50">
+      <div className="flex flex-col items-center gap-3">
+        <div className="w-10 h-10 border-3 border-indigo-200 border-t-indigo-600 rounded-full animate-spin" />
+        <span className="text-sm text-slate-600">데이터 불러오는 중...</span>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// 서브 컴포넌트: ListToolbar (목록 정렬 / 필터)
+// ============================================================================
+
+interface ListToolbarProps {
+  view: ListView;
+  /** 지역 필터 선택지 (시/도) */
+  regionOptions: string[];
+  onChange: (view: ListView) => void;
+}
+
+function ListToolbar({ view, regionOptions, onChange }: ListToolbarProps) {
+  const { filters } = view;
+  const activeCount = countActiveFilters(filters);
+
+  const setFilter = <K extends keyof ListFilters>(key: K, value: ListFilters[K]) => {
+    onChange({ ...view, filters: { ...filters, [key]: value } });
+  };
+
+  return (
+    <div className="flex items-center gap-2 mb-4 flex-wrap text-xs">
+      <select
+        value={view.sort}
+        onChange={(e) => onChange({ ...view, sort: e.target.value as ListSortKey })}
+        className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-600"
+        aria-label="정렬 기준"
+      >
+        {(Object.keys(LIST_SORT_LABELS) as ListSortKey[]).map((key) => (
+          <option key={key} value={key}>
+            {LIST_SORT_LABELS[key]}
+          </option>
+        ))}
+      </select>
+
+      <FilterDropdown
+        label="📍 지역"
+        options={regionOptions.map((region) => ({ value: region, label: region }))}
+        selected={filters.regions}
+        onChange={(values) => setFilter('regions', values)}
+      />
+      <FilterDropdown
+        label="📝 계약 채널"
+        options={toOptions(CONTRACT_CHANNEL_LABELS)}
+        selected={filters.channels}
+        onChange={(values) => setFilter('channels', values)}
+      />
+      <FilterDropdown
+        label="💳 정산 방식"
+        options={toOptions(PAYMENT_METHOD_LABELS)}
+        selected={filters.payments}
+        onChange={(values) => setFilter('payments', values)}
+      />
+      <FilterDropdown
+        label="💰 과금 방식"
+        options={toOptions(BILLING_TYPE_LABELS)}
+        selected={filters.billings}
+        onChange={(values) => setFilter('billings', values)}
+      />
+
+      <label
+        className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg border cursor-pointer transition-colors ${
+          filters.missingContract
+            ? 'border-indigo-300 bg-indigo-50 text-indigo-700'
+            : 'border-slate-200 bg-white text-slate-600 hover:bg-slate-50'
+        }`}
+      >
+        <input
+          type="checkbox"
+          checked={filters.missingContract}
+          onChange={(e) => setFilter('missingContract', e.target.checked)}
+          className="accent-indigo-600"
+        />
+        계약정보 미입력
+      </label>
+
+      {activeCount > 0 && (
+        <button
+          onClick={() => onChange({ ...view, filters: DEFAULT_LIST_VIEW.filters })}
+          className="px-2 py-1.5 text-slate-500 hover:text-slate-700"
+        >
+          필터 초기화 ({activeCount})
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 레이블 정의 → 필터 선택지
+ */
+function toOptions<T extends string>(labels: Record<T, string>): { value: T; label: string }[] {
+  return (Object.keys(labels) as T[]).map((value) => ({ value, label: labels[value] }));
+}
+
+interface FilterDropdownProps<T extends string> {
+  label: string;
+  options: { value: T; label: string }[];
+  selected: T[];
+  onChange: (values: T[]) => void;
+}
+
+/**
+ * 다중 선택 필터 (선택지 중 하나라도 맞으면 표시)
+ */
+function FilterDropdown<T extends string>({ label, options, selected, onChange }: FilterDropdownProps<T>) {
+  const toggle = (value: T) => {
+    onChange(selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value]);
+  };
+
+  return (
+    <details className="relative">
+      <summary
+        className={`list-none cursor-pointer px-2.5 py-1.5 rounded-lg border transition-colors ${
+          selected.length > 0
+            ? 'border-indigo-300 bg-indigo-50 text-indigo-700'
+            : 'border-slate-200 bg-white text-slate-600 hover:bg-slate-50'
+        }`}
+      >
+        {label}
+        {selected.length > 0 && ` (${selected.length})`} ▾
+      </summary>
+      <div className="absolute left-0 mt-1 min-w-40 max-h-64 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-lg z-20 py-1">
+        {options.length === 0 ? (
+          <div className="px-3 py-2 text-slate-400">선택지가 없습니다</div>
+        ) : (
+          options.map((option) => (
+            <label
+              key={option.value}
+              className="flex items-center gap-2 px-3 py-1.5 hover:bg-slate-50 cursor-pointer whitespace-nowrap"
+            >
+              <input
+                type="checkbox"
+                checked={selected.includes(option.value)}
+                onChange={() => toggle(option.value)}
+                className="accent-indigo-600"
+              />
+              {option.label}
+            </label>
+          ))
+        )}
+      </div>
+    </details>
+  );
+}
+
+// ============================================================================
+// 서브 컴포넌트: TableExportMenu (목록 CSV / Excel 내보내기)
+// ============================================================================
+
+interface TableExportMenuProps {
+  tabLabel: string;
+  disabled: boolean;
+  onExport: (format: 'csv' | 'xlsx', scope: ExportScope) => void;
+}
+
+function TableExportMenu({ tabLabel, disabled, onExport }: TableExportMenuProps) {
+  const [scope, setScope] = useState<ExportScope>('tab');
+
+  return (
+    <div className="flex items-center gap-1">
+      <select
+        value={scope}
+        onChange={(e) => setScope(e.target.value as ExportScope)}
+        disabled={disabled}
+        className="text-xs border border-slate-200 rounded-lg px-2 py-2 bg-white text-slate-600 disabled:opacity-50"
+        aria-label="내보내기 범위"
+      >
+        <option value="tab">{tabLabel} 탭</option>
+        <option value="all">전체 탭</option>
+      </select>
+      {(['csv', 'xlsx'] as const).map((format) => (
+        <button
+          key={format}
+          onClick={() => onExport(format, scope)}
+          disabled={disabled}
+          className="px-2.5 py-2 text-xs bg-white border border-slate-200 text-slate-600 rounded-lg hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title={format === 'csv' ? 'CSV (UTF-8, 엑셀 호환)' : 'Excel (탭별 시트)'}
+        >
+          ⬇️ {format === 'csv' ? 'CSV' : 'Excel'}
+        </button>
+      ))}
     </div>
   );
 }
@@ -936,20 +2029,30 @@ interface ClientCardProps {
   item: Client;
   isPoc: boolean;
   colorClass: { text: string; bg: string };
+  colorScheme: TabConfig['colorScheme'];
+  period: Period;
+  trendMonths: MonthKey[];
   contractInfo?: ContractInfo;
-  onEditContract: () => void;
+  /** 없으면 읽기 전용 (영업 편집 권한 없음) */
+  onEditContract?: () => void;
   userMetrics: UserMetrics;
-  onEditUserMetrics: () => void;
+  onEditUserMetrics?: () => void;
+  /** 검색 결과로 강조 */
+  highlighted?: boolean;
 }
 
 function ClientCard({
   item,
   isPoc,
   colorClass,
+  colorScheme,
+  period,
+  trendMonths,
   contractInfo,
   onEditContract,
   userMetrics,
   onEditUserMetrics,
+  highlighted = false,
 }: ClientCardProps) {
   const { activeUsers, totalUsers } = userMetrics;
   const hasUserData = activeUsers !== undefined || totalUsers !== undefined;
@@ -958,19 +2061,27 @@ function ClientCard({
       ? ((activeUsers / totalUsers) * 100).toFixed(1)
       : null;
   const avgPricePerTotal = totalUsers
-    ? Math.round(item.charge / totalUsers)
+    ? Math.round(item.charge / item.months / totalUsers)
     : null;
   const avgPricePerActive = activeUsers
-    ? Math.round(item.charge / activeUsers)
+    ? Math.round(item.charge / item.months / activeUsers)
     : null;
+  const trend = useMemo(
+    () => buildTrendSeries([item], trendMonths),
+    [item, trendMonths]
+  );
+  const itemRecords = useMemo(() => [item], [item]);
+  const growth = usePeriodGrowth(itemRecords, period);
+  const ref = useScrollIntoView<HTMLDivElement>(highlighted);
 
   return (
     <div
+      ref={ref}
       className={`p-4 rounded-xl border-2 transition-all hover:shadow-md ${
         isPoc
           ? 'border-dashed border-slate-200 bg-slate-50/50'
           : `border-slate-100 ${colorClass.bg} hover:border-slate-200`
-      }`}
+      } ${highlighted ? 'ring-2 ring-indigo-400 ring-offset-1' : ''}`}
     >
       {/* 헤더 */}
       <div className="flex items-start justify-between gap-2">
@@ -999,15 +2110,34 @@ function ClientCard({
           <div className={`text-base font-bold ${colorClass.text}`}>
             {formatMoney(item.charge)}
           </div>
+          <div className="flex flex-col">
+            <GrowthBadge growth={growth.mom?.charge ?? null} label={growth.momLabel} unit="money" />
+            <GrowthBadge growth={growth.yoy?.charge ?? null} label="전년" unit="money" />
+          </div>
         </div>
         <div className="bg-white/60 rounded-lg px-3 py-2">
           <div className="text-xs text-slate-400">사용량</div>
           <div className={`text-base font-bold ${colorClass.text}`}>
             {item.usage.toLocaleString()}
           </div>
+          <div className="flex flex-col">
+            <GrowthBadge growth={growth.mom?.usage ?? null} label={growth.momLabel} unit="number" />
+            <GrowthBadge growth={growth.yoy?.usage ?? null} label="전년" unit="number" />
+          </div>
         </div>
       </div>
 
+      {/* 월별 추이 (스파크라인) */}
+      <div className="mt-2">
+        <TrendChart
+          series={trend}
+          colorScheme={colorScheme}
+          height={40}
+          compact
+          highlight={period}
+        />
+      </div>
+
       {/* 사용자 지표 */}
       <div className="mt-3 pt-3 border-t border-slate-100">
         {hasUserData ? (
@@ -1015,7 +2145,8 @@ function ClientCard({
             <div className="grid grid-cols-3 gap-1">
               <button
                 onClick={onEditUserMetrics}
-                className="bg-indigo-50 hover:bg-indigo-100 rounded px-2 py-1.5 text-center transition-colors"
+                disabled={!onEditUserMetrics}
+                className="bg-indigo-50 hover:bg-indigo-100 rounded px-2 py-1.5 text-center transition-colors disabled:pointer-events-none"
               >
                 <div className="text-xs text-indigo-400">활성</div>
                 <div className="text-sm font-bold text-indigo-600">
@@ -1024,7 +2155,8 @@ function ClientCard({
               </button>
               <button
                 onClick={onEditUserMetrics}
-                className="bg-slate-50 hover:bg-slate-100 rounded px-2 py-1.5 text-center transition-colors"
+                disabled={!onEditUserMetrics}
+                className="bg-slate-50 hover:bg-slate-100 rounded px-2 py-1.5 text-center transition-colors disabled:pointer-events-none"
               >
                 <div className="text-xs text-slate-400">전체</div>
                 <div className="text-sm font-bold text-slate-600">
@@ -1033,7 +2165,8 @@ function ClientCard({
               </button>
               <button
                 onClick={onEditUserMetrics}
-                className="bg-green-50 hover:bg-green-100 rounded px-2 py-1.5 text-center transition-colors"
+                disabled={!onEditUserMetrics}
+                className="bg-green-50 hover:bg-green-100 rounded px-2 py-1.5 text-center transition-colors disabled:pointer-events-none"
               >
                 <div className="text-xs text-green-400">활성율</div>
                 <div className="text-sm font-bold text-green-600">
@@ -1061,7 +2194,8 @@ function ClientCard({
         ) : (
           <button
             onClick={onEditUserMetrics}
-            className="w-full py-2 text-xs text-orange-500 bg-orange-50 hover:bg-orange-100 rounded-lg border border-dashed border-orange-200 transition-colors"
+            disabled={!onEditUserMetrics}
+            className="w-full py-2 text-xs text-orange-500 bg-orange-50 hover:bg-orange-100 rounded-lg border border-dashed border-orange-200 transition-colors disabled:pointer-events-none"
           >
             👥 사용자 수 입력필요
           </button>
@@ -1082,17 +2216,22 @@ function ClientCard({
 
 interface ClientItemProps {
   item: Client;
+  period: Period;
   isActive: boolean;
   isPoc: boolean;
   colorClass: { text: string; border: string; bg: string };
   contractInfo?: ContractInfo;
-  onEditContract: () => void;
+  /** 없으면 읽기 전용 (영업 편집 권한 없음) */
+  onEditContract?: () => void;
   userMetrics: UserMetrics;
-  onEditUserMetrics: () => void;
+  onEditUserMetrics?: () => void;
+  /** 검색 결과로 강조 */
+  highlighted?: boolean;
 }
 
 function ClientItem({
   item,
+  period,
   isActive,
   isPoc,
   colorClass,
@@ -1100,6 +2239,7 @@ function ClientItem({
   onEditContract,
   userMetrics,
   onEditUserMetrics,
+  highlighted = false,
 }: ClientItemProps) {
   const { activeUsers, totalUsers } = userMetrics;
   const hasUserData = activeUsers !== undefined || totalUsers !== undefined;
@@ -1108,21 +2248,25 @@ function ClientItem({
       ? ((activeUsers / totalUsers) * 100).toFixed(1)
       : null;
   const avgPricePerTotal = totalUsers
-    ? Math.round(item.charge / totalUsers)
+    ? Math.round(item.charge / item.months / totalUsers)
     : null;
   const avgPricePerActive = activeUsers
-    ? Math.round(item.charge / activeUsers)
+    ? Math.round(item.charge / item.months / activeUsers)
     : null;
+  const itemRecords = useMemo(() => [item], [item]);
+  const growth = usePeriodGrowth(itemRecords, period);
+  const ref = useScrollIntoView<HTMLDivElement>(highlighted);
 
   return (
     <div
+      ref={ref}
       className={`p-3 rounded-xl border-2 transition-all ${
         isActive
           ? `${colorClass.bg} ${colorClass.border.replace('border-l-', 'border-')}`
           : isPoc
           ? 'bg-slate-50/50 border-dashed border-slate-200'
           : 'bg-white border-slate-100 hover:border-slate-200 hover:shadow-sm'
-      }`}
+      } ${highlighted ? 'ring-2 ring-indigo-400 ring-offset-1' : ''}`}
     >
       {/* 헤더: 이름 + PoC 뱃지 */}
       <div className="flex items-start justify-between gap-2">
@@ -1153,12 +2297,20 @@ function ClientItem({
           <div className={`text-sm font-bold ${colorClass.text}`}>
             {formatMoney(item.charge)}
           </div>
+          <div className="flex flex-wrap gap-x-1.5">
+            <GrowthBadge growth={growth.mom?.charge ?? null} label={growth.momLabel} unit="money" compact />
+            <GrowthBadge growth={growth.yoy?.charge ?? null} label="전년" unit="money" compact />
+          </div>
         </div>
         <div className="bg-slate-50 rounded-lg px-2 py-1.5">
           <div className="text-xs text-slate-400">사용량</div>
           <div className={`text-sm font-bold ${colorClass.text}`}>
             {item.usage.toLocaleString()}
           </div>
+          <div className="flex flex-wrap gap-x-1.5">
+            <GrowthBadge growth={growth.mom?.usage ?? null} label={growth.momLabel} unit="number" compact />
+            <GrowthBadge growth={growth.yoy?.usage ?? null} label="전년" unit="number" compact />
+          </div>
         </div>
       </div>
 
@@ -1169,7 +2321,8 @@ function ClientItem({
             <div className="grid grid-cols-3 gap-1 text-center">
               <button
                 onClick={onEditUserMetrics}
-                className="bg-indigo-50 hover:bg-indigo-100 rounded px-1 py-1 transition-colors"
+                disabled={!onEditUserMetrics}
+                className="bg-indigo-50 hover:bg-indigo-100 rounded px-1 py-1 transition-colors disabled:pointer-events-none"
               >
                 <div className="text-xs text-indigo-400">활성</div>
                 <div className="text-xs font-bold text-indigo-600">
@@ -1178,7 +2331,8 @@ function ClientItem({
               </button>
               <button
                 onClick={onEditUserMetrics}
-                className="bg-slate-50 hover:bg-slate-100 rounded px-1 py-1 transition-colors"
+                disabled={!onEditUserMetrics}
+                className="bg-slate-50 hover:bg-slate-100 rounded px-1 py-1 transition-colors disabled:pointer-events-none"
               >
                 <div className="text-xs text-slate-400">전체</div>
                 <div className="text-xs font-bold text-slate-600">
@@ -1187,7 +2341,8 @@ function ClientItem({
               </button>
               <button
                 onClick={onEditUserMetrics}
-                className="bg-green-50 hover:bg-green-100 rounded px-1 py-1 transition-colors"
+                disabled={!onEditUserMetrics}
+                className="bg-green-50 hover:bg-green-100 rounded px-1 py-1 transition-colors disabled:pointer-events-none"
               >
                 <div className="text-xs text-green-400">활성율</div>
                 <div className="text-xs font-bold text-green-600">
@@ -1215,7 +2370,8 @@ function ClientItem({
         ) : (
           <button
             onClick={onEditUserMetrics}
-            className="w-full py-1.5 text-xs text-orange-500 bg-orange-50 hover:bg-orange-100 rounded border border-dashed border-orange-200 transition-colors"
+            disabled={!onEditUserMetrics}
+            className="w-full py-1.5 text-xs text-orange-500 bg-orange-50 hover:bg-orange-100 rounded border border-dashed border-orange-200 transition-colors disabled:pointer-events-none"
           >
             👥 사용자 수 입력필요
           </button>
@@ -1236,12 +2392,14 @@ function ClientItem({
 
 interface ContractInfoTagsProps {
   info?: ContractInfo;
-  onEdit: () => void;
+  /** 없으면 읽기 전용 */
+  onEdit?: () => void;
 }
 
 function ContractInfoTags({ info, onEdit }: ContractInfoTagsProps) {
-  // 계약 정보가 없으면 추가 버튼만 표시
-  if (!info || (!info.billing && !info.channel && !info.payment)) {
+  // 계약 정보가 없으면 추가 버튼만 표시 (읽기 전용이면 표시 안 함)
+  if (!info || (!hasContractInfo(info) && !info.contractDate)) {
+    if (!onEdit) return null;
     return (
       <button
         onClick={onEdit}
@@ -1258,7 +2416,8 @@ function ContractInfoTags({ info, onEdit }: ContractInfoTagsProps) {
       {info.billing && (
         <button
           onClick={onEdit}
-          className={`text-xs px-1.5 py-0.5 rounded border transition-all hover:opacity-80 ${
+          disabled={!onEdit}
+          className={`text-xs px-1.5 py-0.5 rounded border transition-all hover:opacity-80 disabled:pointer-events-none ${
             BILLING_TYPE_COLORS[info.billing].bg
           } ${BILLING_TYPE_COLORS[info.billing].text} ${
             BILLING_TYPE_COLORS[info.billing].border
@@ -1272,7 +2431,8 @@ function ContractInfoTags({ info, onEdit }: ContractInfoTagsProps) {
       {info.channel && (
         <button
           onClick={onEdit}
-          className={`text-xs px-1.5 py-0.5 rounded border transition-all hover:opacity-80 ${
+          disabled={!onEdit}
+          className={`text-xs px-1.5 py-0.5 rounded border transition-all hover:opacity-80 disabled:pointer-events-none ${
             CONTRACT_CHANNEL_COLORS[info.channel].bg
           } ${CONTRACT_CHANNEL_COLORS[info.channel].text} ${
             CONTRACT_CHANNEL_COLORS[info.channel].border
@@ -1286,7 +2446,8 @@ function ContractInfoTags({ info, onEdit }: ContractInfoTagsProps) {
       {info.payment && (
         <button
           onClick={onEdit}
-          className={`text-xs px-1.5 py-0.5 rounded border transition-all hover:opacity-80 ${
+          disabled={!onEdit}
+          className={`text-xs px-1.5 py-0.5 rounded border transition-all hover:opacity-80 disabled:pointer-events-none ${
             PAYMENT_METHOD_COLORS[info.payment].bg
           } ${PAYMENT_METHOD_COLORS[info.payment].text} ${
             PAYMENT_METHOD_COLORS[info.payment].border
@@ -1296,11 +2457,24 @@ function ContractInfoTags({ info, onEdit }: ContractInfoTagsProps) {
         </button>
       )}
 
+      {/* 계약일 */}
+      {info.contractDate && (
+        <button
+          onClick={onEdit}
+          disabled={!onEdit}
+          className="text-xs px-1.5 py-0.5 rounded bg-slate-50 text-slate-500 border border-slate-200 hover:opacity-80 transition-all disabled:pointer-events-none"
+          title="계약일"
+        >
+          📅 {info.contractDate}
+        </button>
+      )}
+
       {/* 메모가 있으면 표시 */}
       {info.note && (
         <button
           onClick={onEdit}
-          className="text-xs px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 border border-slate-200 hover:opacity-80 transition-all"
+          disabled={!onEdit}
+          className="text-xs px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 border border-slate-200 hover:opacity-80 transition-all disabled:cursor-default disabled:hover:opacity-100"
           title={info.note}
         >
           📝
@@ -1319,6 +2493,8 @@ interface ContractInfoModalProps {
   currentInfo?: ContractInfo;
   onSave: (info: ContractInfo | null) => void;
   onClose: () => void;
+  /** 변경 이력 보기 */
+  onShowHistory: () => void;
   isSaving?: boolean;
 }
 
@@ -1327,6 +2503,7 @@ function ContractInfoModal({
   currentInfo,
   onSave,
   onClose,
+  onShowHistory,
   isSaving = false,
 }: ContractInfoModalProps) {
   const [info, setInfo] = useState<ContractInfo>(currentInfo || {});
@@ -1347,8 +2524,8 @@ function ContractInfoModal({
   ];
 
   const handleSave = () => {
-    // 하나라도 선택되어 있으면 저장
-    if (info.billing || info.channel || info.payment) {
+    // 하나라도 선택(입력)되어 있으면 저장
+    if (hasContractInfo(info) || info.contractDate) {
       onSave(info);
     } else {
       onSave(null);
@@ -1365,7 +2542,15 @@ function ContractInfoModal({
         onClick={(e) => e.stopPropagation()}
       >
         <h3 className="font-bold text-lg mb-1">계약 정보 설정</h3>
-        <p className="text-sm text-slate-500 mb-4">{client.name}</p>
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <p className="text-sm text-slate-500">{client.name}</p>
+          <button
+            onClick={onShowHistory}
+            className="text-xs text-slate-400 hover:text-slate-600"
+          >
+            🕘 변경 이력
+          </button>
+        </div>
 
         {/* 과금 방식 (가장 중요!) */}
         <div className="mb-5">
@@ -1478,6 +2663,21 @@ function ContractInfoModal({
           </div>
         </div>
 
+        {/* 계약일 */}
+        <div className="mb-5">
+          <div className="text-sm font-semibold text-slate-700 mb-2">
+            📅 계약일 (선택)
+          </div>
+          <input
+            type="date"
+            value={info.contractDate || ''}
+            onChange={(e) =>
+              setInfo((prev) => ({ ...prev, contractDate: e.target.value || undefined }))
+            }
+            className="px-3 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:border-slate-400"
+          />
+        </div>
+
         {/* 메모 */}
         <div className="mb-5">
           <div className="text-sm font-semibold text-slate-700 mb-2">
@@ -1534,6 +2734,8 @@ interface UserMetricsModalProps {
   currentMetrics: UserMetrics;
   onSave: (metrics: UserMetrics | null) => void;
   onClose: () => void;
+  /** 변경 이력 보기 */
+  onShowHistory: () => void;
   isSaving?: boolean;
 }
 
@@ -1542,6 +2744,7 @@ function UserMetricsModal({
   currentMetrics,
   onSave,
   onClose,
+  onShowHistory,
   isSaving = false,
 }: UserMetricsModalProps) {
   const [activeUsers, setActiveUsers] = useState<string>(
@@ -1557,10 +2760,10 @@ function UserMetricsModal({
   const activationRate =
     activeNum && totalNum ? ((activeNum / totalNum) * 100).toFixed(1) : null;
   const avgPricePerTotal = totalNum
-    ? Math.round(client.charge / totalNum)
+    ? Math.round(client.charge / client.months / totalNum)
     : null;
   const avgPricePerActive = activeNum
-    ? Math.round(client.charge / activeNum)
+    ? Math.round(client.charge / client.months / activeNum)
     : null;
 
   const handleSave = () => {
@@ -1585,7 +2788,15 @@ function UserMetricsModal({
         onClick={(e) => e.stopPropagation()}
       >
         <h3 className="font-bold text-lg mb-1">👥 사용자 수 입력</h3>
-        <p className="text-sm text-slate-500 mb-4">{client.name}</p>
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <p className="text-sm text-slate-500">{client.name}</p>
+          <button
+            onClick={onShowHistory}
+            className="text-xs text-slate-400 hover:text-slate-600"
+          >
+            🕘 변경 이력
+          </button>
+        </div>
 
         {/* 입력 필드 */}
         <div className="space-y-4 mb-5">
@@ -1680,3 +2891,154 @@ function UserMetricsModal({
     </div>
   );
 }
+
+// ============================================================================
+// 서브 컴포넌트: ChangeHistoryModal (계약 정보 / 사용자 지표 변경 이력)
+// ============================================================================
+
+/**
+ * 변경 이력 값 요약 (예: "사용량 과금 · 나라장터 · 📅 2024-03-01")
+ */
+function describeAuditValue(entry: AuditEntry, value: AuditValue | null): string {
+  if (!value) return '없음';
+  if (entry.target === 'userMetrics') {
+    const metrics = value as UserMetrics;
+    return `활성 ${metrics.activeUsers?.toLocaleString() ?? '-'} / 전체 ${metrics.totalUsers?.toLocaleString() ?? '-'}`;
+  }
+  const info = value as ContractInfo;
+  return [
+    info.billing && BILLING_TYPE_LABELS[info.billing],
+    info.channel && CONTRACT_CHANNEL_LABELS[info.channel],
+    info.payment && PAYMENT_METHOD_LABELS[info.payment],
+    info.contractDate && `📅 ${info.contractDate}`,
+    info.note && `📝 ${info.note}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+interface ChangeHistoryModalProps {
+  client: Client;
+  /** 되돌리기 성공 시 (화면 값 갱신용) */
+  onReverted: (entry: AuditEntry) => void;
+  onClose: () => void;
+}
+
+function ChangeHistoryModal({ client, onReverted, onClose }: ChangeHistoryModalProps) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState('');
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setEntries(await fetchChangeHistory(client.name));
+      setError('');
+    } catch (e) {
+      console.error('변경 이력 조회 실패:', e);
+      setError('변경 이력을 불러오지 못했습니다');
+    }
+  }, [client.name]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // 이미 되돌린 변경은 되돌리기 버튼 대신 표시
+  const revertedIds = useMemo(
+    () => new Set((entries ?? []).map((entry) => entry.revertOf).filter(Boolean)),
+    [entries]
+  );
+
+  const handleRevert = async (entry: AuditEntry) => {
+    const target = AUDIT_TARGET_LABELS[entry.target];
+    if (!confirm(`${target}를 이 변경 전 값으로 되돌리시겠습니까?\n→ ${describeAuditValue(entry, entry.before)}`)) {
+      return;
+    }
+
+    setRevertingId(entry.id);
+    try {
+      onReverted(await revertChange(entry.id));
+      await load();
+    } catch (e) {
+      console.error('변경 되돌리기 실패:', e);
+      alert((e as Error).message || '되돌리기에 실패했습니다. 다시 시도해주세요.');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-2xl p-6 w-full max-w-lg shadow-xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="font-bold text-lg mb-1">🕘 변경 이력</h3>
+        <p className="text-sm text-slate-500 mb-4">{client.name}</p>
+
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+        {!error && entries === null && (
+          <p className="text-sm text-slate-400 mb-3">불러오는 중...</p>
+        )}
+        {entries?.length === 0 && (
+          <p className="text-sm text-slate-400 mb-3">변경 이력이 없습니다.</p>
+        )}
+
+        <div className="space-y-2 mb-5">
+          {entries?.map((entry) => (
+            <div key={entry.id} className="p-3 bg-slate-50 rounded-lg text-sm">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="text-xs px-1.5 py-0.5 rounded bg-white border border-slate-200 text-slate-600">
+                  {AUDIT_TARGET_LABELS[entry.target]}
+                </span>
+                <span className="font-medium text-slate-700">
+                  {AUDIT_ACTION_LABELS[entry.action]}
+                </span>
+                <span className="text-xs text-slate-500" title={entry.userId}>
+                  {entry.userName}
+                </span>
+                <span className="text-xs text-slate-400">
+                  {new Date(entry.createdAt).toLocaleString('ko-KR')}
+                </span>
+                {entry.pending && (
+                  <span className="text-xs text-amber-600" title="Google Sheets 반영 여부를 확인하지 못한 변경입니다">
+                    반영 확인 안 됨
+                  </span>
+                )}
+                {revertedIds.has(entry.id) ? (
+                  <span className="ml-auto text-xs text-slate-400">되돌림</span>
+                ) : (
+                  <button
+                    onClick={() => handleRevert(entry)}
+                    disabled={revertingId !== null}
+                    className="ml-auto text-xs px-2 py-1 text-indigo-600 hover:bg-indigo-50 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {revertingId === entry.id ? '되돌리는 중...' : '↩ 되돌리기'}
+                  </button>
+                )}
+              </div>
+              <div className="mt-1.5 text-xs text-slate-500 space-y-0.5">
+                <div>
+                  <span className="text-slate-400">이전</span> {describeAuditValue(entry, entry.before)}
+                </div>
+                <div>
+                  <span className="text-slate-400">이후</span> {describeAuditValue(entry, entry.after)}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full py-2.5 text-sm text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+        >
+          닫기
+        </button>
+      </div>
+    </div>
+  );
+}
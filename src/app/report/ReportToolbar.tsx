@@ -0,0 +1,39 @@
+'use client';
+
+import Link from 'next/link';
+import type { Period } from '@/data/clients';
+
+/**
+ * 리포트 상단 도구 모음 (인쇄 시 숨김)
+ * 브라우저 인쇄(PDF 저장 포함)와 서버에서 만든 PDF 다운로드를 제공합니다.
+ */
+export default function ReportToolbar({ period }: { period: Period }) {
+  const query = new URLSearchParams({ from: period.from, to: period.to }).toString();
+
+  return (
+    <div className="print:hidden bg-white border-b border-slate-200 sticky top-0 z-10">
+      <div className="max-w-4xl mx-auto px-4 py-3 flex items-center justify-between gap-2">
+        <Link
+          href="/"
+          className="text-xs text-slate-500 hover:text-slate-700 px-2.5 py-1.5 rounded-lg hover:bg-slate-100 transition-colors"
+        >
+          ← 대시보드
+        </Link>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => window.print()}
+            className="px-3 py-1.5 text-xs bg-white border border-slate-300 text-slate-700 rounded-lg hover:bg-slate-50 transition-colors"
+          >
+            🖨️ 인쇄
+          </button>
+          <a
+            href={`/api/report/pdf?${query}`}
+            className="px-3 py-1.5 text-xs bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+          >
+            ⬇️ PDF 다운로드
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
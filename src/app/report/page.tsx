@@ -0,0 +1,339 @@
+/**
+ * 인쇄용 리포트 페이지
+ *
+ * 주간/월간 보고용 다중 페이지 리포트입니다. (A4 인쇄 레이아웃)
+ * - 표지 (조회 기간, 전체 합계) / 분류별 합계 / 상위 고객사 / 분류별 지도 / 계약 유형 분포 / PoC 목록
+ * - ?from=YYYY-MM&to=YYYY-MM 으로 조회 기간 지정 (생략 시 가장 최근 월)
+ *
+ * @page
+ */
+
+import Link from 'next/link';
+import { formatMoney, formatPeriod } from '@/data/clients';
+import type { ColorLegend } from '@/lib/colorScales';
+import { BreakdownRow, ReportClient, ReportMap, REPORT_TOP_N, loadReportData } from '@/lib/report';
+import ReportToolbar from './ReportToolbar';
+
+export const metadata = {
+  title: 'Wrks.ai - 리포트',
+};
+
+// ============================================================================
+// 유틸리티 함수
+// ============================================================================
+
+function formatRate(rate: number | null): string {
+  if (rate === null) return '-';
+  return `${rate > 0 ? '+' : ''}${rate.toFixed(1)}%`;
+}
+
+/** 범례 금액 (분위수 경계 등 소수점 값 반올림) */
+function formatLegendMoney(value: number): string {
+  return formatMoney(Math.round(value));
+}
+
+function formatGeneratedAt(iso: string): string {
+  return new Date(iso).toLocaleString('ko-KR', { timeZone: 'Asia/Seoul' });
+}
+
+// ============================================================================
+// 메인 컴포넌트
+// ============================================================================
+
+export default async function ReportPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const { from, to } = await searchParams;
+  const report = await loadReportData(from, to);
+
+  if (!report) {
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center px-4">
+        <div className="text-center">
+          <p className="text-sm text-red-600">조회 기간 형식이 올바르지 않습니다 (from / to: YYYY-MM)</p>
+          <Link href="/report" className="text-xs text-indigo-600 hover:text-indigo-800 mt-2 inline-block">
+            최근 월 리포트 보기
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { totals } = report;
+
+  return (
+    <div className="min-h-screen bg-slate-100 print:bg-white">
+      <ReportToolbar period={report.period} />
+
+      <main className="max-w-4xl mx-auto px-4 py-6 space-y-6 print:p-0 print:space-y-0 print:max-w-none">
+        {/* ============================================================== */}
+        {/* 표지 */}
+        {/* ============================================================== */}
+        <PrintPage className="flex flex-col justify-between min-h-[900px] print:min-h-[260mm]">
+          <div>
+            <div className="flex items-center gap-2">
+              <div className="w-8 h-8 rounded-lg bg-indigo-600 flex items-center justify-center text-white font-bold text-lg">
+                W
+              </div>
+              <span className="font-bold text-lg tracking-tight">
+                Wrks<span className="text-indigo-600">.ai</span>
+              </span>
+            </div>
+            <h1 className="text-3xl font-bold tracking-tight mt-24">공공 고객사 AI 서비스 활용 현황</h1>
+            <p className="text-lg text-slate-500 mt-2">{formatPeriod(report.period)} 기준</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <SummaryItem label="총 사용금액" value={formatMoney(totals.stats.totalCharge)} />
+            <SummaryItem label="총 사용량" value={totals.stats.totalUsage.toLocaleString()} />
+            <SummaryItem label="고객사" value={`${totals.count}곳 (PoC ${totals.pocCount}곳)`} />
+            <SummaryItem
+              label="사용금액 증감"
+              value={`직전 ${formatRate(totals.mom)} · 전년 ${formatRate(totals.yoy)}`}
+            />
+          </div>
+
+          <div className="text-xs text-slate-400 space-y-0.5">
+            <p>작성: {formatGeneratedAt(report.generatedAt)}</p>
+            <p>자료: 고객사 청구 데이터 · PoC 기준 {formatMoney(report.pocThreshold)} 미만 (월 10만원 × 기간 개월 수)</p>
+            {!report.hasContracts && <p>계약 정보(Google Sheets)를 불러오지 못해 계약 유형은 미입력으로 집계했습니다.</p>}
+          </div>
+        </PrintPage>
+
+        {/* ============================================================== */}
+        {/* 분류별 합계 / 상위 고객사 */}
+        {/* ============================================================== */}
+        <PrintPage>
+          <SectionTitle>분류별 합계</SectionTitle>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-300 text-xs text-slate-500">
+                <th className="py-2 text-left">분류</th>
+                <th className="py-2 text-right">고객사</th>
+                <th className="py-2 text-right">사용금액</th>
+                <th className="py-2 text-right">사용량</th>
+                <th className="py-2 text-right">활성율</th>
+                <th className="py-2 text-right">직전 대비</th>
+                <th className="py-2 text-right">전년 대비</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.sections.map((section) => (
+                <tr key={section.id} className="border-b border-slate-100">
+                  <td className="py-2 font-medium">{section.label}</td>
+                  <td className="py-2 text-right">
+                    {section.count}
+                    {section.pocCount > 0 && <span className="text-xs text-slate-400"> (PoC {section.pocCount})</span>}
+                  </td>
+                  <td className="py-2 text-right">{formatMoney(section.stats.totalCharge)}</td>
+                  <td className="py-2 text-right">{section.stats.totalUsage.toLocaleString()}</td>
+                  <td className="py-2 text-right">
+                    {section.stats.overallActivationRate ? `${section.stats.overallActivationRate}%` : '-'}
+                  </td>
+                  <td className="py-2 text-right">{formatRate(section.mom)}</td>
+                  <td className="py-2 text-right">{formatRate(section.yoy)}</td>
+                </tr>
+              ))}
+              <tr className="font-semibold">
+                <td className="py-2">합계</td>
+                <td className="py-2 text-right">{totals.count}</td>
+                <td className="py-2 text-right">{formatMoney(totals.stats.totalCharge)}</td>
+                <td className="py-2 text-right">{totals.stats.totalUsage.toLocaleString()}</td>
+                <td className="py-2 text-right">
+                  {totals.stats.overallActivationRate ? `${totals.stats.overallActivationRate}%` : '-'}
+                </td>
+                <td className="py-2 text-right">{formatRate(totals.mom)}</td>
+                <td className="py-2 text-right">{formatRate(totals.yoy)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          <SectionTitle className="mt-10">사용금액 상위 {REPORT_TOP_N}개 고객사</SectionTitle>
+          <ClientTable clients={report.topClients} ranked />
+        </PrintPage>
+
+        {/* ============================================================== */}
+        {/* 분류별 지도 */}
+        {/* ============================================================== */}
+        <PrintPage>
+          <SectionTitle>분류별 지도 (사용금액)</SectionTitle>
+          {report.boundaryVintage ? (
+            <div className="grid grid-cols-2 gap-6">
+              {report.sections.filter((section) => section.map).map((section) => (
+                <div key={section.id} className="break-inside-avoid">
+                  <div className="text-sm font-semibold mb-1">{section.label}</div>
+                  <ReportMapView map={section.map!} />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-slate-500">지도 경계 데이터를 불러오지 못해 지도를 생략했습니다.</p>
+          )}
+          {report.boundaryVintage && (
+            <p className="text-xs text-slate-400 mt-4">
+              연회색: 데이터 없음 · 회색: PoC · 지도 경계: {report.boundaryVintage}
+            </p>
+          )}
+        </PrintPage>
+
+        {/* ============================================================== */}
+        {/* 계약 유형 분포 / PoC 목록 */}
+        {/* ============================================================== */}
+        <PrintPage>
+          <SectionTitle>계약 유형 분포</SectionTitle>
+          <div className="grid grid-cols-3 gap-4">
+            <BreakdownTable title="계약 채널" rows={report.contracts.channel} />
+            <BreakdownTable title="정산 방식" rows={report.contracts.payment} />
+            <BreakdownTable title="과금 방식" rows={report.contracts.billing} />
+          </div>
+
+          <SectionTitle className="mt-10">PoC 고객사 ({report.pocClients.length}곳)</SectionTitle>
+          {report.pocClients.length > 0 ? (
+            <ClientTable clients={report.pocClients} />
+          ) : (
+            <p className="text-sm text-slate-500">PoC 고객사가 없습니다.</p>
+          )}
+        </PrintPage>
+      </main>
+    </div>
+  );
+}
+
+// ============================================================================
+// 서브 컴포넌트: PrintPage (인쇄 시 한 페이지), 제목, 요약 항목
+// ============================================================================
+
+function PrintPage({ children, className = '' }: { children: React.ReactNode; className?: string }) {
+  return (
+    <section
+      className={`bg-white rounded-xl border border-slate-200 p-10 print:rounded-none print:border-0 print:p-0 print:break-after-page ${className}`}
+    >
+      {children}
+    </section>
+  );
+}
+
+function SectionTitle({ children, className = '' }: { children: React.ReactNode; className?: string }) {
+  return <h2 className={`text-lg font-bold mb-3 ${className}`}>{children}</h2>;
+}
+
+function SummaryItem({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="border-l-4 border-indigo-500 pl-3">
+      <div className="text-xs text-slate-400">{label}</div>
+      <div className="text-xl font-bold">{value}</div>
+    </div>
+  );
+}
+
+// ============================================================================
+// 서브 컴포넌트: ClientTable (고객사 목록)
+// ============================================================================
+
+function ClientTable({ clients, ranked = false }: { clients: ReportClient[]; ranked?: boolean }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-slate-300 text-xs text-slate-500">
+          {ranked && <th className="py-1.5 text-left w-8">#</th>}
+          <th className="py-1.5 text-left">기관명</th>
+          <th className="py-1.5 text-left">분류</th>
+          <th className="py-1.5 text-left">지역</th>
+          <th className="py-1.5 text-right">사용금액</th>
+          <th className="py-1.5 text-right">사용량</th>
+        </tr>
+      </thead>
+      <tbody>
+        {clients.map((client, idx) => (
+          <tr key={`${client.section}-${client.name}`} className="border-b border-slate-100 break-inside-avoid">
+            {ranked && <td className="py-1.5 text-slate-400">{idx + 1}</td>}
+            <td className="py-1.5 font-medium">{client.name}</td>
+            <td className="py-1.5 text-slate-500">{client.section}</td>
+            <td className="py-1.5 text-slate-500">
+              {[client.region, client.subRegion].filter(Boolean).join(' ') || '-'}
+            </td>
+            <td className="py-1.5 text-right">{formatMoney(client.charge)}</td>
+            <td className="py-1.5 text-right">{client.usage.toLocaleString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// ============================================================================
+// 서브 컴포넌트: BreakdownTable (계약 유형 분포)
+// ============================================================================
+
+function BreakdownTable({ title, rows }: { title: string; rows: BreakdownRow[] }) {
+  return (
+    <div>
+      <div className="text-sm font-semibold mb-1">{title}</div>
+      <table className="w-full text-xs">
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="border-b border-slate-100">
+              <td className={`py-1 ${row.label === '미입력' ? 'text-slate-400' : ''}`}>{row.label}</td>
+              <td className="py-1 text-right">{row.count}곳</td>
+              <td className="py-1 text-right">{formatMoney(row.charge)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// ============================================================================
+// 서브 컴포넌트: ReportMapView (서버에서 투영한 지도 + 범례)
+// ============================================================================
+
+function ReportMapView({ map }: { map: ReportMap }) {
+  return (
+    <div>
+      <svg viewBox={`0 0 ${map.width} ${map.height}`} className="w-full h-auto">
+        {map.regions.map((region, idx) => (
+          <path key={idx} d={region.d} fill={region.fill} stroke="#fff" strokeWidth={0.5}>
+            <title>{region.name}</title>
+          </path>
+        ))}
+      </svg>
+      <ReportLegend legend={map.legend} />
+    </div>
+  );
+}
+
+function ReportLegend({ legend }: { legend: ColorLegend }) {
+  if (legend.kind === 'continuous') {
+    return (
+      <div className="mt-1">
+        <div
+          className="h-2 rounded-full"
+          style={{ background: `linear-gradient(to right, ${legend.colors.join(', ')})` }}
+        />
+        <div className="flex justify-between text-[10px] text-slate-400 mt-0.5">
+          <span>{formatLegendMoney(legend.min)}</span>
+          {legend.mid !== undefined && <span>{formatLegendMoney(legend.mid)}</span>}
+          <span>{formatLegendMoney(legend.max)}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-1 flex flex-wrap gap-x-3 gap-y-0.5">
+      {legend.classes.map((item, idx) => (
+        <div key={idx} className="flex items-center gap-1 text-[10px] text-slate-500">
+          <div className="w-2.5 h-2.5 rounded-sm" style={{ background: item.color }} />
+          <span>
+            {item.from === item.to
+              ? formatLegendMoney(item.from)
+              : `${formatLegendMoney(item.from)} ~ ${formatLegendMoney(item.to)}`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * GrowthBadge 컴포넌트
+ *
+ * 비교 기간 대비 증감을 화살표와 색상으로 표시합니다.
+ * - 증가: ▲ 초록 / 감소: ▼ 빨강 / 변동 없음: – 회색
+ *
+ * @component
+ * @example
+ * <GrowthBadge growth={growth.charge} label="전월" unit="money" />
+ */
+
+import { Growth, formatGrowthRate, formatGrowthDiff } from '@/data/clients';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+interface GrowthBadgeProps {
+  /** 증감 데이터 (비교 기간 데이터가 없으면 null) */
+  growth: Growth | null;
+  /** 비교 기준 라벨 (예: '전월', '전년') */
+  label: string;
+  /** 증감량 표기 단위 */
+  unit: 'money' | 'number';
+  /** 증감률만 표시 (증감량 생략) */
+  compact?: boolean;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+/** 증감 방향별 스타일 */
+const GROWTH_STYLES = {
+  up: { arrow: '▲', className: 'text-emerald-600', tooltipClass: 'text-emerald-400' },
+  down: { arrow: '▼', className: 'text-rose-600', tooltipClass: 'text-rose-400' },
+  flat: { arrow: '–', className: 'text-slate-400', tooltipClass: 'text-slate-400' },
+} as const;
+
+/**
+ * 증감 방향 판단
+ */
+export function growthDirection(growth: Growth): keyof typeof GROWTH_STYLES {
+  if (growth.diff > 0) return 'up';
+  if (growth.diff < 0) return 'down';
+  return 'flat';
+}
+
+/**
+ * 증감 표시 HTML (D3 툴팁 등 innerHTML 용)
+ */
+export function growthToHtml(growth: Growth | null, label: string, unit: 'money' | 'number'): string {
+  if (!growth) return `<span class="text-slate-500">${label} -</span>`;
+  const { arrow, tooltipClass } = GROWTH_STYLES[growthDirection(growth)];
+  return `<span class="${tooltipClass}">${label} ${arrow} ${formatGrowthRate(growth)} (${formatGrowthDiff(growth, unit)})</span>`;
+}
+
+// ============================================================================
+// 메인 컴포넌트
+// ============================================================================
+
+export default function GrowthBadge({ growth, label, unit, compact = false }: GrowthBadgeProps) {
+  if (!growth) {
+    return (
+      <span className="text-xs text-slate-300" title={`${label} 데이터 없음`}>
+        {label} -
+      </span>
+    );
+  }
+
+  const { arrow, className } = GROWTH_STYLES[growthDirection(growth)];
+  const diffText = formatGrowthDiff(growth, unit);
+
+  return (
+    <span
+      className={`text-xs font-medium whitespace-nowrap ${className}`}
+      title={`${label} 대비 ${diffText} (${formatGrowthRate(growth)})`}
+    >
+      {label} {arrow} {formatGrowthRate(growth)}
+      {!compact && <span className="font-normal opacity-80"> ({diffText})</span>}
+    </span>
+  );
+}
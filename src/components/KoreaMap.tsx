@@ -4,8 +4,12 @@
  * KoreaMap 컴포넌트
  *
  * D3.js를 사용하여 한국 지도를 렌더링하고, 고객사 데이터를 시각화합니다.
- * - 시/도 단위: 교육청 데이터 (색상으로 사용금액 표시)
- * - 시/군/구 단위: 지자체 데이터 (색상으로 사용금액 표시)
+ * - 시/도 단위: 교육청 데이터 (색상으로 사용금액 등 선택한 지표 표시)
+ * - 시/군/구 단위: 지자체 데이터 (색상으로 사용금액 등 선택한 지표 표시)
+ * - 휠/핀치로 확대·이동, 시/군/구 지도에서 지역 클릭 시 해당 시/도로 줌인 후 시/군/구 라벨 표시
+ * - province 를 지정하면 해당 시/도의 시/군/구만 표시 (전국 → 시/도 드릴다운)
+ * - showMarkers: 기관별 마커 (좌표 테이블 또는 영역 중심점, 사용금액 크기, 낮은 배율에서는 묶음 표시)
+ * - 현재 화면(확대 상태 포함)을 제목·범례·출처와 함께 SVG / PNG 로 내보내기
  *
  * @component
  * @example
@@ -19,13 +23,31 @@
 
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import * as d3 from 'd3';
-import { Client, AggregatedData, formatMoney } from '@/data/clients';
+import type { Topology } from 'topojson-specification';
+import {
+  Client,
+  AggregatedData,
+  Period,
+  formatMoney,
+  formatPeriod,
+  aggregateByRegion,
+  aggregateBySubRegion,
+  regionPairKey,
+  comparePeriods,
+  previousPeriod,
+  yearAgoPeriod,
+} from '@/data/clients';
+import { growthToHtml } from '@/components/GrowthBadge';
+import { CLIENT_LOCATIONS } from '@/data/clientLocations';
+import { MapMetric, MAP_METRICS, computeMapMetric, buildMapColorScale } from '@/data/mapMetrics';
+import { COLOR_RANGES, ColorScaleType, MapColorScheme } from '@/lib/colorScales';
+import { buildMapSvg, downloadPng, downloadSvg, toFileName } from '@/lib/mapExport';
+import { FeatureKey, getFeatureKey, toFeatureCollection } from '@/lib/mapFeatures';
 import {
   PROVINCE_EN_TO_KR,
-  MUNICIPALITY_KR_TO_EN,
   toKoreanName,
+  canonicalProvince,
   cleanRegionName,
-  isSameRegion,
 } from '@/data/regionMappings';
 
 // ============================================================================
@@ -37,25 +59,65 @@ interface KoreaMapProps {
   data: Client[];
   /** 지도 타입: 'province' (시/도) | 'municipality' (시/군/구) */
   type: 'province' | 'municipality';
-  /** 색상 스키마: 'indigo' (교육청) | 'green' (지자체) */
-  colorScheme: 'indigo' | 'green';
+  /** 색상 스키마: 'indigo' (교육청) | 'green' (지자체) | 'blue' (중앙행정기관) | 'purple' (공공기관) | 'amber' (민간/대학) */
+  colorScheme: MapColorScheme;
   /** 지역 선택 시 호출되는 콜백 */
   onRegionSelect?: (region: string, data: AggregatedData | null) => void;
   /** PoC 판단 기준 금액 (기본값: 100,000원) */
   pocThreshold?: number;
   /** PoC 데이터 표시 여부 */
   showPoc?: boolean;
+  /** 조회 기간 (툴팁의 전월/전년 대비 증감 계산용) */
+  period?: Period;
+  /** 시/군/구 지도에서 이 시/도만 표시 (드릴다운) */
+  province?: string;
+  /** 기관별 마커 레이어 표시 여부 */
+  showMarkers?: boolean;
+  /** 색상 지표 (기본값: 사용금액) */
+  metric?: MapMetric;
+  /** 색상 스케일 종류 (기본값: 선형, 증감 지표는 항상 발산형) */
+  scaleType?: ColorScaleType;
+  /** 내보내기 이미지 제목 (기본값: 시/도명 또는 '전국' + 지표명) */
+  exportTitle?: string;
+  /** 테두리로 강조할 지역 집계 키 (시/도명 또는 regionPairKey, 검색 결과 선택 등) */
+  highlightRegion?: string;
+}
+
+/** 지도 확대/축소 조작 (지도를 그릴 때마다 새로 연결) */
+interface ZoomControls {
+  zoomBy: (factor: number) => void;
+  reset: () => void;
+  /** 지역 테두리 강조 (시/군/구는 소속 시/도로 줌인), null 이면 해제 */
+  highlight: (key: string | null) => void;
+}
+
+/** 지도 좌표에 놓인 기관 마커 */
+interface MarkerPoint {
+  client: Client;
+  x: number;
+  y: number;
+}
+
+/** 가까운 마커 묶음 (기관 1개면 단일 마커) */
+interface MarkerCluster {
+  x: number;
+  y: number;
+  charge: number;
+  items: MarkerPoint[];
+}
+
+/** 지도에 표시되지 않은 고객사 */
+interface UnmatchedClient {
+  client: Client;
+  reason: string;
 }
 
 // ============================================================================
 // 상수 정의
 // ============================================================================
 
-/** GeoJSON 데이터 URL */
-const GEOJSON_URLS = {
-  province: 'https://raw.githubusercontent.com/southkorea/southkorea-maps/master/gadm/json/skorea-provinces-geo.json',
-  municipality: 'https://raw.githubusercontent.com/southkorea/southkorea-maps/master/gadm/json/skorea-municipalities-geo.json',
-} as const;
+/** 경계 데이터 API (/api/boundaries, 번들 TopoJSON) */
+const BOUNDARY_API = '/api/boundaries';
 
 /** 최대 재시도 횟수 */
 const MAX_RETRIES = 3;
@@ -63,11 +125,26 @@ const MAX_RETRIES = 3;
 /** 재시도 간격 (ms) */
 const RETRY_DELAY = 1000;
 
-/** 색상 범위 설정 */
-const COLOR_RANGES = {
-  indigo: ['#e0e7ff', '#4f46e5'] as [string, string],
-  green: ['#d1fae5', '#059669'] as [string, string],
-} as const;
+/** 확대 배율 범위 */
+const ZOOM_SCALE_EXTENT: [number, number] = [1, 12];
+
+/** 줌 애니메이션 시간 (ms) */
+const ZOOM_DURATION = 750;
+
+/** 확대/축소 버튼 한 번의 배율 */
+const ZOOM_STEP = 1.5;
+
+/** 라벨 글자 크기 (px, 확대해도 화면상 크기 유지) */
+const LABEL_FONT_SIZE = 9;
+
+/** 마커 반지름 범위 (px, 사용금액 제곱근 비례) */
+const MARKER_RADIUS_RANGE: [number, number] = [3, 16];
+
+/** 이 거리(화면 px) 안의 마커는 하나로 묶음 */
+const CLUSTER_DISTANCE = 24;
+
+/** 같은 위치(영역 중심점)에 놓인 기관끼리 벌리는 간격 (지도 좌표) */
+const MARKER_SPREAD = 1.2;
 
 // ============================================================================
 // 유틸리티 함수
@@ -103,6 +180,61 @@ async function fetchWithRetry<T>(url: string, retries = MAX_RETRIES): Promise<T>
   }
 }
 
+/** 사용 중인 경계 버전 (페이지당 한 번 조회) */
+let activeVintagePromise: Promise<string> | null = null;
+
+/** 경계 데이터 캐시 (버전/단위별, 탭 전환·리렌더 시 다시 받지 않도록) */
+const boundaryCache = new Map<string, Promise<GeoJSON.FeatureCollection>>();
+
+/**
+ * 현재 경계 버전의 지도 데이터 로드 (실패하면 캐시에서 제거해 다음에 다시 시도)
+ */
+function loadBoundary(type: 'province' | 'municipality'): Promise<GeoJSON.FeatureCollection> {
+  activeVintagePromise ??= fetchWithRetry<{ active: string | null }>(BOUNDARY_API)
+    .then(({ active }) => {
+      if (!active) throw new Error('사용 가능한 경계 데이터가 없습니다');
+      return active;
+    })
+    .catch(error => {
+      activeVintagePromise = null;
+      throw error;
+    });
+
+  return activeVintagePromise.then(vintage => {
+    const cacheKey = `${vintage}/${type}`;
+    if (!boundaryCache.has(cacheKey)) {
+      const url = `${BOUNDARY_API}/${type}?vintage=${encodeURIComponent(vintage)}`;
+      boundaryCache.set(cacheKey, fetchWithRetry<Topology | GeoJSON.FeatureCollection>(url)
+        .then(toFeatureCollection)
+        .catch(error => {
+          boundaryCache.delete(cacheKey);
+          throw error;
+        }));
+    }
+    return boundaryCache.get(cacheKey)!;
+  });
+}
+
+/**
+ * 가까운 마커 묶기 (사용금액이 큰 마커를 중심으로 거리 안의 마커를 흡수)
+ * @param distance 지도 좌표 기준 거리 (화면 거리 / 확대 배율)
+ */
+function clusterMarkers(points: MarkerPoint[], distance: number): MarkerCluster[] {
+  const clusters: MarkerCluster[] = [];
+  const sorted = [...points].sort((a, b) => b.client.charge - a.client.charge);
+
+  for (const point of sorted) {
+    const cluster = clusters.find(c => Math.hypot(c.x - point.x, c.y - point.y) < distance);
+    if (cluster) {
+      cluster.items.push(point);
+      cluster.charge += point.client.charge;
+    } else {
+      clusters.push({ x: point.x, y: point.y, charge: point.client.charge, items: [point] });
+    }
+  }
+  return clusters;
+}
+
 // ============================================================================
 // 메인 컴포넌트
 // ============================================================================
@@ -114,15 +246,29 @@ export default function KoreaMap({
   onRegionSelect,
   pocThreshold = 100000,
   showPoc = true,
+  period,
+  province,
+  showMarkers = false,
+  metric = 'charge',
+  scaleType = 'linear',
+  exportTitle,
+  highlightRegion,
 }: KoreaMapProps) {
   // Refs
   const containerRef = useRef<HTMLDivElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
+  const zoomControlsRef = useRef<ZoomControls | null>(null);
+  /** 다시 그릴 때(기간 변경 등) 확대 상태 유지 */
+  const zoomTransformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+  const focusedProvinceRef = useRef<string | null>(province ?? null);
 
   // State
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  const [unmatched, setUnmatched] = useState<UnmatchedClient[]>([]);
+  const [focusedProvince, setFocusedProvince] = useState<string | null>(province ?? null);
+  const [exporting, setExporting] = useState(false);
 
   // ============================================================================
   // 데이터 집계 (메모이제이션)
@@ -130,103 +276,41 @@ export default function KoreaMap({
 
   /**
    * 지역별 데이터 집계
-   * 시/도 또는 시/군/구 단위로 그룹화하여 합계 계산
+   * 시/도 단위는 시/도명, 시/군/구 단위는 (시/도, 시/군/구) 쌍을 키로 합계 계산
    */
   const aggregatedData = useMemo(() => {
-    const result: Record<string, AggregatedData> = {};
-
-    data.forEach(item => {
-      // 시/도 단위면 region, 시/군/구 단위면 subRegion 사용
-      const key = type === 'province' ? item.region : (item.subRegion || item.region);
-      if (!key) return;
-
-      if (!result[key]) {
-        result[key] = { charge: 0, usage: 0, items: [] };
-      }
-      result[key].charge += item.charge;
-      result[key].usage += item.usage;
-      result[key].items.push(item);
-    });
-
-    return result;
+    return type === 'province' ? aggregateByRegion(data) : aggregateBySubRegion(data);
   }, [data, type]);
 
   /**
-   * 최대 사용금액 (색상 스케일용)
-   * 시/도: 1억원, 시/군/구: 1천만원 기준
+   * 색상 스케일 (지표·스케일 종류별, PoC 지역은 회색이므로 분포에서 제외, 내보내기 범례에도 사용)
    */
-  const maxCharge = useMemo(() => {
-    const dataMax = Math.max(...Object.values(aggregatedData).map(r => r.charge), 0);
-    const defaultMax = type === 'province' ? 100_000_000 : 10_000_000;
-    return Math.max(dataMax, defaultMax);
-  }, [aggregatedData, type]);
-
-  /**
-   * 색상 스케일 함수
-   */
-  const colorScale = useMemo(() => {
-    return d3.scaleLinear<string>()
-      .domain([0, maxCharge])
-      .range(COLOR_RANGES[colorScheme]);
-  }, [maxCharge, colorScheme]);
+  const mapScale = useMemo(() => {
+    return buildMapColorScale({
+      metric,
+      scaleType,
+      groups: Object.values(aggregatedData).filter(group => group.charge >= pocThreshold),
+      type,
+      range: COLOR_RANGES[colorScheme],
+      period,
+    });
+  }, [aggregatedData, metric, scaleType, type, colorScheme, pocThreshold, period]);
 
   // ============================================================================
   // 지역명 매칭 함수 (메모이제이션)
   // ============================================================================
 
   /**
-   * 시/도 지역명으로 데이터 찾기
-   * GeoJSON의 영어 지역명을 한글로 변환 후 매칭
-   */
-  const findProvinceData = useCallback((englishName: string): {
-    key: string;
-    data: AggregatedData;
-    koreanName: string;
-  } | null => {
-    const koreanName = toKoreanName(englishName, 'province');
-
-    // 1. 정확한 매칭 시도
-    if (aggregatedData[koreanName]) {
-      return { key: koreanName, data: aggregatedData[koreanName], koreanName };
-    }
-
-    // 2. 부분 매칭 시도 (접미사 제거 후 비교)
-    const matchKey = Object.keys(aggregatedData).find(key => isSameRegion(koreanName, key));
-
-    return matchKey
-      ? { key: matchKey, data: aggregatedData[matchKey], koreanName }
-      : null;
-  }, [aggregatedData]);
-
-  /**
-   * 시/군/구 지역명으로 데이터 찾기
-   * GeoJSON의 영어 NAME_2를 한글로 변환 후 매칭
+   * 지도 영역에 해당하는 집계 데이터 찾기
+   * 영역마다 집계 키가 하나로 정해지므로 부분 매칭은 하지 않습니다.
    */
-  const findMunicipalityData = useCallback((englishName2: string): {
-    key: string;
+  const findFeatureData = useCallback((d: GeoJSON.Feature): (FeatureKey & {
     data: AggregatedData;
-    koreanName: string;
-  } | null => {
-    // 영어 → 한글 변환 (역매핑)
-    const koreanName = Object.entries(MUNICIPALITY_KR_TO_EN)
-      .find(([, en]) => en === englishName2)?.[0] || englishName2;
-
-    // 1. 정확한 매칭 시도
-    if (aggregatedData[koreanName]) {
-      return { key: koreanName, data: aggregatedData[koreanName], koreanName };
-    }
-
-    // 2. 부분 매칭 시도
-    const cleanName = cleanRegionName(koreanName);
-    const matchKey = Object.keys(aggregatedData).find(key => {
-      const cleanKey = cleanRegionName(key);
-      return cleanKey === cleanName || cleanKey.includes(cleanName) || cleanName.includes(cleanKey);
-    });
-
-    return matchKey
-      ? { key: matchKey, data: aggregatedData[matchKey], koreanName }
-      : null;
-  }, [aggregatedData]);
+  }) | null => {
+    const featureKey = getFeatureKey(d, type);
+    if (!featureKey || !aggregatedData[featureKey.key]) return null;
+    return { ...featureKey, data: aggregatedData[featureKey.key] };
+  }, [aggregatedData, type]);
 
   // ============================================================================
   // 지도 그리기
@@ -254,8 +338,16 @@ export default function KoreaMap({
         .style('height', 'auto');
 
       try {
-        // GeoJSON 데이터 로드 (재시도 로직 포함)
-        const geojson = await fetchWithRetry<GeoJSON.FeatureCollection>(GEOJSON_URLS[type]);
+        // 경계 데이터 로드 (재시도 로직 포함, 버전/단위별 캐시)
+        const boundary = await loadBoundary(type);
+
+        // 드릴다운: 지정한 시/도의 시/군/구만 표시
+        const geojson: GeoJSON.FeatureCollection = province
+          ? { ...boundary, features: boundary.features.filter(d => getFeatureKey(d, type)?.parentName === province) }
+          : boundary;
+        if (geojson.features.length === 0) {
+          throw new Error(`경계 데이터에 ${province} 영역이 없습니다`);
+        }
 
         // 지도 투영 설정
         const projection = d3.geoMercator()
@@ -263,47 +355,79 @@ export default function KoreaMap({
 
         const path = d3.geoPath().projection(projection);
 
-        // SVG 그룹 생성 (지도 배경 / 라벨 분리로 hover 시 깜빡임 방지)
-        const mapGroup = svg.append('g').attr('class', 'map-background');
-        const labelGroup = svg.append('g').attr('class', 'labels');
-
-        /**
-         * GeoJSON Feature에서 지역명 추출
-         */
-        const getRegionName = (d: GeoJSON.Feature): string => {
-          if (type === 'municipality') {
-            return (d.properties?.NAME_2 || d.properties?.name || '') as string;
-          }
-          return (d.properties?.NAME_1 || d.properties?.name || '') as string;
-        };
+        // SVG 그룹 생성 (지도 배경 / 라벨 분리로 hover 시 깜빡임 방지, 둘 다 확대 그룹 안에 배치)
+        const zoomGroup = svg.append('g').attr('class', 'zoom-layer');
+        const mapGroup = zoomGroup.append('g').attr('class', 'map-background');
+        const labelGroup = zoomGroup.append('g').attr('class', 'labels');
+
+        // 지도에 없는 지역의 고객사 (시/군/구 정보 없음, 매핑 불가 등)
+        const featureKeys = new Set(
+          geojson.features.map(d => getFeatureKey(d, type)?.key).filter(Boolean)
+        );
+        setUnmatched(
+          Object.entries(aggregatedData)
+            .filter(([key]) => !featureKeys.has(key))
+            .flatMap(([, group]) => group.items.map(client => ({
+              client,
+              reason: !client.region
+                ? '지역 정보 없음'
+                : type === 'municipality' && !client.subRegion
+                  ? '시/군/구 정보 없음'
+                  : '지도에서 찾을 수 없는 지역',
+            })))
+        );
 
         /**
          * 지역의 채우기 색상 결정
          */
         const getFillColor = (d: GeoJSON.Feature): string => {
-          const name = getRegionName(d);
-          const match = type === 'province'
-            ? findProvinceData(name)
-            : findMunicipalityData(name);
+          const match = findFeatureData(d);
 
           if (!match) return '#f1f5f9'; // 데이터 없음: 연한 회색
           if (match.data.charge < pocThreshold) return '#cbd5e1'; // PoC: 중간 회색
-          return colorScale(match.data.charge);
+
+          const value = computeMapMetric(metric, match.data.items, period);
+          if (value === null) return '#f1f5f9'; // 지표 데이터 없음 (사용자 수 미입력 등)
+          return mapScale.color(value);
+        };
+
+        /**
+         * 전월(직전 기간) / 전년 대비 증감 툴팁 줄
+         */
+        const getGrowthHtml = (items: Client[]): string => {
+          if (!period) return '';
+          const momLabel = period.from === period.to ? '전월' : '직전기간';
+          const mom = comparePeriods(items, period, previousPeriod(period));
+          const yoy = comparePeriods(items, period, yearAgoPeriod(period));
+          return `
+            <br/>사용금액 ${growthToHtml(mom?.charge ?? null, momLabel, 'money')}
+            · ${growthToHtml(yoy?.charge ?? null, '전년', 'money')}
+            <br/>사용량 ${growthToHtml(mom?.usage ?? null, momLabel, 'number')}
+            · ${growthToHtml(yoy?.usage ?? null, '전년', 'number')}
+          `;
         };
 
         /**
          * 툴팁 내용 생성
          */
         const getTooltipContent = (d: GeoJSON.Feature): string => {
-          const name = getRegionName(d);
-          const name1 = (d.properties?.NAME_1 || '') as string;
-          const match = type === 'province'
-            ? findProvinceData(name)
-            : findMunicipalityData(name);
+          const featureKey = getFeatureKey(d, type);
+          const match = findFeatureData(d);
 
-          const displayName = match?.koreanName || toKoreanName(name, type);
+          const displayName = featureKey?.koreanName
+            || ((d.properties?.NAME_2 || d.properties?.NAME_1 || '') as string);
           const isPoc = match && match.data.charge < pocThreshold;
-          const parentRegion = type === 'municipality' ? toKoreanName(name1, 'province') : '';
+          const parentRegion = type === 'municipality'
+            ? toKoreanName((d.properties?.NAME_1 || '') as string, 'province')
+            : '';
+          const growthHtml = match ? getGrowthHtml(match.data.items) : '';
+
+          // 사용금액/사용량 외 지표는 값을 한 줄 추가
+          let metricHtml = '';
+          if (match && metric !== 'charge' && metric !== 'usage') {
+            const value = computeMapMetric(metric, match.data.items, period);
+            metricHtml = `${MAP_METRICS[metric].label}: ${value === null ? '데이터 없음' : MAP_METRICS[metric].format(value)}<br/>`;
+          }
 
           return `
             <div class="font-bold text-sm mb-1">
@@ -315,6 +439,8 @@ export default function KoreaMap({
               ${match ? `
                 사용금액: ${formatMoney(match.data.charge)}<br/>
                 사용량: ${match.data.usage.toLocaleString()}<br/>
+                ${metricHtml}
+                ${growthHtml}
                 ${match.data.items.length > 0 ? `<br/>📍 ${match.data.items.slice(0, 3).map(i => i.name).join(', ')}${match.data.items.length > 3 ? ` 외 ${match.data.items.length - 3}개` : ''}` : ''}
               ` : '데이터 없음'}
             </div>
@@ -330,6 +456,7 @@ export default function KoreaMap({
           .attr('fill', getFillColor)
           .attr('stroke', '#fff')
           .attr('stroke-width', type === 'province' ? 0.5 : 0.3)
+          .attr('vector-effect', 'non-scaling-stroke')
           .style('cursor', 'pointer')
           .style('transition', 'fill 0.15s')
           // 마우스 이벤트 핸들러
@@ -359,13 +486,17 @@ export default function KoreaMap({
             }
           })
           .on('click', function(event, d) {
-            const name = getRegionName(d);
-            const match = type === 'province'
-              ? findProvinceData(name)
-              : findMunicipalityData(name);
+            const featureKey = getFeatureKey(d, type);
+            if (!featureKey) return;
+
+            // 시/군/구 지도: 다른 시/도를 클릭하면 먼저 해당 시/도로 줌인
+            if (type === 'municipality' && featureKey.parentName !== focusedProvinceRef.current) {
+              zoomToProvince(featureKey.parentName!);
+              return;
+            }
 
-            const displayName = match?.koreanName || toKoreanName(name, type);
-            onRegionSelect?.(displayName, match?.data || null);
+            // 시/군/구는 동명 구 구분을 위해 시/도명 포함 (예: '서울특별시 강서구')
+            onRegionSelect?.(featureKey.key, findFeatureData(d)?.data || null);
           });
 
         // 시/도 단위일 때만 라벨 표시
@@ -377,27 +508,303 @@ export default function KoreaMap({
             .attr('x', d => path.centroid(d)[0])
             .attr('y', d => path.centroid(d)[1])
             .attr('text-anchor', 'middle')
-            .attr('font-size', '9px')
-            .attr('font-weight', d => findProvinceData(getRegionName(d)) ? '600' : '400')
-            .attr('fill', d => findProvinceData(getRegionName(d)) ? '#1e1b4b' : '#94a3b8')
+            .attr('font-size', `${LABEL_FONT_SIZE}px`)
+            .attr('font-weight', d => findFeatureData(d) ? '600' : '400')
+            .attr('fill', d => findFeatureData(d) ? '#1e1b4b' : '#94a3b8')
             .style('pointer-events', 'none') // 라벨이 클릭 이벤트를 가로채지 않도록
-            .text(d => {
-              const koreanName = toKoreanName(getRegionName(d), 'province');
-              return cleanRegionName(koreanName);
-            });
+            .text(d => cleanRegionName(getFeatureKey(d, 'province')!.koreanName));
         }
 
+        // ----------------------------------------------------------------------
+        // 확대/축소 (d3-zoom)
+        // ----------------------------------------------------------------------
+
+        /**
+         * 줌인한 시/도의 시/군/구 라벨 표시
+         * 한 시/군/구가 여러 영역(구가 있는 시)으로 나뉘면 가장 큰 영역에 한 번만 표시합니다.
+         */
+        const renderMunicipalityLabels = (provinceName: string | null) => {
+          labelGroup.selectAll('text').remove();
+          if (!provinceName) return;
+
+          const largest = new Map<string, { feature: GeoJSON.Feature; area: number; name: string }>();
+          for (const feature of geojson.features) {
+            const featureKey = getFeatureKey(feature, type);
+            if (featureKey?.parentName !== provinceName) continue;
+            const area = path.area(feature);
+            const current = largest.get(featureKey.key);
+            if (!current || area > current.area) {
+              largest.set(featureKey.key, { feature, area, name: featureKey.koreanName });
+            }
+          }
+
+          const k = zoomTransformRef.current.k;
+          labelGroup.selectAll('text')
+            .data([...largest.values()])
+            .enter()
+            .append('text')
+            .attr('x', d => path.centroid(d.feature)[0])
+            .attr('y', d => path.centroid(d.feature)[1])
+            .attr('text-anchor', 'middle')
+            .attr('font-size', `${LABEL_FONT_SIZE / k}px`)
+            .attr('font-weight', d => findFeatureData(d.feature) ? '600' : '400')
+            .attr('fill', d => findFeatureData(d.feature) ? '#1e293b' : '#64748b')
+            .style('pointer-events', 'none')
+            .text(d => d.name);
+        };
+
+        // ----------------------------------------------------------------------
+        // 기관 마커 (선택)
+        // ----------------------------------------------------------------------
+
+        const markerGroup = zoomGroup.append('g').attr('class', 'markers');
+
+        /**
+         * 기관 위치 계산: 좌표 테이블 → 시/군/구 중심점 → 시/도 중심점
+         * 같은 중심점에 놓인 기관은 나선형으로 조금씩 벌려 확대하면 구분되도록 합니다.
+         */
+        const locateClients = (): MarkerPoint[] => {
+          const featuresByKey = d3.group(geojson.features, d => getFeatureKey(d, type)?.key);
+          const featuresByProvince = d3.group(geojson.features, d => {
+            const featureKey = getFeatureKey(d, type);
+            return featureKey?.parentName ?? featureKey?.key;
+          });
+          const stacked = new Map<string, number>();
+
+          return data.flatMap(client => {
+            let coordinates = CLIENT_LOCATIONS[client.name]?.coordinates;
+            if (!coordinates) {
+              const region = client.region && canonicalProvince(client.region);
+              if (!region) return [];
+              const features = (type === 'municipality' && client.subRegion
+                && featuresByKey.get(regionPairKey(region, client.subRegion)))
+                || featuresByProvince.get(region);
+              if (!features) return [];
+              coordinates = d3.geoCentroid({ type: 'FeatureCollection', features }) as [number, number];
+            }
+
+            const projected = projection(coordinates);
+            if (!projected) return [];
+            const positionKey = projected.join(',');
+            const index = stacked.get(positionKey) ?? 0;
+            stacked.set(positionKey, index + 1);
+
+            const offset = MARKER_SPREAD * Math.sqrt(index);
+            const angle = index * 2.39996; // 황금각
+            return [{
+              client,
+              x: projected[0] + offset * Math.cos(angle),
+              y: projected[1] + offset * Math.sin(angle),
+            }];
+          });
+        };
+
+        const markerPoints = showMarkers ? locateClients() : [];
+        const markerRadius = d3.scaleSqrt()
+          .domain([0, d3.max(markerPoints, p => p.client.charge) || 1])
+          .range(MARKER_RADIUS_RANGE)
+          .clamp(true);
+
+        /**
+         * 마커 툴팁 내용 (단일 기관 / 묶음)
+         */
+        const getMarkerTooltipContent = (cluster: MarkerCluster): string => {
+          if (cluster.items.length === 1) {
+            const { client } = cluster.items[0];
+            const location = CLIENT_LOCATIONS[client.name];
+            return `
+              <div class="font-bold text-sm mb-1">
+                ${client.name}
+                ${client.charge < pocThreshold ? '<span class="text-xs font-normal text-amber-400">(PoC)</span>' : ''}
+                <span class="font-normal text-slate-400"> (${[client.region, client.subRegion].filter(Boolean).join(' ')})</span>
+              </div>
+              <div class="text-xs text-slate-300">
+                사용금액: ${formatMoney(client.charge)}<br/>
+                사용량: ${client.usage.toLocaleString()}<br/>
+                ${getGrowthHtml([client])}
+                ${location ? `<br/>📍 ${location.address}` : '<br/>📍 위치 미등록 (지역 중심에 표시)'}
+              </div>
+            `;
+          }
+
+          const names = cluster.items.map(p => p.client.name);
+          return `
+            <div class="font-bold text-sm mb-1">기관 ${names.length}곳</div>
+            <div class="text-xs text-slate-300">
+              사용금액: ${formatMoney(cluster.charge)}<br/>
+              📍 ${names.slice(0, 3).join(', ')}${names.length > 3 ? ` 외 ${names.length - 3}개` : ''}<br/>
+              <span class="text-slate-400">클릭하면 확대합니다</span>
+            </div>
+          `;
+        };
+
+        /**
+         * 현재 배율에 맞춰 마커 다시 그리기 (화면상 크기·묶음 거리 유지)
+         */
+        const renderMarkers = (k: number) => {
+          markerGroup.selectAll('*').remove();
+          if (markerPoints.length === 0) return;
+
+          const markerColor = COLOR_RANGES[colorScheme][1];
+          const markers = markerGroup.selectAll<SVGGElement, MarkerCluster>('g')
+            .data(clusterMarkers(markerPoints, CLUSTER_DISTANCE / k))
+            .enter()
+            .append('g')
+            .attr('transform', d => `translate(${d.x},${d.y})`)
+            .style('cursor', 'pointer');
+
+          markers.append('circle')
+            .attr('r', d => Math.max(markerRadius(d.charge), d.items.length > 1 ? 8 : 0) / k)
+            .attr('fill', d => d.items.length === 1 && d.charge < pocThreshold ? '#94a3b8' : markerColor)
+            .attr('fill-opacity', 0.75)
+            .attr('stroke', '#fff')
+            .attr('stroke-width', 1)
+            .attr('vector-effect', 'non-scaling-stroke');
+
+          markers.filter(d => d.items.length > 1)
+            .append('text')
+            .attr('text-anchor', 'middle')
+            .attr('dy', '0.35em')
+            .attr('font-size', `${LABEL_FONT_SIZE / k}px`)
+            .attr('font-weight', '700')
+            .attr('fill', '#fff')
+            .style('pointer-events', 'none')
+            .text(d => d.items.length);
+
+          markers
+            .on('mouseenter', function(event, d) {
+              if (tooltipRef.current) {
+                tooltipRef.current.innerHTML = getMarkerTooltipContent(d);
+                tooltipRef.current.style.opacity = '1';
+              }
+            })
+            .on('mousemove', function(event) {
+              if (tooltipRef.current) {
+                tooltipRef.current.style.left = `${event.pageX + 15}px`;
+                tooltipRef.current.style.top = `${event.pageY + 15}px`;
+              }
+            })
+            .on('mouseleave', function() {
+              if (tooltipRef.current) {
+                tooltipRef.current.style.opacity = '0';
+              }
+            })
+            .on('click', function(event, d) {
+              event.stopPropagation();
+
+              // 묶음: 소속 마커가 보이도록 확대
+              if (d.items.length > 1) {
+                const xs = d.items.map(p => p.x);
+                const ys = d.items.map(p => p.y);
+                zoomToBounds([[Math.min(...xs), Math.min(...ys)], [Math.max(...xs), Math.max(...ys)]]);
+                return;
+              }
+
+              const { client } = d.items[0];
+              onRegionSelect?.(client.name, { charge: client.charge, usage: client.usage, items: [client] });
+            });
+        };
+
+        const zoom = d3.zoom<SVGSVGElement, unknown>()
+          .scaleExtent(ZOOM_SCALE_EXTENT)
+          .translateExtent([[0, 0], [width, height]])
+          .on('zoom', (event: d3.D3ZoomEvent<SVGSVGElement, unknown>) => {
+            zoomTransformRef.current = event.transform;
+            zoomGroup.attr('transform', event.transform.toString());
+            labelGroup.selectAll('text').attr('font-size', `${LABEL_FONT_SIZE / event.transform.k}px`);
+            renderMarkers(event.transform.k);
+
+            // 휠/핀치로 전체 보기까지 축소하면 시/군/구 라벨 해제
+            if (event.sourceEvent && event.transform.k === 1) clearFocus();
+          });
+
+        const clearFocus = () => {
+          if (!focusedProvinceRef.current || province) return;
+          focusedProvinceRef.current = null;
+          setFocusedProvince(null);
+          renderMunicipalityLabels(null);
+        };
+
+        /**
+         * 시/도 영역에 맞춰 줌인 (애니메이션)
+         */
+        const zoomToProvince = (provinceName: string) => {
+          const features = geojson.features.filter(d => getFeatureKey(d, type)?.parentName === provinceName);
+          if (features.length === 0) return;
+
+          focusedProvinceRef.current = provinceName;
+          setFocusedProvince(provinceName);
+          zoomToBounds(path.bounds({ type: 'FeatureCollection', features }));
+          renderMunicipalityLabels(provinceName);
+        };
+
+        /**
+         * 지도 좌표 영역에 맞춰 줌인 (애니메이션, 최대 배율 제한)
+         */
+        const zoomToBounds = ([[x0, y0], [x1, y1]]: [[number, number], [number, number]]) => {
+          const scale = Math.min(
+            ZOOM_SCALE_EXTENT[1],
+            0.9 / Math.max((x1 - x0) / width, (y1 - y0) / height)
+          );
+          const transform = d3.zoomIdentity
+            .translate(width / 2, height / 2)
+            .scale(scale)
+            .translate(-(x0 + x1) / 2, -(y0 + y1) / 2);
+          svg.transition().duration(ZOOM_DURATION).call(zoom.transform, transform);
+        };
+
+        svg.call(zoom);
+        svg.call(zoom.transform, zoomTransformRef.current);
+        if (type === 'municipality') renderMunicipalityLabels(focusedProvinceRef.current);
+
+        // 강조 테두리 (마우스 이벤트를 가로채지 않도록 지도와 라벨 사이에 따로 그림)
+        const highlightGroup = zoomGroup.insert('g', '.labels')
+          .attr('class', 'highlight')
+          .style('pointer-events', 'none');
+
+        zoomControlsRef.current = {
+          zoomBy: (factor) => svg.transition().duration(ZOOM_DURATION / 2).call(zoom.scaleBy, factor),
+          reset: () => {
+            clearFocus();
+            svg.transition().duration(ZOOM_DURATION).call(zoom.transform, d3.zoomIdentity);
+          },
+          highlight: (key) => {
+            const features = key
+              ? geojson.features.filter(d => getFeatureKey(d, type)?.key === key)
+              : [];
+            highlightGroup.selectAll('path')
+              .data(features)
+              .join('path')
+              .attr('d', d => path(d) || '')
+              .attr('fill', 'none')
+              .attr('stroke', '#0f172a')
+              .attr('stroke-width', 2)
+              .attr('vector-effect', 'non-scaling-stroke');
+
+            const parentName = features.length > 0 ? getFeatureKey(features[0], type)?.parentName : undefined;
+            if (parentName && parentName !== focusedProvinceRef.current) zoomToProvince(parentName);
+          },
+        };
+
         setLoading(false);
         setRetryCount(0); // 성공 시 재시도 카운트 초기화
       } catch (err) {
         console.error('지도 렌더링 에러:', err);
-        setError('지도를 불러오는데 실패했습니다. 네트워크 연결을 확인해주세요.');
+        setError('지도를 불러오는데 실패했습니다. 경계 데이터 설정을 확인해주세요.');
         setLoading(false);
       }
     };
 
     drawMap();
-  }, [data, type, colorScheme, onRegionSelect, pocThreshold, showPoc, aggregatedData, colorScale, findProvinceData, findMunicipalityData]);
+  }, [data, type, colorScheme, onRegionSelect, pocThreshold, showPoc, period, province, showMarkers, metric, aggregatedData, mapScale, findFeatureData]);
+
+  /**
+   * 강조 지역 반영 (지도를 다시 그린 뒤에도 유지)
+   */
+  useEffect(() => {
+    if (loading) return;
+    zoomControlsRef.current?.highlight(highlightRegion ?? null);
+  }, [highlightRegion, loading]);
 
   // ============================================================================
   // 재시도 핸들러
@@ -410,6 +817,46 @@ export default function KoreaMap({
     // useEffect가 다시 실행되도록 상태 변경
   }, []);
 
+  // ============================================================================
+  // 내보내기 핸들러
+  // ============================================================================
+
+  const handleExport = useCallback(async (format: 'svg' | 'png') => {
+    const source = containerRef.current?.querySelector('svg');
+    if (!source) return;
+
+    setExporting(true);
+    try {
+      const vintage = await activeVintagePromise?.catch(() => null);
+      const title = exportTitle ?? `${province ?? '전국'} ${MAP_METRICS[metric].label}`;
+      const today = new Date().toLocaleDateString('ko-KR');
+      const exported = buildMapSvg(source, {
+        title,
+        subtitle: [period && `조회 기간 ${formatPeriod(period)}`, `작성일 ${today}`].filter(Boolean).join(' · '),
+        legendTitle: `${MAP_METRICS[metric].label} 기준`,
+        legend: mapScale.legend,
+        format: MAP_METRICS[metric].format,
+        notes: [
+          { color: '#f1f5f9', label: '데이터 없음' },
+          ...(showPoc ? [{ color: '#cbd5e1', label: `PoC (월 ${formatMoney(pocThreshold)} 미만)`, dashed: true }] : []),
+        ],
+        footnote: `자료: 고객사 청구 데이터${vintage ? ` · 지도 경계: ${vintage}` : ''}`,
+      });
+
+      const fileName = toFileName(title, period ? formatPeriod(period) : '');
+      if (format === 'svg') {
+        downloadSvg(exported, fileName);
+      } else {
+        await downloadPng(exported, fileName);
+      }
+    } catch (err) {
+      console.error('지도 내보내기 실패:', err);
+      alert('지도 내보내기에 실패했습니다. 다시 시도해주세요.');
+    } finally {
+      setExporting(false);
+    }
+  }, [exportTitle, province, metric, period, mapScale, showPoc, pocThreshold]);
+
   // ============================================================================
   // 렌더링
   // ============================================================================
@@ -447,6 +894,77 @@ export default function KoreaMap({
         )}
       </div>
 
+      {/* 확대/축소 버튼 */}
+      {!loading && !error && (
+        <div className="absolute top-2 right-2 flex items-center gap-1">
+          {focusedProvince && !province && (
+            <span className="px-2 py-1 text-xs bg-white/90 border border-slate-200 rounded-lg text-slate-600">
+              {focusedProvince}
+            </span>
+          )}
+          <div className="flex flex-col bg-white/90 border border-slate-200 rounded-lg overflow-hidden text-slate-600">
+            <button
+              onClick={() => zoomControlsRef.current?.zoomBy(ZOOM_STEP)}
+              className="w-7 h-7 hover:bg-slate-100"
+              title="확대"
+            >
+              +
+            </button>
+            <button
+              onClick={() => zoomControlsRef.current?.zoomBy(1 / ZOOM_STEP)}
+              className="w-7 h-7 hover:bg-slate-100 border-t border-slate-200"
+              title="축소"
+            >
+              −
+            </button>
+            <button
+              onClick={() => zoomControlsRef.current?.reset()}
+              className="w-7 h-7 hover:bg-slate-100 border-t border-slate-200 text-xs"
+              title="전체 보기"
+            >
+              ⟲
+            </button>
+          </div>
+          <div className="flex flex-col bg-white/90 border border-slate-200 rounded-lg overflow-hidden text-slate-600 self-start">
+            <button
+              onClick={() => handleExport('svg')}
+              disabled={exporting}
+              className="px-1.5 h-7 hover:bg-slate-100 text-[10px] font-semibold disabled:opacity-50"
+              title="SVG 로 내보내기 (제목·범례 포함)"
+            >
+              SVG
+            </button>
+            <button
+              onClick={() => handleExport('png')}
+              disabled={exporting}
+              className="px-1.5 h-7 hover:bg-slate-100 border-t border-slate-200 text-[10px] font-semibold disabled:opacity-50"
+              title="PNG 로 내보내기 (제목·범례 포함)"
+            >
+              PNG
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* 지도에 표시되지 않은 고객사 */}
+      {!loading && !error && unmatched.length > 0 && (
+        <details className="mt-2 text-xs text-slate-500">
+          <summary className="cursor-pointer hover:text-slate-700">
+            ⚠️ 지도에 표시되지 않은 고객사 {unmatched.length}곳
+          </summary>
+          <ul className="mt-1.5 space-y-0.5 max-h-40 overflow-y-auto">
+            {unmatched.map(({ client, reason }) => (
+              <li key={client.name}>
+                {client.name}
+                <span className="text-slate-400">
+                  {' '}· {[client.region, client.subRegion].filter(Boolean).join(' ') || '-'} · {reason}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
       {/* 툴팁 */}
       <div
         ref={tooltipRef}
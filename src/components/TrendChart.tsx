@@ -0,0 +1,295 @@
+'use client';
+
+/**
+ * TrendChart 컴포넌트
+ *
+ * D3.js를 사용하여 월별 사용금액(영역)과 사용량(점선)의 추이를 렌더링합니다.
+ * - 기본 모드: 축, 범례, 선택 기간 강조 표시
+ * - compact 모드: 카드용 스파크라인 (축 없음)
+ *
+ * @component
+ * @example
+ * <TrendChart
+ *   series={buildTrendSeries(items, months)}
+ *   colorScheme="indigo"
+ *   highlight={period}
+ * />
+ */
+
+import { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { TrendPoint, Period, formatMoney, formatMonth } from '@/data/clients';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+interface TrendChartProps {
+  /** 월별 데이터 (월 오름차순) */
+  series: TrendPoint[];
+  /** 색상 스키마 (탭 색상과 동일) */
+  colorScheme: 'indigo' | 'green' | 'blue' | 'purple' | 'amber';
+  /** 차트 높이 (px) */
+  height?: number;
+  /** 스파크라인 모드 (축/범례 생략) */
+  compact?: boolean;
+  /** 강조 표시할 기간 (현재 조회 기간) */
+  highlight?: Period;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+/** 색상 스키마별 선/영역 색상 */
+const TREND_COLORS = {
+  indigo: '#4f46e5',
+  green: '#059669',
+  blue: '#2563eb',
+  purple: '#9333ea',
+  amber: '#d97706',
+} as const;
+
+/** 사용량 선 색상 */
+const USAGE_COLOR = '#64748b';
+
+/**
+ * 축 라벨용 월 표기
+ * @example formatMonthTick('2026-01') // '26.1'
+ */
+const formatMonthTick = (month: string) => {
+  const [year, mon] = month.split('-');
+  return `${year.slice(2)}.${Number(mon)}`;
+};
+
+// ============================================================================
+// 메인 컴포넌트
+// ============================================================================
+
+export default function TrendChart({
+  series,
+  colorScheme,
+  height = 160,
+  compact = false,
+  highlight,
+}: TrendChartProps) {
+  // Refs
+  const containerRef = useRef<HTMLDivElement>(null);
+  const tooltipRef = useRef<HTMLDivElement>(null);
+
+  const hasTrend = series.length >= 2;
+
+  // ============================================================================
+  // 차트 그리기
+  // ============================================================================
+
+  useEffect(() => {
+    if (!containerRef.current || !hasTrend) return;
+
+    const container = d3.select(containerRef.current);
+    container.selectAll('svg').remove();
+
+    const width = containerRef.current.getBoundingClientRect().width;
+    const margin = compact
+      ? { top: 4, right: 4, bottom: 4, left: 4 }
+      : { top: 10, right: 44, bottom: 22, left: 48 };
+    const color = TREND_COLORS[colorScheme];
+
+    const svg = container
+      .append('svg')
+      .attr('viewBox', `0 0 ${width} ${height}`)
+      .attr('preserveAspectRatio', 'xMidYMid meet')
+      .style('width', '100%')
+      .style('height', `${height}px`);
+
+    // 스케일 설정
+    const months = series.map(d => d.month);
+    const x = d3.scalePoint<string>()
+      .domain(months)
+      .range([margin.left, width - margin.right]);
+    const yCharge = d3.scaleLinear()
+      .domain([0, d3.max(series, d => d.charge) || 1])
+      .nice()
+      .range([height - margin.bottom, margin.top]);
+    const yUsage = d3.scaleLinear()
+      .domain([0, d3.max(series, d => d.usage) || 1])
+      .nice()
+      .range([height - margin.bottom, margin.top]);
+
+    // 선택 기간 강조
+    if (highlight) {
+      const step = x.step();
+      const inRange = months.filter(m => m >= highlight.from && m <= highlight.to);
+      if (inRange.length > 0) {
+        const x0 = Math.max(margin.left, x(inRange[0])! - step / 2);
+        const x1 = Math.min(width - margin.right, x(inRange[inRange.length - 1])! + step / 2);
+        svg.append('rect')
+          .attr('x', x0)
+          .attr('y', margin.top)
+          .attr('width', Math.max(x1 - x0, 2))
+          .attr('height', height - margin.top - margin.bottom)
+          .attr('fill', color)
+          .attr('opacity', 0.08);
+      }
+    }
+
+    // 축 (기본 모드)
+    if (!compact) {
+      const tickEvery = Math.ceil(months.length / 8);
+      svg.append('g')
+        .attr('transform', `translate(0,${height - margin.bottom})`)
+        .call(
+          d3.axisBottom(x)
+            .tickValues(months.filter((_, i) => i % tickEvery === 0))
+            .tickFormat(formatMonthTick)
+            .tickSizeOuter(0)
+        )
+        .call(g => g.selectAll('text').attr('font-size', '9px').attr('fill', '#94a3b8'))
+        .call(g => g.selectAll('line,path').attr('stroke', '#e2e8f0'));
+
+      svg.append('g')
+        .attr('transform', `translate(${margin.left},0)`)
+        .call(d3.axisLeft(yCharge).ticks(4).tickFormat(d => formatMoney(Number(d))))
+        .call(g => g.select('.domain').remove())
+        .call(g => g.selectAll('text').attr('font-size', '9px').attr('fill', color))
+        .call(g => g.selectAll('line').attr('stroke', '#e2e8f0'));
+
+      svg.append('g')
+        .attr('transform', `translate(${width - margin.right},0)`)
+        .call(d3.axisRight(yUsage).ticks(4).tickFormat(d3.format('~s')))
+        .call(g => g.select('.domain').remove())
+        .call(g => g.selectAll('text').attr('font-size', '9px').attr('fill', USAGE_COLOR))
+        .call(g => g.selectAll('line').attr('stroke', '#e2e8f0'));
+    }
+
+    // 사용금액 영역 + 선
+    const area = d3.area<TrendPoint>()
+      .x(d => x(d.month)!)
+      .y0(yCharge(0))
+      .y1(d => yCharge(d.charge))
+      .curve(d3.curveMonotoneX);
+    const chargeLine = d3.line<TrendPoint>()
+      .x(d => x(d.month)!)
+      .y(d => yCharge(d.charge))
+      .curve(d3.curveMonotoneX);
+    const usageLine = d3.line<TrendPoint>()
+      .x(d => x(d.month)!)
+      .y(d => yUsage(d.usage))
+      .curve(d3.curveMonotoneX);
+
+    svg.append('path')
+      .datum(series)
+      .attr('d', area)
+      .attr('fill', color)
+      .attr('opacity', 0.15);
+    svg.append('path')
+      .datum(series)
+      .attr('d', chargeLine)
+      .attr('fill', 'none')
+      .attr('stroke', color)
+      .attr('stroke-width', compact ? 1.5 : 2);
+    svg.append('path')
+      .datum(series)
+      .attr('d', usageLine)
+      .attr('fill', 'none')
+      .attr('stroke', USAGE_COLOR)
+      .attr('stroke-width', 1)
+      .attr('stroke-dasharray', '3,2');
+
+    // 마우스 오버: 가장 가까운 월 표시
+    const guide = svg.append('line')
+      .attr('y1', margin.top)
+      .attr('y2', height - margin.bottom)
+      .attr('stroke', '#94a3b8')
+      .attr('stroke-width', 1)
+      .style('opacity', 0)
+      .style('pointer-events', 'none');
+    const dot = svg.append('circle')
+      .attr('r', 3)
+      .attr('fill', color)
+      .style('opacity', 0)
+      .style('pointer-events', 'none');
+
+    svg.append('rect')
+      .attr('x', margin.left)
+      .attr('y', margin.top)
+      .attr('width', width - margin.left - margin.right)
+      .attr('height', height - margin.top - margin.bottom)
+      .attr('fill', 'transparent')
+      .on('mousemove', function(event) {
+        const [mx] = d3.pointer(event);
+        const point = series.reduce((nearest, d) =>
+          Math.abs(x(d.month)! - mx) < Math.abs(x(nearest.month)! - mx) ? d : nearest
+        );
+        const px = x(point.month)!;
+
+        guide.attr('x1', px).attr('x2', px).style('opacity', 1);
+        dot.attr('cx', px).attr('cy', yCharge(point.charge)).style('opacity', 1);
+
+        if (tooltipRef.current) {
+          tooltipRef.current.innerHTML = `
+            <div class="font-bold text-xs mb-0.5">${formatMonth(point.month)}</div>
+            <div class="text-xs text-slate-300">
+              사용금액: ${formatMoney(point.charge)}<br/>
+              사용량: ${point.usage.toLocaleString()}
+            </div>
+          `;
+          tooltipRef.current.style.left = `${event.clientX + 12}px`;
+          tooltipRef.current.style.top = `${event.clientY + 12}px`;
+          tooltipRef.current.style.opacity = '1';
+        }
+      })
+      .on('mouseleave', function() {
+        guide.style('opacity', 0);
+        dot.style('opacity', 0);
+        if (tooltipRef.current) {
+          tooltipRef.current.style.opacity = '0';
+        }
+      });
+  }, [series, colorScheme, height, compact, highlight, hasTrend]);
+
+  // ============================================================================
+  // 렌더링
+  // ============================================================================
+
+  if (!hasTrend) {
+    return (
+      <div
+        className="flex items-center justify-center text-xs text-slate-400 bg-slate-50/60 rounded-lg"
+        style={{ height: compact ? height : Math.min(height, 60) }}
+      >
+        {compact ? '추이 데이터 부족' : '추이 데이터 부족 (2개월 이상 필요)'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div ref={containerRef} className="w-full" />
+
+      {/* 범례 (기본 모드) */}
+      {!compact && (
+        <div className="flex items-center gap-3 mt-1 text-xs text-slate-400">
+          <span className="flex items-center gap-1">
+            <span
+              className="inline-block w-3 h-2 rounded-sm"
+              style={{ background: TREND_COLORS[colorScheme], opacity: 0.6 }}
+            />
+            사용금액
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 border-t border-dashed border-slate-500" />
+            사용량
+          </span>
+        </div>
+      )}
+
+      {/* 툴팁 */}
+      <div
+        ref={tooltipRef}
+        className="fixed bg-slate-900 text-white px-3 py-2 rounded-lg shadow-xl z-50 pointer-events-none opacity-0 transition-opacity"
+        style={{ opacity: 0 }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * 기관 위치 테이블 (지도 마커용)
+ *
+ * 외부 지오코딩 API 없이 기관별 마커를 표시하기 위한 로컬 주소/좌표 목록입니다.
+ * 좌표는 기관 본부 주소 기준 근삿값(WGS84 경도, 위도)입니다.
+ * 테이블에 없는 기관은 지도에서 시/군/구 → 시/도 영역의 중심점에 표시합니다.
+ */
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export interface ClientLocation {
+  /** 도로명 주소 */
+  address: string;
+  /** [경도, 위도] */
+  coordinates: [number, number];
+}
+
+// ============================================================================
+// 기관별 위치
+// ============================================================================
+
+export const CLIENT_LOCATIONS: Record<string, ClientLocation> = {
+  // 교육청
+  '서울시교육청': { address: '서울특별시 종로구 송월길 48', coordinates: [126.9686, 37.5720] },
+  '경상북도교육청': { address: '경상북도 안동시 풍천면 도청대로 511', coordinates: [128.5000, 36.5660] },
+  '전라남도교육청': { address: '전라남도 무안군 삼향읍 어진누리길 10', coordinates: [126.4640, 34.8160] },
+  '부산교육청': { address: '부산광역시 부산진구 화지로 12', coordinates: [129.0560, 35.1640] },
+
+  // 중앙행정기관
+  '통일부': { address: '서울특별시 종로구 세종대로 209 (정부서울청사)', coordinates: [126.9753, 37.5753] },
+  '기후부': { address: '세종특별자치시 도움6로 11 (정부세종청사)', coordinates: [127.2620, 36.5040] },
+  '농림축산검역본부': { address: '경상북도 김천시 혁신8로 177', coordinates: [128.1510, 36.1160] },
+  '대한민국정부': { address: '서울특별시 종로구 세종대로 209 (정부서울청사)', coordinates: [126.9753, 37.5753] },
+
+  // 공공기관
+  '국립공원공단': { address: '강원특별자치도 원주시 혁신로 22', coordinates: [127.9830, 37.3190] },
+  '서울경제진흥원': { address: '서울특별시 마포구 매봉산로 31', coordinates: [126.8886, 37.5790] },
+  '제주개발공사': { address: '제주특별자치도 제주시 조천읍 남조로 1717-35', coordinates: [126.6664, 33.4341] },
+  '한국개발연구원': { address: '세종특별자치시 남세종로 263', coordinates: [127.3020, 36.4950] },
+  '한국전기안전공사': { address: '전북특별자치도 완주군 이서면 오공로 10', coordinates: [127.0470, 35.8240] },
+  '한국산업은행': { address: '서울특별시 영등포구 은행로 14', coordinates: [126.9260, 37.5280] },
+  '소마미술관': { address: '서울특별시 송파구 올림픽로 424 (올림픽공원)', coordinates: [127.1180, 37.5190] },
+  '대구2.28기념학생도서관': { address: '대구광역시 중구 2·28길 9', coordinates: [128.5880, 35.8620] },
+  '한국농수산식품유통공사': { address: '전라남도 나주시 문화로 227', coordinates: [126.7880, 35.0200] },
+  '공무원연금공단': { address: '제주특별자치도 서귀포시 서호북로 36', coordinates: [126.5230, 33.2630] },
+  '서귀포예술의전당': { address: '제주특별자치도 서귀포시 태평로 270', coordinates: [126.5440, 33.2520] },
+  '한국마사회': { address: '경기도 과천시 경마공원대로 107', coordinates: [127.0190, 37.4440] },
+  '한전KPS': { address: '전라남도 나주시 문화로 211', coordinates: [126.7870, 35.0210] },
+
+  // 대학교
+  '숭의여자대학교': { address: '서울특별시 중구 소파로2길 10', coordinates: [126.9810, 37.5560] },
+};
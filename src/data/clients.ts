@@ -1,3 +1,5 @@
+import { canonicalProvince } from '@/data/regionMappings';
+
 // ============================================================================
 // 계약 정보 타입 정의
 // ============================================================================
@@ -36,9 +38,17 @@ export interface ContractInfo {
   channel?: ContractChannel;    // 계약 채널
   payment?: PaymentMethod;      // 정산 방식
   billing?: BillingType;        // 과금 방식
+  contractDate?: string;        // 계약일 (YYYY-MM-DD)
   note?: string;                // 메모
 }
 
+/**
+ * 계약 구분(채널 / 정산 / 과금)이 하나라도 입력되었는지
+ */
+export function hasContractInfo(info?: ContractInfo): boolean {
+  return Boolean(info && (info.channel || info.payment || info.billing));
+}
+
 // ============================================================================
 // 레이블 정의
 // ============================================================================
@@ -135,167 +145,522 @@ export const CONTRACT_EXAMPLES: Record<string, string[]> = {
   'simple+narabill+usage': ['통일부'],
 };
 
+// ============================================================================
+// 고객사 데이터 타입 정의
+// ============================================================================
+
 /**
- * 고객사 데이터 인터페이스
+ * 월 키 ('YYYY-MM' 형식, 예: '2026-01')
+ */
+export type MonthKey = string;
+
+/**
+ * 월별 지표
+ */
+export interface MonthlyMetrics {
+  charge: number;
+  usage: number;
+  activeUsers?: number;   // 활성사용자수 (해당 월 기준)
+  totalUsers?: number;    // 전체가입자수 (해당 월 기준)
+}
+
+/**
+ * 월별 시계열 (월 키 → 지표)
+ */
+export type MonthlySeries = Record<MonthKey, MonthlyMetrics>;
+
+/**
+ * 조회 기간 (from ~ to, 양 끝 포함)
+ * 단일 월은 from === to
  */
-export interface Client {
+export interface Period {
+  from: MonthKey;
+  to: MonthKey;
+}
+
+/**
+ * 고객사 원본 레코드 (월별 시계열 보관)
+ */
+export interface ClientRecord {
   name: string;
   region?: string;
   subRegion?: string;
+  monthly: MonthlySeries;
+}
+
+/**
+ * 고객사 분류
+ * - 교육청 / 지자체(시/군/구) / 중앙행정기관 / 시도청 / 공공기관 / 민간 / 대학
+ */
+export type ClientCategory =
+  | 'education'
+  | 'local'
+  | 'central'
+  | 'province'
+  | 'public'
+  | 'private'
+  | 'university';
+
+export const CLIENT_CATEGORY_LABELS: Record<ClientCategory, string> = {
+  education: '교육청',
+  local: '지자체',
+  central: '중앙행정기관',
+  province: '시도청',
+  public: '공공기관',
+  private: '민간',
+  university: '대학',
+};
+
+/**
+ * 알려진 고객사 분류인지 (요청 / 업로드 값 검증용)
+ * `in` 은 constructor 같은 프로토타입 속성도 통과시키므로 자체 속성만 확인합니다.
+ */
+export function isClientCategory(value: unknown): value is ClientCategory {
+  return typeof value === 'string' && Object.hasOwn(CLIENT_CATEGORY_LABELS, value);
+}
+
+/**
+ * 분류가 지정된 고객사 레코드 (API / 저장소 단위)
+ */
+export interface CategorizedRecord extends ClientRecord {
+  category: ClientCategory;
+}
+
+/**
+ * 고객사 데이터 인터페이스
+ * charge/usage/activeUsers/totalUsers 는 선택한 기간 기준으로 계산된 값입니다.
+ */
+export interface Client extends ClientRecord {
   charge: number;
   usage: number;
   activeUsers?: number;   // 활성사용자수
   totalUsers?: number;    // 전체가입자수
+  months: number;         // 기간 내 청구 개월 수 (월평균 계산용)
 }
 
+// ============================================================================
+// 고객사 데이터 (월별 청구 기준)
+// ============================================================================
+
+/**
+ * 청구 데이터 기관명 별칭 → 대시보드 기관명
+ * 청구 시스템에서 분리되어 있지만 하나의 고객사로 관리하는 계정들입니다.
+ * (월별 가져오기 시 합산)
+ */
+export const CLIENT_NAME_ALIASES: Record<string, string> = {
+  '울산교육청 우리아이': '울산교육청',
+  '울산광역시교육청': '울산교육청',
+};
+
+// 서버 저장소(src/lib/clientStore.ts)의 초기 시드 데이터로 사용됩니다.
+// 화면은 /api/clients 를 통해 데이터를 불러오므로 직접 import 하지 마세요.
+
 // 교육청 (시/도 단위)
-export const educationData: Client[] = [
-  { name: "서울시교육청", region: "서울특별시", charge: 106292168, usage: 534491, activeUsers: 9314, totalUsers: 39249 },
-  { name: "경상북도교육청", region: "경상북도", charge: 57704414, usage: 240524, activeUsers: 3152, totalUsers: 6702 },
-  { name: "전라남도교육청", region: "전라남도", charge: 19096923, usage: 70416, activeUsers: 1179, totalUsers: 2680 },
-  { name: "부산교육청", region: "부산광역시", charge: 14749784, usage: 104585, activeUsers: 3731, totalUsers: 24021 },
-  { name: "울산교육청", region: "울산광역시", charge: 1910508, usage: 6490, activeUsers: 362, totalUsers: 457 },
-  { name: "세종특별자치시교육청", region: "세종특별자치시", charge: 92657, usage: 379 },
-  { name: "충청북도교육청", region: "충청북도", charge: 2983, usage: 21 },
-  { name: "대전광역시교육청", region: "대전광역시", charge: 1794, usage: 13, totalUsers: 58 },
-  { name: "인천광역시교육청(Demo)", region: "인천광역시", charge: 883, usage: 3 },
-];
+export const educationData: Client[] = resolveLatest([
+  { name: "서울시교육청", region: "서울특별시", monthly: { "2026-01": { charge: 106292168, usage: 534491, activeUsers: 9314, totalUsers: 39249 } } },
+  { name: "경상북도교육청", region: "경상북도", monthly: { "2026-01": { charge: 57704414, usage: 240524, activeUsers: 3152, totalUsers: 6702 } } },
+  { name: "전라남도교육청", region: "전라남도", monthly: { "2026-01": { charge: 19096923, usage: 70416, activeUsers: 1179, totalUsers: 2680 } } },
+  { name: "부산교육청", region: "부산광역시", monthly: { "2026-01": { charge: 14749784, usage: 104585, activeUsers: 3731, totalUsers: 24021 } } },
+  { name: "울산교육청", region: "울산광역시", monthly: { "2026-01": { charge: 1910508, usage: 6490, activeUsers: 362, totalUsers: 457 } } },
+  { name: "세종특별자치시교육청", region: "세종특별자치시", monthly: { "2026-01": { charge: 92657, usage: 379 } } },
+  { name: "충청북도교육청", region: "충청북도", monthly: { "2026-01": { charge: 2983, usage: 21 } } },
+  { name: "대전광역시교육청", region: "대전광역시", monthly: { "2026-01": { charge: 1794, usage: 13, totalUsers: 58 } } },
+  { name: "인천광역시교육청(Demo)", region: "인천광역시", monthly: { "2026-01": { charge: 883, usage: 3 } } },
+]);
 
 // 중앙행정기관
-export const centralGovData: Client[] = [
-  { name: "기후부", region: "세종특별자치시", charge: 2304660, usage: 23565 },
-  { name: "통일부", region: "서울특별시", charge: 440601, usage: 2220 },
-  { name: "농림축산검역본부 동물질병관리부", region: "경기도", subRegion: "김천시", charge: 335903, usage: 720 },
-  { name: "농림축산검역본부 영남지역본부", region: "경상북도", charge: 292824, usage: 1461 },
-  { name: "농림축산검역본부 식물검역부", region: "경기도", charge: 214686, usage: 1112 },
-  { name: "농림축산검역본부 인천공항지역본부", region: "인천광역시", charge: 132047, usage: 301 },
-  { name: "농림축산검역본부 서울지역본부", region: "서울특별시", charge: 91148, usage: 250 },
-  { name: "농림축산검역본부 중부지역본부", region: "경기도", charge: 72516, usage: 190 },
-  { name: "농림축산검역본부 호남지역본부", region: "전라북도", charge: 58736, usage: 161 },
-  { name: "농림축산검역본부", region: "경기도", subRegion: "김천시", charge: 32587, usage: 371 },
-  { name: "농림축산검역본부 제주지역본부", region: "제주특별자치도", charge: 17186, usage: 154 },
-  { name: "대한민국정부", region: "서울특별시", charge: 243, usage: 7 },
-];
+export const centralGovData: Client[] = resolveLatest([
+  { name: "기후부", region: "세종특별자치시", monthly: { "2026-01": { charge: 2304660, usage: 23565 } } },
+  { name: "통일부", region: "서울특별시", monthly: { "2026-01": { charge: 440601, usage: 2220 } } },
+  { name: "농림축산검역본부 동물질병관리부", region: "경기도", subRegion: "김천시", monthly: { "2026-01": { charge: 335903, usage: 720 } } },
+  { name: "농림축산검역본부 영남지역본부", region: "경상북도", monthly: { "2026-01": { charge: 292824, usage: 1461 } } },
+  { name: "농림축산검역본부 식물검역부", region: "경기도", monthly: { "2026-01": { charge: 214686, usage: 1112 } } },
+  { name: "농림축산검역본부 인천공항지역본부", region: "인천광역시", monthly: { "2026-01": { charge: 132047, usage: 301 } } },
+  { name: "농림축산검역본부 서울지역본부", region: "서울특별시", monthly: { "2026-01": { charge: 91148, usage: 250 } } },
+  { name: "농림축산검역본부 중부지역본부", region: "경기도", monthly: { "2026-01": { charge: 72516, usage: 190 } } },
+  { name: "농림축산검역본부 호남지역본부", region: "전라북도", monthly: { "2026-01": { charge: 58736, usage: 161 } } },
+  { name: "농림축산검역본부", region: "경기도", subRegion: "김천시", monthly: { "2026-01": { charge: 32587, usage: 371 } } },
+  { name: "농림축산검역본부 제주지역본부", region: "제주특별자치도", monthly: { "2026-01": { charge: 17186, usage: 154 } } },
+  { name: "대한민국정부", region: "서울특별시", monthly: { "2026-01": { charge: 243, usage: 7 } } },
+]);
 
 // 시/도청 (광역 지자체)
-export const provinceGovData: Client[] = [
-  { name: "충청북도", region: "충청북도", charge: 34317, usage: 268 },
-  { name: "경상남도청", region: "경상남도", charge: 15462, usage: 27 },
-];
+export const provinceGovData: Client[] = resolveLatest([
+  { name: "충청북도", region: "충청북도", monthly: { "2026-01": { charge: 34317, usage: 268 } } },
+  { name: "경상남도청", region: "경상남도", monthly: { "2026-01": { charge: 15462, usage: 27 } } },
+]);
 
 // 지자체 (시/군/구 - 기초 지자체)
-export const localGovData: Client[] = [
-  { name: "수원특례시청", region: "경기도", subRegion: "수원시", charge: 10287387, usage: 54714 },
-  { name: "창원특례시", region: "경상남도", subRegion: "창원시", charge: 9714009, usage: 73385 },
-  { name: "강동구청", region: "서울특별시", subRegion: "강동구", charge: 3993167, usage: 24797 },
-  { name: "서초구청", region: "서울특별시", subRegion: "서초구", charge: 3973222, usage: 20281 },
-  { name: "영등포구청", region: "서울특별시", subRegion: "영등포구", charge: 3108248, usage: 18033 },
-  { name: "성북구청", region: "서울특별시", subRegion: "성북구", charge: 2793432, usage: 20618 },
-  { name: "장성군청", region: "전라남도", subRegion: "장성군", charge: 2497221, usage: 14979 },
-  { name: "광주광역시 동구청", region: "광주광역시", subRegion: "동구", charge: 2236987, usage: 13861 },
-  { name: "성동구청", region: "서울특별시", subRegion: "성동구", charge: 2153298, usage: 20775 },
-  { name: "음성군청", region: "충청북도", subRegion: "음성군", charge: 1986386, usage: 17770 },
-  { name: "송파구청", region: "서울특별시", subRegion: "송파구", charge: 1952891, usage: 13380 },
-  { name: "동작구청", region: "서울특별시", subRegion: "동작구", charge: 1718474, usage: 14304 },
-  { name: "사천시", region: "경상남도", subRegion: "사천시", charge: 1166959, usage: 8726 },
-  { name: "강남구청", region: "서울특별시", subRegion: "강남구", charge: 1134954, usage: 10595 },
-  { name: "광진구청", region: "서울특별시", subRegion: "광진구", charge: 1115933, usage: 13341 },
-  { name: "강서구청", region: "서울특별시", subRegion: "강서구", charge: 1083216, usage: 8744 },
-  { name: "서산시청", region: "충청남도", subRegion: "서산시", charge: 932163, usage: 9733 },
-  { name: "남해군청", region: "경상남도", subRegion: "남해군", charge: 881206, usage: 7859 },
-  { name: "하동군", region: "경상남도", subRegion: "하동군", charge: 767328, usage: 6910 },
-  { name: "광양시청", region: "전라남도", subRegion: "광양시", charge: 650583, usage: 10368 },
-  { name: "대전광역시 중구", region: "대전광역시", subRegion: "중구", charge: 630397, usage: 2301 },
-  { name: "용산구청", region: "서울특별시", subRegion: "용산구", charge: 565038, usage: 2607 },
-  { name: "옥천군청", region: "충청북도", subRegion: "옥천군", charge: 417395, usage: 2209 },
-  { name: "의왕시청", region: "경기도", subRegion: "의왕시", charge: 306002, usage: 9685 },
-  { name: "동작구청+", region: "서울특별시", subRegion: "동작구", charge: 98350, usage: 243 },
-  { name: "금천구의회", region: "서울특별시", subRegion: "금천구", charge: 86762, usage: 451 },
-  { name: "괴산군청", region: "충청북도", subRegion: "괴산군", charge: 74864, usage: 200 },
-  { name: "군포시청", region: "경기도", subRegion: "군포시", charge: 34753, usage: 314 },
-  { name: "증평군청", region: "충청북도", subRegion: "증평군", charge: 31499, usage: 172 },
-  { name: "양산시청", region: "경상남도", subRegion: "양산시", charge: 28905, usage: 363 },
-  { name: "서초구의회", region: "서울특별시", subRegion: "서초구", charge: 27090, usage: 175 },
-  { name: "부여군청", region: "충청남도", subRegion: "부여군", charge: 26628, usage: 80 },
-  { name: "서귀포시", region: "제주특별자치도", subRegion: "서귀포시", charge: 25274, usage: 177 },
-  { name: "제주시청", region: "제주특별자치도", subRegion: "제주시", charge: 1867996, usage: 13614 },
-  { name: "금천구청", region: "서울특별시", subRegion: "금천구", charge: 18078, usage: 23 },
-  { name: "강진군청", region: "전라남도", subRegion: "강진군", charge: 17419, usage: 100 },
-  { name: "강릉시청", region: "강원특별자치도", subRegion: "강릉시", charge: 10718, usage: 41 },
-  { name: "은평구청", region: "서울특별시", subRegion: "은평구", charge: 8551, usage: 60 },
-  { name: "강서구의회", region: "서울특별시", subRegion: "강서구", charge: 7918, usage: 40 },
-  { name: "안양시청", region: "경기도", subRegion: "안양시", charge: 4434, usage: 53 },
-  { name: "노원구청", region: "서울특별시", subRegion: "노원구", charge: 2646, usage: 28 },
-  { name: "신안군청", region: "전라남도", subRegion: "신안군", charge: 55, usage: 1 },
-  { name: "아산시청", region: "충청남도", subRegion: "아산시", charge: 12, usage: 1 },
-];
+export const localGovData: Client[] = resolveLatest([
+  { name: "수원특례시청", region: "경기도", subRegion: "수원시", monthly: { "2026-01": { charge: 10287387, usage: 54714 } } },
+  { name: "창원특례시", region: "경상남도", subRegion: "창원시", monthly: { "2026-01": { charge: 9714009, usage: 73385 } } },
+  { name: "강동구청", region: "서울특별시", subRegion: "강동구", monthly: { "2026-01": { charge: 3993167, usage: 24797 } } },
+  { name: "서초구청", region: "서울특별시", subRegion: "서초구", monthly: { "2026-01": { charge: 3973222, usage: 20281 } } },
+  { name: "영등포구청", region: "서울특별시", subRegion: "영등포구", monthly: { "2026-01": { charge: 3108248, usage: 18033 } } },
+  { name: "성북구청", region: "서울특별시", subRegion: "성북구", monthly: { "2026-01": { charge: 2793432, usage: 20618 } } },
+  { name: "장성군청", region: "전라남도", subRegion: "장성군", monthly: { "2026-01": { charge: 2497221, usage: 14979 } } },
+  { name: "광주광역시 동구청", region: "광주광역시", subRegion: "동구", monthly: { "2026-01": { charge: 2236987, usage: 13861 } } },
+  { name: "성동구청", region: "서울특별시", subRegion: "성동구", monthly: { "2026-01": { charge: 2153298, usage: 20775 } } },
+  { name: "음성군청", region: "충청북도", subRegion: "음성군", monthly: { "2026-01": { charge: 1986386, usage: 17770 } } },
+  { name: "송파구청", region: "서울특별시", subRegion: "송파구", monthly: { "2026-01": { charge: 1952891, usage: 13380 } } },
+  { name: "동작구청", region: "서울특별시", subRegion: "동작구", monthly: { "2026-01": { charge: 1718474, usage: 14304 } } },
+  { name: "사천시", region: "경상남도", subRegion: "사천시", monthly: { "2026-01": { charge: 1166959, usage: 8726 } } },
+  { name: "강남구청", region: "서울특별시", subRegion: "강남구", monthly: { "2026-01": { charge: 1134954, usage: 10595 } } },
+  { name: "광진구청", region: "서울특별시", subRegion: "광진구", monthly: { "2026-01": { charge: 1115933, usage: 13341 } } },
+  { name: "강서구청", region: "서울특별시", subRegion: "강서구", monthly: { "2026-01": { charge: 1083216, usage: 8744 } } },
+  { name: "서산시청", region: "충청남도", subRegion: "서산시", monthly: { "2026-01": { charge: 932163, usage: 9733 } } },
+  { name: "남해군청", region: "경상남도", subRegion: "남해군", monthly: { "2026-01": { charge: 881206, usage: 7859 } } },
+  { name: "하동군", region: "경상남도", subRegion: "하동군", monthly: { "2026-01": { charge: 767328, usage: 6910 } } },
+  { name: "광양시청", region: "전라남도", subRegion: "광양시", monthly: { "2026-01": { charge: 650583, usage: 10368 } } },
+  { name: "대전광역시 중구", region: "대전광역시", subRegion: "중구", monthly: { "2026-01": { charge: 630397, usage: 2301 } } },
+  { name: "용산구청", region: "서울특별시", subRegion: "용산구", monthly: { "2026-01": { charge: 565038, usage: 2607 } } },
+  { name: "옥천군청", region: "충청북도", subRegion: "옥천군", monthly: { "2026-01": { charge: 417395, usage: 2209 } } },
+  { name: "의왕시청", region: "경기도", subRegion: "의왕시", monthly: { "2026-01": { charge: 306002, usage: 9685 } } },
+  { name: "동작구청+", region: "서울특별시", subRegion: "동작구", monthly: { "2026-01": { charge: 98350, usage: 243 } } },
+  { name: "금천구의회", region: "서울특별시", subRegion: "금천구", monthly: { "2026-01": { charge: 86762, usage: 451 } } },
+  { name: "괴산군청", region: "충청북도", subRegion: "괴산군", monthly: { "2026-01": { charge: 74864, usage: 200 } } },
+  { name: "군포시청", region: "경기도", subRegion: "군포시", monthly: { "2026-01": { charge: 34753, usage: 314 } } },
+  { name: "증평군청", region: "충청북도", subRegion: "증평군", monthly: { "2026-01": { charge: 31499, usage: 172 } } },
+  { name: "양산시청", region: "경상남도", subRegion: "양산시", monthly: { "2026-01": { charge: 28905, usage: 363 } } },
+  { name: "서초구의회", region: "서울특별시", subRegion: "서초구", monthly: { "2026-01": { charge: 27090, usage: 175 } } },
+  { name: "부여군청", region: "충청남도", subRegion: "부여군", monthly: { "2026-01": { charge: 26628, usage: 80 } } },
+  { name: "서귀포시", region: "제주특별자치도", subRegion: "서귀포시", monthly: { "2026-01": { charge: 25274, usage: 177 } } },
+  { name: "제주시청", region: "제주특별자치도", subRegion: "제주시", monthly: { "2026-01": { charge: 1867996, usage: 13614 } } },
+  { name: "금천구청", region: "서울특별시", subRegion: "금천구", monthly: { "2026-01": { charge: 18078, usage: 23 } } },
+  { name: "강진군청", region: "전라남도", subRegion: "강진군", monthly: { "2026-01": { charge: 17419, usage: 100 } } },
+  { name: "강릉시청", region: "강원특별자치도", subRegion: "강릉시", monthly: { "2026-01": { charge: 10718, usage: 41 } } },
+  { name: "은평구청", region: "서울특별시", subRegion: "은평구", monthly: { "2026-01": { charge: 8551, usage: 60 } } },
+  { name: "강서구의회", region: "서울특별시", subRegion: "강서구", monthly: { "2026-01": { charge: 7918, usage: 40 } } },
+  { name: "안양시청", region: "경기도", subRegion: "안양시", monthly: { "2026-01": { charge: 4434, usage: 53 } } },
+  { name: "노원구청", region: "서울특별시", subRegion: "노원구", monthly: { "2026-01": { charge: 2646, usage: 28 } } },
+  { name: "신안군청", region: "전라남도", subRegion: "신안군", monthly: { "2026-01": { charge: 55, usage: 1 } } },
+  { name: "아산시청", region: "충청남도", subRegion: "아산시", monthly: { "2026-01": { charge: 12, usage: 1 } } },
+]);
 
 // 공공기관
-export const publicInstitutionData: Client[] = [
-  { name: "국립공원공단", region: "강원특별자치도", charge: 4206435, usage: 15791 },
-  { name: "서울경제진흥원", region: "서울특별시", charge: 3326466, usage: 14718 },
-  { name: "제주개발공사", region: "제주특별자치도", charge: 3027877, usage: 19331 },
-  { name: "세종시설관리공단", region: "세종특별자치시", charge: 1087748, usage: 4562 },
-  { name: "우체국금융개발원", region: "서울특별시", charge: 641929, usage: 2853 },
-  { name: "한국개발연구원", region: "세종특별자치시", charge: 446931, usage: 1527 },
-  { name: "한국원자력환경복원연구원", region: "대전광역시", charge: 375383, usage: 1302 },
-  { name: "남북하나재단", region: "서울특별시", charge: 333638, usage: 2334 },
-  { name: "서울예술단", region: "서울특별시", charge: 322746, usage: 1680 },
-  { name: "서울투자진흥재단", region: "서울특별시", charge: 284242, usage: 1860 },
-  { name: "노원구시설관리공단", region: "서울특별시", subRegion: "노원구", charge: 264996, usage: 1209 },
-  { name: "한국전기안전공사", region: "전라북도", charge: 248715, usage: 1453 },
-  { name: "경남소방", region: "경상남도", charge: 198384, usage: 2047 },
-  { name: "남북교류협력지원협회", region: "서울특별시", charge: 154581, usage: 998 },
-  { name: "스포츠가치센터", region: "서울특별시", charge: 126177, usage: 462 },
-  { name: "소마미술관", region: "서울특별시", charge: 119038, usage: 571 },
-  { name: "성동구도시관리공단", region: "서울특별시", subRegion: "성동구", charge: 111099, usage: 1294 },
-  { name: "대구2.28기념학생도서관", region: "대구광역시", charge: 100288, usage: 765 },
-  { name: "국제개발협력센터", region: "세종특별자치시", charge: 148110, usage: 181 },
-  { name: "한국산업은행", region: "서울특별시", charge: 84727, usage: 354 },
-  { name: "하남도시공사", region: "경기도", subRegion: "하남시", charge: 60272, usage: 443 },
-  { name: "한국상하수도협회", region: "서울특별시", charge: 37653, usage: 122 },
-  { name: "시립도서관", region: "서울특별시", charge: 24063, usage: 110 },
-  { name: "한국농수산식품유통공사", region: "전라남도", charge: 19292, usage: 62 },
-  { name: "공무원연금공단", region: "제주특별자치도", charge: 18576, usage: 221 },
-  { name: "지역스포츠과학지원센터", region: "서울특별시", charge: 17433, usage: 76 },
-  { name: "사립학교교직원연금공단", region: "제주특별자치도", charge: 17096, usage: 171 },
-  { name: "전주시설공단", region: "전라북도", subRegion: "전주시", charge: 16945, usage: 123 },
-  { name: "대전연구원", region: "대전광역시", charge: 16796, usage: 96 },
-  { name: "차세대스포츠과학지원센터", region: "서울특별시", charge: 15672, usage: 199 },
-  { name: "광주광역시도시공사", region: "광주광역시", charge: 13025, usage: 96 },
-  { name: "국가대표스포츠과학지원센터", region: "서울특별시", charge: 12749, usage: 80 },
-  { name: "강북구도시관리공단", region: "서울특별시", subRegion: "강북구", charge: 11693, usage: 173 },
-  { name: "도서관운영사무소", region: "경기도", charge: 11159, usage: 28 },
-  { name: "서부보건소", region: "서울특별시", charge: 11075, usage: 232 },
-  { name: "수원시정연구원", region: "경기도", subRegion: "수원시", charge: 10739, usage: 40 },
-  { name: "동부보건소", region: "서울특별시", charge: 7897, usage: 132 },
-  { name: "경정훈련원", region: "경기도", charge: 4610, usage: 94 },
-  { name: "대구체력인증센터", region: "대구광역시", charge: 4253, usage: 81 },
-  { name: "서귀포공립미술관", region: "제주특별자치도", subRegion: "서귀포시", charge: 4185, usage: 117 },
-  { name: "인천교통공사", region: "인천광역시", charge: 4083, usage: 35 },
-  { name: "노사발전재단", region: "서울특별시", charge: 3520, usage: 14 },
-  { name: "한전KPS", region: "전라남도", charge: 2231, usage: 28 },
-  { name: "서귀포예술의전당", region: "제주특별자치도", subRegion: "서귀포시", charge: 2223, usage: 74 },
-  { name: "한국마사회", region: "경기도", charge: 1154, usage: 35 },
-  { name: "불법대응센터", region: "서울특별시", charge: 700, usage: 14 },
-];
+export const publicInstitutionData: Client[] = resolveLatest([
+  { name: "국립공원공단", region: "강원특별자치도", monthly: { "2026-01": { charge: 4206435, usage: 15791 } } },
+  { name: "서울경제진흥원", region: "서울특별시", monthly: { "2026-01": { charge: 3326466, usage: 14718 } } },
+  { name: "제주개발공사", region: "제주특별자치도", monthly: { "2026-01": { charge: 3027877, usage: 19331 } } },
+  { name: "세종시설관리공단", region: "세종특별자치시", monthly: { "2026-01": { charge: 1087748, usage: 4562 } } },
+  { name: "우체국금융개발원", region: "서울특별시", monthly: { "2026-01": { charge: 641929, usage: 2853 } } },
+  { name: "한국개발연구원", region: "세종특별자치시", monthly: { "2026-01": { charge: 446931, usage: 1527 } } },
+  { name: "한국원자력환경복원연구원", region: "대전광역시", monthly: { "2026-01": { charge: 375383, usage: 1302 } } },
+  { name: "남북하나재단", region: "서울특별시", monthly: { "2026-01": { charge: 333638, usage: 2334 } } },
+  { name: "서울예술단", region: "서울특별시", monthly: { "2026-01": { charge: 322746, usage: 1680 } } },
+  { name: "서울투자진흥재단", region: "서울특별시", monthly: { "2026-01": { charge: 284242, usage: 1860 } } },
+  { name: "노원구시설관리공단", region: "서울특별시", subRegion: "노원구", monthly: { "2026-01": { charge: 264996, usage: 1209 } } },
+  { name: "한국전기안전공사", region: "전라북도", monthly: { "2026-01": { charge: 248715, usage: 1453 } } },
+  { name: "경남소방", region: "경상남도", monthly: { "2026-01": { charge: 198384, usage: 2047 } } },
+  { name: "남북교류협력지원협회", region: "서울특별시", monthly: { "2026-01": { charge: 154581, usage: 998 } } },
+  { name: "스포츠가치센터", region: "서울특별시", monthly: { "2026-01": { charge: 126177, usage: 462 } } },
+  { name: "소마미술관", region: "서울특별시", monthly: { "2026-01": { charge: 119038, usage: 571 } } },
+  { name: "성동구도시관리공단", region: "서울특별시", subRegion: "성동구", monthly: { "2026-01": { charge: 111099, usage: 1294 } } },
+  { name: "대구2.28기념학생도서관", region: "대구광역시", monthly: { "2026-01": { charge: 100288, usage: 765 } } },
+  { name: "국제개발협력센터", region: "세종특별자치시", monthly: { "2026-01": { charge: 148110, usage: 181 } } },
+  { name: "한국산업은행", region: "서울특별시", monthly: { "2026-01": { charge: 84727, usage: 354 } } },
+  { name: "하남도시공사", region: "경기도", subRegion: "하남시", monthly: { "2026-01": { charge: 60272, usage: 443 } } },
+  { name: "한국상하수도협회", region: "서울특별시", monthly: { "2026-01": { charge: 37653, usage: 122 } } },
+  { name: "시립도서관", region: "서울특별시", monthly: { "2026-01": { charge: 24063, usage: 110 } } },
+  { name: "한국농수산식품유통공사", region: "전라남도", monthly: { "2026-01": { charge: 19292, usage: 62 } } },
+  { name: "공무원연금공단", region: "제주특별자치도", monthly: { "2026-01": { charge: 18576, usage: 221 } } },
+  { name: "지역스포츠과학지원센터", region: "서울특별시", monthly: { "2026-01": { charge: 17433, usage: 76 } } },
+  { name: "사립학교교직원연금공단", region: "제주특별자치도", monthly: { "2026-01": { charge: 17096, usage: 171 } } },
+  { name: "전주시설공단", region: "전라북도", subRegion: "전주시", monthly: { "2026-01": { charge: 16945, usage: 123 } } },
+  { name: "대전연구원", region: "대전광역시", monthly: { "2026-01": { charge: 16796, usage: 96 } } },
+  { name: "차세대스포츠과학지원센터", region: "서울특별시", monthly: { "2026-01": { charge: 15672, usage: 199 } } },
+  { name: "광주광역시도시공사", region: "광주광역시", monthly: { "2026-01": { charge: 13025, usage: 96 } } },
+  { name: "국가대표스포츠과학지원센터", region: "서울특별시", monthly: { "2026-01": { charge: 12749, usage: 80 } } },
+  { name: "강북구도시관리공단", region: "서울특별시", subRegion: "강북구", monthly: { "2026-01": { charge: 11693, usage: 173 } } },
+  { name: "도서관운영사무소", region: "경기도", monthly: { "2026-01": { charge: 11159, usage: 28 } } },
+  { name: "서부보건소", region: "서울특별시", monthly: { "2026-01": { charge: 11075, usage: 232 } } },
+  { name: "수원시정연구원", region: "경기도", subRegion: "수원시", monthly: { "2026-01": { charge: 10739, usage: 40 } } },
+  { name: "동부보건소", region: "서울특별시", monthly: { "2026-01": { charge: 7897, usage: 132 } } },
+  { name: "경정훈련원", region: "경기도", monthly: { "2026-01": { charge: 4610, usage: 94 } } },
+  { name: "대구체력인증센터", region: "대구광역시", monthly: { "2026-01": { charge: 4253, usage: 81 } } },
+  { name: "서귀포공립미술관", region: "제주특별자치도", subRegion: "서귀포시", monthly: { "2026-01": { charge: 4185, usage: 117 } } },
+  { name: "인천교통공사", region: "인천광역시", monthly: { "2026-01": { charge: 4083, usage: 35 } } },
+  { name: "노사발전재단", region: "서울특별시", monthly: { "2026-01": { charge: 3520, usage: 14 } } },
+  { name: "한전KPS", region: "전라남도", monthly: { "2026-01": { charge: 2231, usage: 28 } } },
+  { name: "서귀포예술의전당", region: "제주특별자치도", subRegion: "서귀포시", monthly: { "2026-01": { charge: 2223, usage: 74 } } },
+  { name: "한국마사회", region: "경기도", monthly: { "2026-01": { charge: 1154, usage: 35 } } },
+  { name: "불법대응센터", region: "서울특별시", monthly: { "2026-01": { charge: 700, usage: 14 } } },
+]);
 
 // 민간기업
-export const privateData: Client[] = [
-  { name: "바로AI", charge: 39037887, usage: 186264 },
-  { name: "모노솔루션", charge: 24761, usage: 300 },
-  { name: "한국지역난방기술", charge: 4131, usage: 44 },
-  { name: "요거트월드", charge: 1473, usage: 9 },
-  { name: "에콜리안제천지사", charge: 92, usage: 3 },
-  { name: "AI3", charge: 58, usage: 2 },
-];
+export const privateData: Client[] = resolveLatest([
+  { name: "바로AI", monthly: { "2026-01": { charge: 39037887, usage: 186264 } } },
+  { name: "모노솔루션", monthly: { "2026-01": { charge: 24761, usage: 300 } } },
+  { name: "한국지역난방기술", monthly: { "2026-01": { charge: 4131, usage: 44 } } },
+  { name: "요거트월드", monthly: { "2026-01": { charge: 1473, usage: 9 } } },
+  { name: "에콜리안제천지사", monthly: { "2026-01": { charge: 92, usage: 3 } } },
+  { name: "AI3", monthly: { "2026-01": { charge: 58, usage: 2 } } },
+]);
 
 // 대학교
-export const universityData: Client[] = [
-  { name: "숭의여자대학교", region: "서울특별시", charge: 31799, usage: 100 },
-];
+export const universityData: Client[] = resolveLatest([
+  { name: "숭의여자대학교", region: "서울특별시", monthly: { "2026-01": { charge: 31799, usage: 100 } } },
+]);
+
+// ============================================================================
+// 월별 시계열 유틸리티
+// ============================================================================
+
+/**
+ * 월 키를 n개월 이동
+ * @example shiftMonth('2026-01', -1) // '2025-12'
+ */
+export function shiftMonth(month: MonthKey, delta: number): MonthKey {
+  const [year, mon] = month.split('-').map(Number);
+  const index = year * 12 + (mon - 1) + delta;
+  const y = Math.floor(index / 12);
+  const m = (index % 12) + 1;
+  return `${y}-${String(m).padStart(2, '0')}`;
+}
+
+/**
+ * 기간에 포함된 월 목록 (오름차순)
+ */
+export function monthsInPeriod(period: Period): MonthKey[] {
+  const months: MonthKey[] = [];
+  for (let m = period.from; m <= period.to; m = shiftMonth(m, 1)) {
+    months.push(m);
+  }
+  return months;
+}
+
+/**
+ * 데이터에 존재하는 모든 월 목록 (오름차순)
+ */
+export function getAvailableMonths(records: ClientRecord[]): MonthKey[] {
+  const months = new Set<MonthKey>();
+  records.forEach(record => {
+    Object.keys(record.monthly).forEach(month => months.add(month));
+  });
+  return [...months].sort();
+}
+
+/**
+ * 월 키를 한글 표기로 변환
+ * @example formatMonth('2026-01') // '2026년 1월'
+ */
+export function formatMonth(month: MonthKey): string {
+  const [year, mon] = month.split('-').map(Number);
+  return `${year}년 ${mon}월`;
+}
+
+/**
+ * 기간을 한글 표기로 변환
+ * @example formatPeriod({ from: '2025-11', to: '2026-01' }) // '2025년 11월 ~ 2026년 1월'
+ */
+export function formatPeriod(period: Period): string {
+  if (period.from === period.to) return formatMonth(period.from);
+  return `${formatMonth(period.from)} ~ ${formatMonth(period.to)}`;
+}
+
+/**
+ * 기간 내 청구 데이터가 있는 월 목록 (오름차순)
+ */
+function billedMonths(series: MonthlySeries, period: Period): MonthKey[] {
+  return Object.keys(series)
+    .filter(month => month >= period.from && month <= period.to)
+    .sort();
+}
+
+/**
+ * 레코드의 기간 합계 계산
+ * - charge/usage: 기간 내 합계
+ * - activeUsers/totalUsers: 기간 내 가장 최근 값 (누적 지표가 아니므로 합산하지 않음)
+ * @returns 기간 내 데이터가 없으면 null
+ */
+export function summarizePeriod(series: MonthlySeries, period: Period): MonthlyMetrics | null {
+  const months = billedMonths(series, period);
+  if (months.length === 0) return null;
 
+  const result: MonthlyMetrics = { charge: 0, usage: 0 };
+  months.forEach(month => {
+    const metrics = series[month];
+    result.charge += metrics.charge;
+    result.usage += metrics.usage;
+    if (metrics.activeUsers !== undefined) result.activeUsers = metrics.activeUsers;
+    if (metrics.totalUsers !== undefined) result.totalUsers = metrics.totalUsers;
+  });
+  return result;
+}
+
+/**
+ * 기간 기준으로 고객사 지표 계산
+ * 기간 내 데이터가 없는 고객사는 제외됩니다.
+ */
+export function applyPeriod(records: ClientRecord[], period: Period): Client[] {
+  const result: Client[] = [];
+  records.forEach(record => {
+    const summary = summarizePeriod(record.monthly, period);
+    if (!summary) return;
+    result.push({
+      name: record.name,
+      region: record.region,
+      subRegion: record.subRegion,
+      monthly: record.monthly,
+      months: billedMonths(record.monthly, period).length,
+      ...summary,
+    });
+  });
+  return result;
+}
+
+// ============================================================================
+// 성장률 (전월/전년 대비)
+// ============================================================================
+
+/**
+ * 비교 기간 대비 증감
+ */
+export interface Growth {
+  current: number;
+  previous: number;
+  diff: number;           // 증감량 (current - previous)
+  rate: number | null;    // 증감률 (%) - 이전 값이 0이면 null (신규)
+}
+
+/**
+ * 직전 기간 (같은 길이만큼 앞으로 이동)
+ * @example previousPeriod({ from: '2026-01', to: '2026-01' }) // 2025-12 ~ 2025-12
+ */
+export function previousPeriod(period: Period): Period {
+  const length = monthsInPeriod(period).length;
+  return {
+    from: shiftMonth(period.from, -length),
+    to: shiftMonth(period.to, -length),
+  };
+}
+
+/**
+ * 전년 동기간 (12개월 앞으로 이동)
+ */
+export function yearAgoPeriod(period: Period): Period {
+  return {
+    from: shiftMonth(period.from, -12),
+    to: shiftMonth(period.to, -12),
+  };
+}
+
+/**
+ * 증감 계산
+ */
+export function calcGrowth(current: number, previous: number): Growth {
+  return {
+    current,
+    previous,
+    diff: current - previous,
+    rate: previous > 0 ? ((current - previous) / previous) * 100 : null,
+  };
+}
+
+/**
+ * 두 기간의 사용금액/사용량 증감 계산
+ * @param records 비교할 레코드 목록 (합산)
+ * @param period 기준 기간
+ * @param base 비교 기간
+ * @returns 비교 기간에 데이터가 전혀 없으면 null
+ */
+export function comparePeriods(
+  records: ClientRecord[],
+  period: Period,
+  base: Period
+): { charge: Growth; usage: Growth } | null {
+  let hasBase = false;
+  const current = { charge: 0, usage: 0 };
+  const previous = { charge: 0, usage: 0 };
+
+  records.forEach(record => {
+    const now = summarizePeriod(record.monthly, period);
+    if (now) {
+      current.charge += now.charge;
+      current.usage += now.usage;
+    }
+    const before = summarizePeriod(record.monthly, base);
+    if (before) {
+      hasBase = true;
+      previous.charge += before.charge;
+      previous.usage += before.usage;
+    }
+  });
+
+  if (!hasBase) return null;
+  return {
+    charge: calcGrowth(current.charge, previous.charge),
+    usage: calcGrowth(current.usage, previous.usage),
+  };
+}
+
+/**
+ * 증감률 표기
+ * @example formatGrowthRate(growth) // '+12.3%' | '-4.0%' | '신규'
+ */
+export function formatGrowthRate(growth: Growth): string {
+  if (growth.rate === null) return growth.current > 0 ? '신규' : '-';
+  const sign = growth.rate > 0 ? '+' : '';
+  return `${sign}${growth.rate.toFixed(1)}%`;
+}
+
+/**
+ * 증감량 표기
+ * @param unit 'money' (formatMoney) | 'number' (천 단위 구분)
+ * @example formatGrowthDiff(growth, 'money') // '+120만원'
+ */
+export function formatGrowthDiff(growth: Growth, unit: 'money' | 'number'): string {
+  const abs = Math.abs(growth.diff);
+  const sign = growth.diff > 0 ? '+' : growth.diff < 0 ? '-' : '±';
+  return sign + (unit === 'money' ? formatMoney(abs) : abs.toLocaleString());
+}
+
+/**
+ * 추이 차트용 월별 데이터 포인트
+ */
+export interface TrendPoint {
+  month: MonthKey;
+  charge: number;
+  usage: number;
+}
+
+/**
+ * 여러 레코드의 월별 합계 시계열 생성
+ * 데이터가 없는 월은 0으로 채웁니다.
+ * @param records 합산할 레코드 목록
+ * @param months 차트에 표시할 월 목록 (오름차순)
+ */
+export function buildTrendSeries(records: ClientRecord[], months: MonthKey[]): TrendPoint[] {
+  return months.map(month => {
+    const point: TrendPoint = { month, charge: 0, usage: 0 };
+    records.forEach(record => {
+      const metrics = record.monthly[month];
+      if (!metrics) return;
+      point.charge += metrics.charge;
+      point.usage += metrics.usage;
+    });
+    return point;
+  });
+}
+
+/**
+ * 가장 최근 월 기준으로 고객사 지표 계산
+ * 각 고객사의 마지막 청구 월 값을 사용합니다.
+ */
+export function resolveLatest(records: ClientRecord[]): Client[] {
+  return records.flatMap(record => {
+    const latest = Object.keys(record.monthly).sort().pop();
+    return latest ? applyPeriod([record], { from: latest, to: latest }) : [];
+  });
+}
+
+// ============================================================================
 // 유틸리티 함수
+// ============================================================================
+
+/** PoC 판단 기준 금액 (월 10만원, 기간 조회 시 개월 수만큼 곱해서 사용) */
+export const POC_THRESHOLD = 100000;
+
 export function formatMoney(n: number): string {
   if (n >= 100000000) return (n / 100000000).toFixed(1) + '억원';
   if (n >= 10000) return Math.round(n / 10000).toLocaleString() + '만원';
@@ -308,10 +673,13 @@ export interface AggregatedData {
   items: Client[];
 }
 
+/**
+ * 시/도별 집계 (시/도 명칭은 정식 명칭으로 통일, 예: 전라북도 → 전북특별자치도)
+ */
 export function aggregateByRegion(data: Client[]): Record<string, AggregatedData> {
   const result: Record<string, AggregatedData> = {};
   data.forEach(item => {
-    const region = item.region || '기타';
+    const region = (item.region && canonicalProvince(item.region)) || item.region || '기타';
     if (!result[region]) {
       result[region] = { charge: 0, usage: 0, items: [] };
     }
@@ -322,10 +690,26 @@ export function aggregateByRegion(data: Client[]): Record<string, AggregatedData
   return result;
 }
 
+/**
+ * 시/군/구 집계 키 (동명 구 구분을 위해 시/도와 함께 사용)
+ * @example regionPairKey('서울특별시', '강서구') // '서울특별시 강서구'
+ */
+export function regionPairKey(region: string, subRegion: string): string {
+  return `${region} ${subRegion}`;
+}
+
+/**
+ * (시/도, 시/군/구)별 집계
+ * 서울 강서구와 부산 강서구처럼 이름이 같은 구를 구분하기 위해 regionPairKey 로 묶습니다.
+ * 시/군/구가 없는 고객사는 시/도 이름으로 묶습니다.
+ */
 export function aggregateBySubRegion(data: Client[]): Record<string, AggregatedData> {
   const result: Record<string, AggregatedData> = {};
   data.forEach(item => {
-    const key = item.subRegion || item.region || '기타';
+    const region = (item.region && canonicalProvince(item.region)) || item.region;
+    const key = region && item.subRegion
+      ? regionPairKey(region, item.subRegion)
+      : region || '기타';
     if (!result[key]) {
       result[key] = { charge: 0, usage: 0, items: [] };
     }
@@ -336,5 +720,45 @@ export function aggregateBySubRegion(data: Client[]): Record<string, AggregatedD
   return result;
 }
 
+/**
+ * 고객사 목록 합계 통계 (대시보드 통계 카드 / 리포트 공용)
+ * 사용자 지표(activeUsers / totalUsers)는 Google Sheets 값이 반영된 목록을 넘겨받는 것을 전제로 합니다.
+ */
+export interface ClientStats {
+  totalCharge: number;
+  totalUsage: number;
+  totalActiveUsers: number;
+  totalTotalUsers: number;
+  /** 활성율 (%, 소수점 1자리 문자열) - 가입자 수가 없으면 null */
+  overallActivationRate: string | null;
+  /** 가입자당 월평균 가격 */
+  avgPricePerTotalUser: number | null;
+  /** 활성사용자당 월평균 가격 */
+  avgPricePerActiveUser: number | null;
+}
+
+export function calcClientStats(items: Client[]): ClientStats {
+  const totalCharge = items.reduce((sum, item) => sum + item.charge, 0);
+  const totalUsage = items.reduce((sum, item) => sum + item.usage, 0);
+  const totalActiveUsers = items.reduce((sum, item) => sum + (item.activeUsers || 0), 0);
+  const totalTotalUsers = items.reduce((sum, item) => sum + (item.totalUsers || 0), 0);
+
+  // 월평균 가격 산정용 월 사용금액 (고객사별 청구 개월 수로 나눔)
+  const monthlyCharge = items.reduce((sum, item) => sum + item.charge / item.months, 0);
+
+  return {
+    totalCharge,
+    totalUsage,
+    totalActiveUsers,
+    totalTotalUsers,
+    overallActivationRate:
+      totalTotalUsers > 0 ? ((totalActiveUsers / totalTotalUsers) * 100).toFixed(1) : null,
+    avgPricePerTotalUser:
+      totalTotalUsers > 0 ? Math.round(monthlyCharge / totalTotalUsers) : null,
+    avgPricePerActiveUser:
+      totalActiveUsers > 0 ? Math.round(monthlyCharge / totalActiveUsers) : null,
+  };
+}
+
 // 기존 호환성을 위한 alias
 export const localData = localGovData;
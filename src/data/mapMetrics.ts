@@ -0,0 +1,142 @@
+/**
+ * 지도 색상 지표
+ *
+ * 지도(시/도·시/군/구) 영역의 색상을 결정하는 지표와 계산/표시 함수입니다.
+ * 사용자 지표(activeUsers / totalUsers)는 Google Sheets 값이 반영된 Client 를 넘겨받는 것을 전제로 합니다.
+ */
+
+import {
+  AggregatedData,
+  Client,
+  Period,
+  formatMoney,
+  comparePeriods,
+  previousPeriod,
+  yearAgoPeriod,
+} from '@/data/clients';
+import { ColorScaleType, MapColorScale, buildColorScale, buildDivergingScale } from '@/lib/colorScales';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export type MapMetric =
+  | 'charge'
+  | 'usage'
+  | 'activeUsers'
+  | 'activationRate'
+  | 'pricePerUser'
+  | 'chargeMom'
+  | 'chargeYoy';
+
+interface MapMetricConfig {
+  label: string;
+  /** 범례 최대값 표시 등에 사용하는 값 포맷 */
+  format: (value: number) => string;
+  /** 증감률 지표 - 0 을 중심으로 한 발산형 색상 스케일 사용 (스케일 선택 무시) */
+  diverging?: boolean;
+}
+
+const formatRate = (v: number) => `${v > 0 ? '+' : ''}${v.toFixed(1)}%`;
+
+// ============================================================================
+// 지표 설정
+// ============================================================================
+
+export const MAP_METRICS: Record<MapMetric, MapMetricConfig> = {
+  charge: { label: '사용금액', format: formatMoney },
+  usage: { label: '사용량', format: (v) => Math.round(v).toLocaleString() },
+  activeUsers: { label: '활성사용자', format: (v) => `${Math.round(v).toLocaleString()}명` },
+  activationRate: { label: '활성율', format: (v) => `${v.toFixed(1)}%` },
+  pricePerUser: { label: '월평균 가격', format: (v) => `${formatMoney(Math.round(v))}/명` },
+  chargeMom: { label: '직전 대비 증감', format: formatRate, diverging: true },
+  chargeYoy: { label: '전년 대비 증감', format: formatRate, diverging: true },
+};
+
+export const MAP_METRIC_KEYS = Object.keys(MAP_METRICS) as MapMetric[];
+
+// ============================================================================
+// 계산
+// ============================================================================
+
+/**
+ * 기관 목록의 지표 값
+ * - 활성사용자 / 활성율 / 월평균 가격은 사용자 수가 있는 기관만으로 계산
+ * - 월평균 가격: 월 사용금액(기관별 청구 개월 수로 나눔) ÷ 전체 가입자 수
+ * - 증감: 선택 기간 사용금액의 직전 기간 / 전년 동기간 대비 증감률 (%)
+ * @param period 선택 기간 (증감 지표에만 사용)
+ * @returns 계산할 수 없으면 null (데이터 없음, 비교 기간 데이터 없음·신규 포함)
+ */
+export function computeMapMetric(metric: MapMetric, items: Client[], period?: Period): number | null {
+  if (items.length === 0) return null;
+
+  switch (metric) {
+    case 'charge':
+      return items.reduce((sum, item) => sum + item.charge, 0);
+    case 'usage':
+      return items.reduce((sum, item) => sum + item.usage, 0);
+    case 'activeUsers': {
+      const withUsers = items.filter((item) => item.activeUsers !== undefined);
+      return withUsers.length > 0
+        ? withUsers.reduce((sum, item) => sum + (item.activeUsers ?? 0), 0)
+        : null;
+    }
+    case 'activationRate': {
+      const withUsers = items.filter((item) => item.activeUsers !== undefined && item.totalUsers);
+      const total = withUsers.reduce((sum, item) => sum + (item.totalUsers ?? 0), 0);
+      const active = withUsers.reduce((sum, item) => sum + (item.activeUsers ?? 0), 0);
+      return total > 0 ? (active / total) * 100 : null;
+    }
+    case 'pricePerUser': {
+      const withUsers = items.filter((item) => item.totalUsers);
+      const total = withUsers.reduce((sum, item) => sum + (item.totalUsers ?? 0), 0);
+      const monthlyCharge = withUsers.reduce(
+        (sum, item) => sum + (item.months ? item.charge / item.months : 0),
+        0
+      );
+      return total > 0 ? monthlyCharge / total : null;
+    }
+    case 'chargeMom':
+      return period ? comparePeriods(items, period, previousPeriod(period))?.charge.rate ?? null : null;
+    case 'chargeYoy':
+      return period ? comparePeriods(items, period, yearAgoPeriod(period))?.charge.rate ?? null : null;
+  }
+}
+
+/**
+ * 선형 스케일 최대값 기준
+ * 사용금액은 영역 단위별 기준(시/도 1억원, 시/군/구 1천만원) 이상으로, 활성율은 100% 로 고정합니다.
+ */
+function linearMaxOf(metric: MapMetric, type: 'province' | 'municipality'): number | undefined {
+  if (metric === 'activationRate') return 100;
+  if (metric === 'charge') return type === 'province' ? 100_000_000 : 10_000_000;
+  return undefined;
+}
+
+/**
+ * 지도 색상 스케일 (지도 영역 색상과 범례가 같은 스케일을 쓰도록 한 곳에서 생성)
+ * @param groups 지역별 집계 (PoC 지역 제외)
+ * @param range 탭 색상 범위 [최소 색, 최대 색]
+ */
+export function buildMapColorScale({
+  metric,
+  scaleType,
+  groups,
+  type,
+  range,
+  period,
+}: {
+  metric: MapMetric;
+  scaleType: ColorScaleType;
+  groups: AggregatedData[];
+  type: 'province' | 'municipality';
+  range: [string, string];
+  period?: Period;
+}): MapColorScale {
+  const values = groups
+    .map((group) => computeMapMetric(metric, group.items, period))
+    .filter((value): value is number => value !== null);
+
+  if (MAP_METRICS[metric].diverging) return buildDivergingScale(values);
+  return buildColorScale(scaleType, values, range, linearMaxOf(metric, type));
+}
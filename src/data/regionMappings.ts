@@ -105,7 +105,7 @@ export const MUNICIPALITY_KR_TO_EN: Record<string, string> = {
   '서초구': 'Seocho',
   '강남구': 'Gangnam',
   '송파구': 'Songpa',
-  '강동구': 'Gandong',
+  '강동구': 'Gangdong',
 
   // 부산광역시
   '해운대구': 'Haeundae',
@@ -120,6 +120,7 @@ export const MUNICIPALITY_KR_TO_EN: Record<string, string> = {
   '서구': 'Seo',
   '영도구': 'Yeongdo',
   '부산진구': 'Busanjin',
+  '동래구': 'Dongnae',
   '기장군': 'Gijang',
 
   // 경상남도
@@ -172,6 +173,22 @@ export const MUNICIPALITY_KR_TO_EN: Record<string, string> = {
   '예산군': 'Yesan',
   '태안군': 'Taean',
 
+  // 전북특별자치도
+  '전주시': 'Jeonju',
+  '군산시': 'Gunsan',
+  '익산시': 'Iksan',
+  '정읍시': 'Jeongeup',
+  '남원시': 'Namwon',
+  '김제시': 'Gimje',
+  '완주군': 'Wanju',
+  '진안군': 'Jinan',
+  '무주군': 'Muju',
+  '장수군': 'Jangsu',
+  '임실군': 'Imsil',
+  '순창군': 'Sunchang',
+  '고창군': 'Gochang',
+  '부안군': 'Buan',
+
   // 전라남도
   '목포시': 'Mokpo',
   '여수시': 'Yeosu',
@@ -302,6 +319,65 @@ export const PROVINCE_ABBR_TO_EN: Record<string, string> = {
   '제주': 'Jeju',
 };
 
+/**
+ * 시/도별 시/군/구 목록 (한글)
+ * 기관명에서 지역을 추론하거나 (시/도, 시/군/구) 조합을 확인할 때 사용합니다.
+ *
+ * 참고: 중구, 동구, 고성군 등은 여러 시/도에 존재합니다.
+ * 군위군은 GeoJSON 기준(2023년 대구 편입 이전)에 맞춰 경상북도에 둡니다.
+ */
+export const MUNICIPALITIES_BY_PROVINCE: Record<string, string[]> = {
+  '서울특별시': [
+    '종로구', '중구', '용산구', '성동구', '광진구', '동대문구', '중랑구', '성북구', '강북구',
+    '도봉구', '노원구', '은평구', '서대문구', '마포구', '양천구', '강서구', '구로구', '금천구',
+    '영등포구', '동작구', '관악구', '서초구', '강남구', '송파구', '강동구',
+  ],
+  '부산광역시': [
+    '중구', '서구', '동구', '영도구', '부산진구', '동래구', '남구', '북구', '해운대구',
+    '사하구', '금정구', '강서구', '연제구', '수영구', '사상구', '기장군',
+  ],
+  '대구광역시': ['중구', '동구', '서구', '남구', '북구', '수성구', '달서구', '달성군'],
+  '인천광역시': ['중구', '동구', '미추홀구', '연수구', '남동구', '부평구', '계양구', '서구', '강화군', '옹진군'],
+  '광주광역시': ['동구', '서구', '남구', '북구', '광산구'],
+  '대전광역시': ['동구', '중구', '서구', '유성구', '대덕구'],
+  '울산광역시': ['중구', '남구', '동구', '북구', '울주군'],
+  '세종특별자치시': [],
+  '경기도': [
+    '수원시', '성남시', '의정부시', '안양시', '부천시', '광명시', '평택시', '동두천시', '안산시',
+    '고양시', '과천시', '구리시', '남양주시', '오산시', '시흥시', '군포시', '의왕시', '하남시',
+    '용인시', '파주시', '이천시', '안성시', '김포시', '화성시', '광주시', '양주시', '포천시',
+    '여주시', '연천군', '가평군', '양평군',
+  ],
+  '강원특별자치도': [
+    '춘천시', '원주시', '강릉시', '동해시', '태백시', '속초시', '삼척시', '홍천군', '횡성군',
+    '영월군', '평창군', '정선군', '철원군', '화천군', '양구군', '인제군', '고성군', '양양군',
+  ],
+  '충청북도': ['청주시', '충주시', '제천시', '보은군', '옥천군', '영동군', '증평군', '진천군', '괴산군', '음성군', '단양군'],
+  '충청남도': [
+    '천안시', '공주시', '보령시', '아산시', '서산시', '논산시', '계룡시', '당진시', '금산군',
+    '부여군', '서천군', '청양군', '홍성군', '예산군', '태안군',
+  ],
+  '전북특별자치도': [
+    '전주시', '군산시', '익산시', '정읍시', '남원시', '김제시', '완주군', '진안군', '무주군',
+    '장수군', '임실군', '순창군', '고창군', '부안군',
+  ],
+  '전라남도': [
+    '목포시', '여수시', '순천시', '나주시', '광양시', '담양군', '곡성군', '구례군', '고흥군',
+    '보성군', '화순군', '장흥군', '강진군', '해남군', '영암군', '무안군', '함평군', '영광군',
+    '장성군', '완도군', '진도군', '신안군',
+  ],
+  '경상북도': [
+    '포항시', '경주시', '김천시', '안동시', '구미시', '영주시', '영천시', '상주시', '문경시',
+    '경산시', '군위군', '의성군', '청송군', '영양군', '영덕군', '청도군', '고령군', '성주군',
+    '칠곡군', '예천군', '봉화군', '울진군', '울릉군',
+  ],
+  '경상남도': [
+    '창원시', '진주시', '통영시', '사천시', '김해시', '밀양시', '거제시', '양산시', '의령군',
+    '함안군', '창녕군', '고성군', '남해군', '하동군', '산청군', '함양군', '거창군', '합천군',
+  ],
+  '제주특별자치도': ['제주시', '서귀포시'],
+};
+
 /**
  * 영어 지역명을 한글로 변환
  * @param englishName GeoJSON에서 가져온 영어 지역명
@@ -354,3 +430,69 @@ export function isSameRegion(name1: string, name2: string): boolean {
 
   return clean1 === clean2 || clean1.includes(clean2) || clean2.includes(clean1);
 }
+
+/**
+ * 행정구역 개편 이전 시/도 명칭
+ */
+const OUTDATED_PROVINCE_NAMES: Record<string, string> = {
+  '전라북도': '전북특별자치도',
+  '강원도': '강원특별자치도',
+  '제주도': '제주특별자치도',
+};
+
+/**
+ * 시/도 명칭을 정식 명칭으로 변환
+ * 정식 명칭 → 약어 → 옛 명칭 → 부분 매칭(isSameRegion) 순으로 확인합니다.
+ * @example canonicalProvince('서울시') // '서울특별시'
+ * @example canonicalProvince('전라북도') // '전북특별자치도'
+ * @returns 정식 명칭 (인식하지 못하면 undefined)
+ */
+export function canonicalProvince(name: string): string | undefined {
+  const trimmed = name.trim();
+  if (PROVINCE_KR_TO_EN[trimmed]) return trimmed;
+  if (PROVINCE_ABBR_TO_EN[trimmed]) return PROVINCE_EN_TO_KR[PROVINCE_ABBR_TO_EN[trimmed]];
+  if (OUTDATED_PROVINCE_NAMES[trimmed]) return OUTDATED_PROVINCE_NAMES[trimmed];
+
+  const matches = Object.keys(PROVINCE_KR_TO_EN).filter(province => isSameRegion(trimmed, province));
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * GeoJSON NAME_2(영문)를 해당 시/도의 한글 시/군/구명으로 변환
+ * 같은 영문명이 여러 시/도에 있으므로(Jung, Dong, Goseong 등) 시/도 안에서만 찾습니다.
+ * 표기가 조금 다른 경우('Suwon-si', 'Gwangju-si')는 접미사를 떼고 비교합니다.
+ * 한글 경계 데이터(SGIS 등)의 이름은 그대로 쓰며, '수원시 장안구'처럼 구가 붙은 이름은 시로 묶습니다.
+ * @param province 한글 시/도명 (정식 명칭)
+ * @param englishName GeoJSON NAME_2
+ * @returns 한글 시/군/구명 (찾지 못하면 undefined)
+ */
+export function toKoreanMunicipality(province: string, englishName: string): string | undefined {
+  const municipalities = MUNICIPALITIES_BY_PROVINCE[province] ?? [];
+  if (/[가-힣]/.test(englishName)) {
+    const korean = englishName.replace(/\s+/g, '');
+    return municipalities.find(municipality => municipality === korean)
+      ?? municipalities.find(municipality => /시$/.test(municipality) && korean.startsWith(municipality));
+  }
+
+  const normalize = (name: string) =>
+    name.toLowerCase().replace(/[\s'-]/g, '').replace(/(si|gun|gu)$/, '');
+  const target = normalize(englishName);
+
+  return municipalities.find(municipality => {
+    const english = Object.entries(MUNICIPALITY_KR_TO_EN)
+      .filter(([kr]) => kr === municipality || kr.startsWith(`${municipality}(`))
+      .map(([, en]) => en);
+    return english.some(en => en === englishName || normalize(en) === target);
+  });
+}
+
+/**
+ * 시/군/구 이름으로 해당 시/도 목록 조회
+ * @param municipality 한글 시/군/구명 (예: '강동구', '하동군')
+ * @returns 한글 시/도명 목록 (동명 구가 있으면 여러 개, 없으면 빈 배열)
+ */
+export function findProvincesOfMunicipality(municipality: string): string[] {
+  return Object.entries(MUNICIPALITIES_BY_PROVINCE)
+    .filter(([, municipalities]) => municipalities.includes(municipality))
+    .map(([province]) => province);
+}
@@ -0,0 +1,214 @@
+/**
+ * 계약 정보 / 사용자 지표 변경 이력 (서버 전용)
+ *
+ * /api/sheets 로 들어온 변경을 Google Sheets 에 반영하면서
+ * 변경한 사용자, 시각, 변경 전/후 값을 기록하고, 기록된 이전 값으로 되돌립니다.
+ * 저장 위치: DATA_DIR/audit-log.json
+ *
+ * - 이력은 Google Sheets 에 쓰기 전에 먼저 기록(pending)하고, 반영에 성공하면 확정 / 실패하면 삭제합니다.
+ *   (이력을 남기지 못하면 반영하지 않으므로 기록 없는 변경이 생기지 않음)
+ * - 변경 전 값 읽기부터 이력 확정까지 한 번에 하나씩 처리합니다. (동시 변경 시 변경 전 값이 어긋나지 않도록)
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  ContractInfo,
+  CONTRACT_CHANNEL_LABELS,
+  PAYMENT_METHOD_LABELS,
+  BILLING_TYPE_LABELS,
+  hasContractInfo,
+} from '@/data/clients';
+import type { SessionUser } from '@/lib/auth';
+import {
+  loadSheetData,
+  saveContract,
+  deleteContract,
+  saveUserMetrics,
+  deleteUserMetrics,
+  UserMetrics,
+} from '@/lib/googleSheets';
+import { readJsonFile, updateJsonFile, withFileLock } from '@/lib/jsonStore';
+import type { AuditAction, AuditEntry, AuditTarget, AuditValue } from '@/lib/sheetsApi';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/** Google Sheets 에 반영할 변경 한 건 */
+export interface SheetChange {
+  clientName: string;
+  target: AuditTarget;
+  /** 저장할 값 (null 이면 삭제) */
+  value: AuditValue | null;
+}
+
+// ============================================================================
+// 값 정규화
+// ============================================================================
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+}
+
+/**
+ * 계약 정보 정규화 (알 수 없는 값은 버리고, 남는 값이 없으면 null)
+ * 요청 본문과 Google Sheets 값을 같은 형태로 맞춰 변경 전/후를 비교합니다.
+ */
+export function normalizeContract(value: unknown): ContractInfo | null {
+  const raw = asRecord(value);
+  const pick = <T extends string>(v: unknown, labels: Record<T, string>): T | undefined =>
+    typeof v === 'string' && Object.hasOwn(labels, v) ? (v as T) : undefined;
+  const date = typeof raw.contractDate === 'string' ? raw.contractDate.slice(0, 10) : '';
+
+  const info: ContractInfo = {
+    channel: pick(raw.channel, CONTRACT_CHANNEL_LABELS),
+    payment: pick(raw.payment, PAYMENT_METHOD_LABELS),
+    billing: pick(raw.billing, BILLING_TYPE_LABELS),
+    contractDate: /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : undefined,
+    note: typeof raw.note === 'string' && raw.note ? raw.note : undefined,
+  };
+  return hasContractInfo(info) || info.contractDate || info.note ? info : null;
+}
+
+/**
+ * 사용자 지표 정규화 (0 이상 정수만, 남는 값이 없으면 null)
+ */
+export function normalizeMetrics(value: unknown): UserMetrics | null {
+  const raw = asRecord(value);
+  const count = (v: unknown) => {
+    const n = typeof v === 'string' && v !== '' ? Number(v) : v;
+    return typeof n === 'number' && Number.isInteger(n) && n >= 0 ? n : undefined;
+  };
+
+  const metrics: UserMetrics = {
+    activeUsers: count(raw.activeUsers),
+    totalUsers: count(raw.totalUsers),
+  };
+  return metrics.activeUsers !== undefined || metrics.totalUsers !== undefined ? metrics : null;
+}
+
+function normalizeValue(target: AuditTarget, value: unknown): AuditValue | null {
+  return target === 'contract' ? normalizeContract(value) : normalizeMetrics(value);
+}
+
+function isSameValue(a: AuditValue | null, b: AuditValue | null): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// ============================================================================
+// 저장소
+// ============================================================================
+
+const AUDIT_LOG_FILE = 'audit-log.json';
+
+/** Google Sheets 변경 잠금 이름 (변경 전 값 읽기 → 쓰기 → 이력 확정을 순서대로) */
+const SHEET_CHANGE_LOCK = 'google-sheets';
+
+/**
+ * 변경 이력 (최신순)
+ * @param clientName 지정하면 해당 고객사 이력만
+ */
+export async function listAuditEntries(clientName?: string): Promise<AuditEntry[]> {
+  const entries = await readJsonFile<AuditEntry[]>(AUDIT_LOG_FILE, () => []);
+  return entries
+    .filter((entry) => !clientName || entry.clientName === clientName)
+    .reverse();
+}
+
+/**
+ * 변경 이력 한 건 (없으면 null)
+ */
+export async function getAuditEntry(id: string): Promise<AuditEntry | null> {
+  const entries = await readJsonFile<AuditEntry[]>(AUDIT_LOG_FILE, () => []);
+  return entries.find((entry) => entry.id === id) ?? null;
+}
+
+async function appendAuditEntry(entry: AuditEntry): Promise<void> {
+  await updateJsonFile<AuditEntry[]>(AUDIT_LOG_FILE, () => [], (entries) => [...entries, entry]);
+}
+
+/**
+ * 반영 확인 전 이력 확정 (반영에 실패했으면 삭제)
+ */
+async function settleAuditEntry(id: string, applied: boolean): Promise<void> {
+  await updateJsonFile<AuditEntry[]>(AUDIT_LOG_FILE, () => [], (entries) =>
+    applied
+      ? entries.map((entry) => (entry.id === id ? { ...entry, pending: undefined } : entry))
+      : entries.filter((entry) => entry.id !== id)
+  );
+}
+
+// ============================================================================
+// 변경 반영
+// ============================================================================
+
+/**
+ * Google Sheets 에 변경을 반영하고 이력에 기록
+ * 변경 전 값은 저장 직전에 Google Sheets 에서 다시 읽어 기록합니다.
+ *
+ * @param options.revertOf 되돌리기면 되돌리는 이력 ID
+ * @param options.expected 지정하면 현재 값이 이 값과 같을 때만 반영 (되돌리기 충돌 방지)
+ * @returns 기록된 이력, 현재 값이 expected 와 다르면 null
+ * @throws Google Sheets 읽기 / 쓰기 또는 이력 기록 실패 시 에러 (이 경우 반영하지 않음)
+ */
+export async function applySheetChange(
+  change: SheetChange,
+  user: SessionUser,
+  options: { revertOf?: string; expected?: AuditValue | null } = {}
+): Promise<AuditEntry | null> {
+  return withFileLock(SHEET_CHANGE_LOCK, () => applySheetChangeLocked(change, user, options));
+}
+
+async function applySheetChangeLocked(
+  change: SheetChange,
+  user: SessionUser,
+  options: { revertOf?: string; expected?: AuditValue | null }
+): Promise<AuditEntry | null> {
+  const { clientName, target } = change;
+  const current = await loadSheetData();
+  const before = normalizeValue(
+    target,
+    target === 'contract' ? current.contracts[clientName] : current.users[clientName]
+  );
+  if (options.expected !== undefined && !isSameValue(before, options.expected)) {
+    return null;
+  }
+
+  const after = change.value && normalizeValue(target, change.value);
+  const action: AuditAction = options.revertOf ? 'revert' : after ? 'save' : 'delete';
+  const entry: AuditEntry = {
+    id: randomUUID(),
+    clientName,
+    target,
+    action,
+    before,
+    after,
+    userId: user.id,
+    userName: user.name,
+    createdAt: new Date().toISOString(),
+    revertOf: options.revertOf,
+  };
+  await appendAuditEntry({ ...entry, pending: true });
+
+  let success: boolean;
+  if (target === 'contract') {
+    success = after
+      ? await saveContract(clientName, after as ContractInfo, user.name)
+      : await deleteContract(clientName);
+  } else {
+    success = after
+      ? await saveUserMetrics(clientName, after as UserMetrics, user.name)
+      : await deleteUserMetrics(clientName);
+  }
+
+  // 확정 / 삭제에 실패해도 이력은 pending 으로 남아 있으므로 결과는 그대로 응답
+  try {
+    await settleAuditEntry(entry.id, success);
+  } catch (error) {
+    console.error('변경 이력 확정 실패:', error);
+  }
+  if (!success) {
+    throw new Error('Google Sheets 저장에 실패했습니다');
+  }
+  return entry;
+}
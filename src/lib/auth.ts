@@ -3,13 +3,108 @@
  *
  * 추가 패키지 없이 Next.js 미들웨어에서도 동작합니다.
  * 세션 토큰 형식: base64url(payload).base64url(HMAC-SHA256 signature)
+ * payload: { sid: 세션 ID, sub: 사용자 ID, name, role, iat, exp, act }
+ *
+ * 토큰 자체는 상태가 없으므로 로그아웃 / 강제 로그아웃은 서버의 폐기 목록(sessionRevocation.ts)에서 확인합니다.
  */
 
 export const COOKIE_NAME = 'gov_session';
 
-/** 세션 유효 시간 (초) - 기본 8시간 */
+/** 세션 유효 시간 (초) - 기본 8시간, 만료가 가까우면 미들웨어가 연장 */
 export const COOKIE_MAX_AGE = 60 * 60 * 8;
 
+/** 로그인 후 최대 유지 시간 (초) - 연장을 반복해도 1일이 지나면 다시 로그인 */
+export const SESSION_ABSOLUTE_MAX_AGE = 60 * 60 * 24;
+
+/** 남은 유효 시간이 이보다 짧으면 연장 (초) - 1시간 */
+const SESSION_RENEW_THRESHOLD = 60 * 60;
+
+/** 마지막 활동 시각 갱신 간격 (초) - 요청마다 쿠키를 다시 발급하지 않도록 */
+const ACTIVITY_REFRESH_INTERVAL = 60;
+
+/** 기본 유휴 시간 제한 (분) */
+const DEFAULT_IDLE_MINUTES = 30;
+
+// ============================================================================
+// 사용자 권한
+// ============================================================================
+
+/**
+ * 사용자 권한 (아래로 갈수록 상위 권한, 상위 권한은 하위 권한을 모두 포함)
+ * - viewer: 대시보드 / 리포트 조회
+ * - editor: 계약 정보 · 사용자 지표 수정 (영업 담당)
+ * - admin: 데이터 가져오기, 분류 검토, 경계 설정, 사용자 관리
+ */
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: '조회',
+  editor: '영업 편집',
+  admin: '관리자',
+};
+
+/** 세션에 담긴 사용자 정보 */
+export interface SessionUser {
+  id: string;
+  name: string;
+  role: UserRole;
+}
+
+/** 검증된 세션 토큰 */
+export interface Session {
+  /** 세션 ID (로그인마다 새로 발급, 폐기 목록의 키) */
+  sid: string;
+  user: SessionUser;
+  /** 로그인 시각 (ms) */
+  issuedAt: number;
+  /** 만료 시각 (ms) */
+  expiresAt: number;
+  /** 마지막 활동 시각 (ms) */
+  lastActiveAt: number;
+}
+
+/**
+ * 경로별 필요 권한 (나머지 경로는 viewer)
+ * methods 를 지정하면 해당 메서드에만 적용합니다.
+ */
+const ROUTE_ROLES: { path: string; role: UserRole; methods?: string[] }[] = [
+  { path: '/import', role: 'admin' },
+  { path: '/api/import', role: 'admin' },
+  { path: '/api/review', role: 'admin' },
+  { path: '/api/region-issues', role: 'admin' },
+  { path: '/api/users', role: 'admin' },
+  { path: '/api/boundaries', role: 'admin', methods: ['POST'] },
+  { path: '/api/sheets', role: 'editor', methods: ['POST'] },
+];
+
+/**
+ * 권한 비교 (role 이 required 이상인지)
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+/**
+ * 요청 경로에 필요한 권한
+ */
+export function requiredRole(method: string, pathname: string): UserRole {
+  const rule = ROUTE_ROLES.find(
+    (r) =>
+      (pathname === r.path || pathname.startsWith(`${r.path}/`)) &&
+      (!r.methods || r.methods.includes(method))
+  );
+  return rule?.role ?? 'viewer';
+}
+
+/**
+ * 알려진 권한 값인지 (토큰 / 요청 본문 검증용)
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
 // ============================================================================
 // 내부 유틸리티
 // ============================================================================
@@ -46,17 +141,30 @@ async function getHmacKey(secret: string): Promise<CryptoKey> {
   );
 }
 
+/**
+ * 유휴 시간 제한 (ms) - SESSION_IDLE_MINUTES 환경변수, 기본 30분
+ */
+function getIdleTimeoutMs(): number {
+  const minutes = Number(process.env.SESSION_IDLE_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_IDLE_MINUTES) * 60 * 1000;
+}
+
 // ============================================================================
 // 세션 토큰 생성 / 검증
 // ============================================================================
 
 /**
- * 서명된 세션 토큰 생성
+ * 세션 서명 (연장한 세션을 다시 발급할 때도 사용)
  */
-export async function createSessionToken(secret: string): Promise<string> {
+export async function signSessionToken(secret: string, session: Session): Promise<string> {
   const payload = JSON.stringify({
-    iat: Date.now(),
-    exp: Date.now() + COOKIE_MAX_AGE * 1000,
+    sid: session.sid,
+    sub: session.user.id,
+    name: session.user.name,
+    role: session.user.role,
+    iat: session.issuedAt,
+    exp: session.expiresAt,
+    act: session.lastActiveAt,
   });
 
   const payloadBytes = new TextEncoder().encode(payload);
@@ -73,35 +181,87 @@ export async function createSessionToken(secret: string): Promise<string> {
 }
 
 /**
- * 세션 토큰 검증
+ * 새 세션 토큰 생성 (로그인 시)
+ */
+export async function createSessionToken(secret: string, user: SessionUser): Promise<string> {
+  const now = Date.now();
+  return signSessionToken(secret, {
+    sid: crypto.randomUUID(),
+    user,
+    issuedAt: now,
+    expiresAt: now + COOKIE_MAX_AGE * 1000,
+    lastActiveAt: now,
+  });
+}
+
+/**
+ * 세션 연장 (같은 세션 ID 유지)
+ * - 마지막 활동 시각을 현재로 갱신
+ * - 남은 유효 시간이 짧으면 만료 시각을 COOKIE_MAX_AGE 만큼 연장 (로그인 후 최대 유지 시간까지)
+ * @returns 다시 발급할 필요가 없으면 null
+ */
+export function renewSession(session: Session, now = Date.now()): Session | null {
+  const nearExpiry = session.expiresAt - now < SESSION_RENEW_THRESHOLD * 1000;
+  const activityStale = now - session.lastActiveAt >= ACTIVITY_REFRESH_INTERVAL * 1000;
+  if (!nearExpiry && !activityStale) return null;
+
+  const absoluteExpiry = session.issuedAt + SESSION_ABSOLUTE_MAX_AGE * 1000;
+  return {
+    ...session,
+    expiresAt: nearExpiry ? Math.min(now + COOKIE_MAX_AGE * 1000, absoluteExpiry) : session.expiresAt,
+    lastActiveAt: now,
+  };
+}
+
+/**
+ * 세션 토큰 검증 (서명 / 시간만 확인, 폐기 여부는 sessionRevocation.ts)
  * - 서명 위조 여부 확인
  * - 만료 여부 확인
+ * - 유휴 시간 제한 초과 여부 확인 (마지막 활동 후 SESSION_IDLE_MINUTES)
+ * - 세션 ID / 사용자 정보가 없는 이전 형식 토큰은 거부 (다시 로그인)
+ * @returns 유효하면 세션, 아니면 null
  */
 export async function verifySessionToken(
   token: string,
   secret: string
-): Promise<boolean> {
+): Promise<Session | null> {
   try {
     const dotIdx = token.lastIndexOf('.');
-    if (dotIdx === -1) return false;
+    if (dotIdx === -1) return null;
 
     const encodedPayload = token.slice(0, dotIdx);
     const encodedSig = token.slice(dotIdx + 1);
 
-    if (!encodedPayload || !encodedSig) return false;
+    if (!encodedPayload || !encodedSig) return null;
 
     const key = await getHmacKey(secret);
     const sigBytes = fromBase64url(encodedSig);
     const msgBytes = new TextEncoder().encode(encodedPayload);
 
     const isValid = await crypto.subtle.verify('HMAC', key, sigBytes, msgBytes);
-    if (!isValid) return false;
+    if (!isValid) return null;
 
     const payloadBytes = fromBase64url(encodedPayload);
     const payload = JSON.parse(new TextDecoder().decode(payloadBytes));
 
-    return typeof payload.exp === 'number' && payload.exp > Date.now();
+    const now = Date.now();
+    if (typeof payload.exp !== 'number' || payload.exp <= now) return null;
+    if (typeof payload.act !== 'number' || now - payload.act > getIdleTimeoutMs()) return null;
+    if (typeof payload.iat !== 'number' || typeof payload.sid !== 'string') return null;
+    if (typeof payload.sub !== 'string' || !isUserRole(payload.role)) return null;
+
+    return {
+      sid: payload.sid,
+      user: {
+        id: payload.sub,
+        name: typeof payload.name === 'string' ? payload.name : payload.sub,
+        role: payload.role,
+      },
+      issuedAt: payload.iat,
+      expiresAt: payload.exp,
+      lastActiveAt: payload.act,
+    };
   } catch {
-    return false;
+    return null;
   }
 }
@@ -0,0 +1,495 @@
+/**
+ * 월별 청구 데이터 가져오기 (서버 전용)
+ *
+ * 청구 시스템에서 내려받은 CSV / XLSX / JSON 파일을 파싱·검증하고,
+ * 현재 저장소 데이터와 비교(diff)한 뒤 해당 월 데이터로 반영합니다.
+ *
+ * 지원 형식
+ * - JSON: _classified.json 형식 ({ "교육청": [{ name, charge, usage }], ... }) 또는 행 배열
+ * - CSV / XLSX: 첫 행이 헤더 (기관명, 사용금액, 사용량, 분류, 활성사용자, 전체가입자)
+ */
+
+import * as XLSX from 'xlsx';
+import {
+  CategorizedRecord,
+  ClientCategory,
+  CLIENT_CATEGORY_LABELS,
+  CLIENT_NAME_ALIASES,
+  MonthKey,
+  MonthlyMetrics,
+} from '@/data/clients';
+import { Classification, classifyOrganization, describeClassification } from '@/lib/orgClassifier';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 검증된 가져오기 행 (기관명 기준으로 병합됨)
+ */
+export interface ImportRow {
+  /** 원본 파일 행 번호 (병합된 경우 첫 행) */
+  row: number;
+  name: string;
+  category?: ClientCategory;
+  charge: number;
+  usage: number;
+  activeUsers?: number;
+  totalUsers?: number;
+  /** 신규 고객사 지역 (기관명에서 추론) */
+  region?: string;
+  subRegion?: string;
+  /** 자동 분류 결과 (파일에 분류가 없는 신규 고객사) */
+  classification?: Classification;
+}
+
+/**
+ * 검증 오류 / 경고
+ */
+export interface ImportIssue {
+  /** 원본 파일 행 번호 (파일 전체 오류면 null) */
+  row: number | null;
+  name?: string;
+  message: string;
+}
+
+export interface ParsedImport {
+  rows: ImportRow[];
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+/**
+ * 저장소 대비 변경 내역
+ */
+export interface ImportDiff {
+  /** 비교 기준 월 (같은 월이 이미 있으면 해당 월, 없으면 직전 데이터 월) */
+  baseMonth: MonthKey | null;
+  /** 저장소에 없는 신규 고객사 */
+  added: ImportRow[];
+  /** 기준 월 대비 사용금액/사용량이 바뀐 고객사 */
+  changed: { name: string; before: MonthlyMetrics; after: ImportRow }[];
+  /** 기준 월에는 있었지만 파일에 없는 고객사 */
+  removed: { name: string; category: ClientCategory; before: MonthlyMetrics }[];
+  /** 변동 없는 고객사 수 */
+  unchangedCount: number;
+}
+
+/** 파싱 전 원본 행 */
+interface RawRow {
+  row: number;
+  /** 열 이름 → 값 (JSON 은 객체가 아닌 행이 있을 수 있어 검증 단계에서 확인) */
+  values: unknown;
+  /** JSON 분류별 객체 형식의 분류 라벨 */
+  categoryLabel?: string;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+/** 업로드 파일 최대 크기 (5MB) */
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024;
+
+/** 월 키 형식 (YYYY-MM) */
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * 청구 데이터 분류 라벨 → 고객사 분류
+ * null 은 가져오기에서 제외 ('기타' = 부서/개인 단위 계정)
+ * 업로드 값으로 조회하므로 프로토타입 속성(constructor 등)이 걸리지 않도록 Map 을 사용합니다.
+ */
+const CATEGORY_LABEL_MAP = new Map<string, ClientCategory | null>([
+  ...(Object.entries(CLIENT_CATEGORY_LABELS) as [ClientCategory, string][]).flatMap(
+    ([key, label]): [string, ClientCategory][] => [[label, key], [key, key]]
+  ),
+  ['민간기업', 'private'],
+  ['대학교', 'university'],
+  ['기타', null],
+]);
+
+/** 헤더 별칭 (공백 제거, 소문자 기준) */
+const HEADER_ALIASES = {
+  name: ['name', '기관명', '고객사', '고객사명', '조직명'],
+  category: ['category', '분류', '구분'],
+  charge: ['charge', '사용금액', '청구금액', '금액'],
+  usage: ['usage', '사용량'],
+  activeUsers: ['activeusers', '활성사용자', '활성사용자수'],
+  totalUsers: ['totalusers', '전체가입자', '전체가입자수', '가입자수'],
+} as const;
+
+type ImportField = keyof typeof HEADER_ALIASES;
+
+// ============================================================================
+// 파일 읽기
+// ============================================================================
+
+/**
+ * 월 키 형식 확인
+ */
+export function isValidMonth(month: string): boolean {
+  return MONTH_PATTERN.test(month);
+}
+
+/**
+ * 텍스트 디코딩 (UTF-8 우선, 깨지면 EUC-KR - 한글 Excel CSV)
+ */
+function decodeText(buffer: Buffer): string {
+  const utf8 = new TextDecoder('utf-8').decode(buffer);
+  const text = utf8.includes('\uFFFD') ? new TextDecoder('euc-kr').decode(buffer) : utf8;
+  return text.replace(/^\uFEFF/, '');
+}
+
+function readJsonRows(text: string): RawRow[] {
+  const data: unknown = JSON.parse(text);
+
+  if (Array.isArray(data)) {
+    return data.map((values, i) => ({ row: i + 1, values }));
+  }
+
+  if (data && typeof data === 'object') {
+    let row = 0;
+    return Object.entries(data as Record<string, unknown>).flatMap(([label, items]) =>
+      Array.isArray(items)
+        ? items.map((values) => ({ row: ++row, values, categoryLabel: label }))
+        : []
+    );
+  }
+
+  throw new Error('JSON 최상위는 배열 또는 분류별 객체여야 합니다');
+}
+
+function readSheetRows(workbook: XLSX.WorkBook): RawRow[] {
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, {
+    defval: '',
+    raw: true,
+  });
+  // 1행은 헤더이므로 데이터는 2행부터
+  return rows.map((values, i) => ({ row: i + 2, values }));
+}
+
+/**
+ * 청구 데이터 파일 파싱 및 검증
+ * @param fileName 확장자로 형식 판단 (.csv / .xlsx / .xls / .json)
+ * @param buffer 파일 내용
+ */
+export function parseBillingFile(fileName: string, buffer: Buffer): ParsedImport {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  let raw: RawRow[];
+
+  try {
+    if (ext === 'json') {
+      raw = readJsonRows(decodeText(buffer));
+    } else if (ext === 'csv') {
+      raw = readSheetRows(XLSX.read(decodeText(buffer), { type: 'string', raw: true }));
+    } else if (ext === 'xlsx' || ext === 'xls') {
+      raw = readSheetRows(XLSX.read(buffer, { type: 'buffer' }));
+    } else {
+      return fileError('지원하지 않는 파일 형식입니다 (CSV, XLSX, JSON)');
+    }
+  } catch (error) {
+    return fileError(`파일을 읽을 수 없습니다: ${(error as Error).message}`);
+  }
+
+  if (raw.length === 0) {
+    return fileError('데이터 행이 없습니다');
+  }
+
+  return validateRows(raw);
+}
+
+function fileError(message: string): ParsedImport {
+  return { rows: [], errors: [{ row: null, message }], warnings: [] };
+}
+
+// ============================================================================
+// 검증
+// ============================================================================
+
+/**
+ * 헤더 별칭으로 필드 값 찾기
+ */
+function pickField(values: Record<string, unknown>, field: ImportField): unknown {
+  const aliases: readonly string[] = HEADER_ALIASES[field];
+  const key = Object.keys(values).find((k) =>
+    aliases.includes(k.replace(/\s/g, '').toLowerCase())
+  );
+  return key === undefined ? undefined : values[key];
+}
+
+/**
+ * 숫자 변환 ('1,234원' 등 허용)
+ * @returns 빈 값이면 undefined, 숫자가 아니면 NaN
+ */
+function parseNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return value;
+  const cleaned = String(value).replace(/[,\s원]/g, '');
+  return cleaned === '' ? undefined : Number(cleaned);
+}
+
+/**
+ * 열 이름 → 값 객체인지 (null / 배열 / 원시값 제외)
+ */
+function isRowObject(values: unknown): values is Record<string, unknown> {
+  return typeof values === 'object' && values !== null && !Array.isArray(values);
+}
+
+function validateRows(raw: RawRow[]): ParsedImport {
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+  const merged = new Map<string, ImportRow>();
+
+  raw.forEach(({ row, values, categoryLabel }) => {
+    if (!isRowObject(values)) {
+      errors.push({ row, message: '행 형식이 올바르지 않습니다' });
+      return;
+    }
+
+    const rawName = String(pickField(values, 'name') ?? '').trim();
+    if (!rawName) {
+      errors.push({ row, message: '기관명이 비어 있습니다' });
+      return;
+    }
+
+    // 분류
+    const label = String(pickField(values, 'category') || categoryLabel || '').trim();
+    let category: ClientCategory | undefined;
+    if (label) {
+      const mapped = CATEGORY_LABEL_MAP.get(label);
+      if (mapped === undefined) {
+        errors.push({ row, name: rawName, message: `알 수 없는 분류입니다: ${label}` });
+        return;
+      }
+      if (mapped === null) {
+        warnings.push({ row, name: rawName, message: `'${label}' 분류는 가져오기에서 제외됩니다` });
+        return;
+      }
+      category = mapped;
+    }
+
+    // 사용금액 / 사용량
+    const charge = parseNumber(pickField(values, 'charge'));
+    const usage = parseNumber(pickField(values, 'usage'));
+    if (charge === undefined || Number.isNaN(charge) || charge < 0) {
+      errors.push({ row, name: rawName, message: '사용금액이 올바르지 않습니다' });
+      return;
+    }
+    if (usage === undefined || Number.isNaN(usage) || usage < 0) {
+      errors.push({ row, name: rawName, message: '사용량이 올바르지 않습니다' });
+      return;
+    }
+
+    // 사용자 수 (선택)
+    const activeUsers = parseNumber(pickField(values, 'activeUsers'));
+    const totalUsers = parseNumber(pickField(values, 'totalUsers'));
+    if ((activeUsers !== undefined && Number.isNaN(activeUsers)) ||
+        (totalUsers !== undefined && Number.isNaN(totalUsers))) {
+      errors.push({ row, name: rawName, message: '사용자 수가 올바르지 않습니다' });
+      return;
+    }
+    if (activeUsers !== undefined && totalUsers !== undefined && activeUsers > totalUsers) {
+      warnings.push({ row, name: rawName, message: '활성사용자가 전체가입자보다 많습니다' });
+    }
+
+    // 별칭 → 대시보드 기관명
+    const name = CLIENT_NAME_ALIASES[rawName] ?? rawName;
+    if (name !== rawName) {
+      warnings.push({ row, name: rawName, message: `'${name}'(으)로 합산됩니다` });
+    }
+
+    const existing = merged.get(name);
+    if (!existing) {
+      merged.set(name, { row, name, category, charge, usage, activeUsers, totalUsers });
+      return;
+    }
+
+    // 같은 기관명 행 병합
+    if (name === rawName) {
+      warnings.push({ row, name, message: `${existing.row}행과 기관명이 같아 합산됩니다` });
+    }
+    if (category && existing.category && category !== existing.category) {
+      errors.push({ row, name, message: `${existing.row}행과 분류가 다릅니다` });
+      return;
+    }
+    existing.category = existing.category ?? category;
+    existing.charge += charge;
+    existing.usage += usage;
+    if (activeUsers !== undefined) existing.activeUsers = (existing.activeUsers ?? 0) + activeUsers;
+    if (totalUsers !== undefined) existing.totalUsers = (existing.totalUsers ?? 0) + totalUsers;
+  });
+
+  const rows = [...merged.values()].sort((a, b) => b.charge - a.charge);
+  return { rows, errors, warnings };
+}
+
+/**
+ * 신규 고객사 자동 분류
+ * - 파일에 분류가 없으면 기관명 규칙으로 분류 (orgClassifier)
+ * - region / subRegion 은 기관명에서 추론
+ * 신뢰도가 낮은 결과는 반영 시 검토 대기열로 보냅니다.
+ */
+export function classifyNewRows(
+  records: CategorizedRecord[],
+  rows: ImportRow[]
+): { rows: ImportRow[]; warnings: ImportIssue[] } {
+  const warnings: ImportIssue[] = [];
+  const existingNames = new Set(records.map((record) => record.name));
+
+  const classified = rows.map((row) => {
+    if (existingNames.has(row.name)) return row;
+
+    const classification = classifyOrganization(row.name);
+    const { region, subRegion } = classification;
+    if (row.category) return { ...row, region, subRegion };
+
+    if (classification.category) {
+      warnings.push({
+        row: row.row,
+        name: row.name,
+        message: classification.confidence === 'low'
+          ? `자동 분류: ${describeClassification(classification)} - 신뢰도가 낮아 검토 대기열에 추가됩니다`
+          : `자동 분류: ${describeClassification(classification)}`,
+      });
+    }
+    return { ...row, category: classification.category ?? undefined, region, subRegion, classification };
+  });
+
+  return { rows: classified, warnings };
+}
+
+/**
+ * 저장소 데이터와의 충돌 검사
+ * - 신규 고객사인데 분류가 없으면 오류
+ * - 기존 고객사와 분류가 다르면 경고 (저장소 분류 유지)
+ */
+export function findImportConflicts(
+  records: CategorizedRecord[],
+  rows: ImportRow[]
+): { errors: ImportIssue[]; warnings: ImportIssue[] } {
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+  const byName = new Map(records.map((record) => [record.name, record]));
+
+  rows.forEach((row) => {
+    const record = byName.get(row.name);
+    if (!record) {
+      if (!row.category) {
+        errors.push({ row: row.row, name: row.name, message: '신규 고객사는 분류가 필요합니다 (자동 분류 실패)' });
+      }
+      return;
+    }
+    if (row.category && row.category !== record.category) {
+      warnings.push({
+        row: row.row,
+        name: row.name,
+        message: `분류 불일치 (저장소: ${CLIENT_CATEGORY_LABELS[record.category]}, 파일: ${CLIENT_CATEGORY_LABELS[row.category]}) - 저장소 분류를 유지합니다`,
+      });
+    }
+  });
+
+  return { errors, warnings };
+}
+
+// ============================================================================
+// 비교 / 반영
+// ============================================================================
+
+/**
+ * 저장소 대비 변경 내역 계산
+ */
+export function diffImport(
+  records: CategorizedRecord[],
+  month: MonthKey,
+  rows: ImportRow[]
+): ImportDiff {
+  // 같은 월이 있으면 재가져오기, 없으면 직전 데이터 월과 비교
+  const baseMonth = records.some((record) => record.monthly[month])
+    ? month
+    : records
+        .flatMap((record) => Object.keys(record.monthly))
+        .filter((m) => m < month)
+        .sort()
+        .pop() ?? null;
+
+  const byName = new Map(records.map((record) => [record.name, record]));
+  const importedNames = new Set(rows.map((row) => row.name));
+
+  const diff: ImportDiff = { baseMonth, added: [], changed: [], removed: [], unchangedCount: 0 };
+
+  rows.forEach((row) => {
+    const record = byName.get(row.name);
+    if (!record) {
+      diff.added.push(row);
+      return;
+    }
+    const before = (baseMonth && record.monthly[baseMonth]) || { charge: 0, usage: 0 };
+    if (before.charge === row.charge && before.usage === row.usage) {
+      diff.unchangedCount++;
+    } else {
+      diff.changed.push({ name: row.name, before, after: row });
+    }
+  });
+
+  if (baseMonth) {
+    records.forEach((record) => {
+      const before = record.monthly[baseMonth];
+      if (before && !importedNames.has(record.name)) {
+        diff.removed.push({ name: record.name, category: record.category, before });
+      }
+    });
+  }
+
+  return diff;
+}
+
+/**
+ * 가져오기 결과를 반영한 전체 레코드 생성
+ * 해당 월 데이터는 파일 내용으로 교체됩니다 (파일에 없는 고객사의 해당 월 데이터는 삭제).
+ * 사용자 수가 파일에 없으면 기존 해당 월 값을 유지합니다.
+ */
+export function applyImport(
+  records: CategorizedRecord[],
+  month: MonthKey,
+  rows: ImportRow[]
+): CategorizedRecord[] {
+  const byName = new Map(rows.map((row) => [row.name, row]));
+
+  const toMetrics = (row: ImportRow, existing?: MonthlyMetrics): MonthlyMetrics => {
+    const metrics: MonthlyMetrics = { charge: row.charge, usage: row.usage };
+    const activeUsers = row.activeUsers ?? existing?.activeUsers;
+    const totalUsers = row.totalUsers ?? existing?.totalUsers;
+    if (activeUsers !== undefined) metrics.activeUsers = activeUsers;
+    if (totalUsers !== undefined) metrics.totalUsers = totalUsers;
+    return metrics;
+  };
+
+  const updated = records.flatMap((record) => {
+    const monthly = { ...record.monthly };
+    const row = byName.get(record.name);
+    if (row) {
+      monthly[month] = toMetrics(row, record.monthly[month]);
+      byName.delete(record.name);
+    } else {
+      delete monthly[month];
+    }
+    // 이번 월에만 있던 고객사가 빠진 경우 레코드 삭제
+    return Object.keys(monthly).length > 0 ? [{ ...record, monthly }] : [];
+  });
+
+  // 남은 행은 신규 고객사 (분류는 findImportConflicts 에서 검증됨)
+  byName.forEach((row) => {
+    updated.push({
+      name: row.name,
+      region: row.region,
+      subRegion: row.subRegion,
+      category: row.category!,
+      monthly: { [month]: toMetrics(row) },
+    });
+  });
+
+  return updated;
+}
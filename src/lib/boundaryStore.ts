@@ -0,0 +1,226 @@
+/**
+ * 지도 경계 데이터 저장소 (서버 전용)
+ *
+ * 지도 경계(TopoJSON / GeoJSON)를 외부 사이트 대신 /api/boundaries 에서 제공합니다.
+ * - 기본 제공(번들): data/boundaries/<vintage>/<level>.json (scripts/buildBoundaries.ts 로 생성)
+ * - 관리자 업로드: DATA_DIR/boundaries/<vintage>/<level>.json
+ * - 번들 파일이 없고 vintages.json 에 source URL 이 있으면 서버가 한 번 받아 DATA_DIR 에 저장합니다.
+ *   (번들 파일을 커밋하면 외부 네트워크 없이 동작)
+ *
+ * 사용할 경계 버전(vintage)은 관리자가 선택하며 DATA_DIR/boundary-settings.json 에 저장됩니다.
+ * (설정이 없으면 BOUNDARY_VINTAGE 환경변수 → 시/도 경계를 쓸 수 있는 첫 번째 버전)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DATA_DIR, readJsonFile, withFileLock, writeJsonFile } from '@/lib/jsonStore';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export type BoundaryLevel = 'province' | 'municipality';
+
+export const BOUNDARY_LEVELS: BoundaryLevel[] = ['province', 'municipality'];
+
+/** vintages.json 항목 */
+interface VintageEntry {
+  id: string;
+  label: string;
+  /** 파일이 없을 때 받아올 원본 URL */
+  source?: Partial<Record<BoundaryLevel, string>>;
+}
+
+export interface BoundaryVintage extends VintageEntry {
+  /** 기본 제공 여부 (false 면 관리자 업로드) */
+  bundled: boolean;
+  /** 단위별 사용 가능 여부 (파일 또는 원본 URL 존재) */
+  available: Record<BoundaryLevel, boolean>;
+}
+
+export interface BoundaryFile {
+  body: string;
+  /** 캐시 검증용 ETag */
+  etag: string;
+}
+
+interface BoundarySettings {
+  active?: string;
+}
+
+// ============================================================================
+// 경로
+// ============================================================================
+
+const BUNDLED_DIR = path.join(process.cwd(), 'data', 'boundaries');
+const UPLOAD_DIR = path.join(DATA_DIR, 'boundaries');
+const VINTAGES_FILE = 'vintages.json';
+const SETTINGS_FILE = 'boundary-settings.json';
+
+/** 업로드 파일 최대 크기 */
+export const MAX_BOUNDARY_FILE_SIZE = 20 * 1024 * 1024;
+
+/** 버전 ID 형식 (디렉터리명으로 사용) */
+const VINTAGE_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+export function isValidVintageId(id: string): boolean {
+  return VINTAGE_ID_PATTERN.test(id);
+}
+
+async function readVintageEntries(dir: string): Promise<VintageEntry[]> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(dir, VINTAGES_FILE), 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const boundaryPath = (dir: string, id: string, level: BoundaryLevel) =>
+  path.join(dir, id, `${level}.json`);
+
+// ============================================================================
+// 버전 목록 / 선택
+// ============================================================================
+
+/**
+ * 사용 가능한 경계 버전 목록 (번들 → 업로드 순)
+ */
+export async function listBoundaryVintages(): Promise<BoundaryVintage[]> {
+  const bundled = await readVintageEntries(BUNDLED_DIR);
+  const uploaded = (await readVintageEntries(UPLOAD_DIR))
+    .filter((entry) => !bundled.some((b) => b.id === entry.id));
+
+  const withAvailability = async (entry: VintageEntry, isBundled: boolean): Promise<BoundaryVintage> => {
+    const available = {} as Record<BoundaryLevel, boolean>;
+    for (const level of BOUNDARY_LEVELS) {
+      available[level] = !!entry.source?.[level]
+        || await fileExists(boundaryPath(BUNDLED_DIR, entry.id, level))
+        || await fileExists(boundaryPath(UPLOAD_DIR, entry.id, level));
+    }
+    return { ...entry, bundled: isBundled, available };
+  };
+
+  return Promise.all([
+    ...bundled.map((entry) => withAvailability(entry, true)),
+    ...uploaded.map((entry) => withAvailability(entry, false)),
+  ]);
+}
+
+/**
+ * 현재 사용 중인 경계 버전 ID (시/도 경계를 쓸 수 없는 버전은 건너뜀)
+ */
+export async function getActiveVintageId(): Promise<string | null> {
+  const vintages = (await listBoundaryVintages()).filter((v) => v.available.province);
+  const settings = await readJsonFile<BoundarySettings>(SETTINGS_FILE, () => ({}));
+
+  const candidates = [settings.active, process.env.BOUNDARY_VINTAGE, vintages[0]?.id];
+  return candidates.find((id) => id && vintages.some((v) => v.id === id)) ?? null;
+}
+
+/**
+ * 사용할 경계 버전 변경
+ * @throws 존재하지 않거나 시/도 경계를 쓸 수 없는 버전
+ */
+export async function setActiveVintage(id: string): Promise<void> {
+  const vintages = await listBoundaryVintages();
+  if (!vintages.some((v) => v.id === id && v.available.province)) {
+    throw new Error(`알 수 없는 경계 버전입니다: ${id}`);
+  }
+  await writeJsonFile<BoundarySettings>(SETTINGS_FILE, { active: id });
+}
+
+// ============================================================================
+// 파일 읽기 / 저장
+// ============================================================================
+
+/**
+ * 경계 파일 읽기
+ * 번들 → 업로드(캐시) → 원본 URL 순으로 찾고, 원본에서 받은 파일은 DATA_DIR 에 저장합니다.
+ * @param options.download false 면 원본 URL 에서 받지 않고 저장된 파일만 사용 (오프라인 리포트)
+ * @returns 파일이 없으면 null
+ */
+export async function readBoundary(
+  id: string,
+  level: BoundaryLevel,
+  options: { download?: boolean } = {}
+): Promise<BoundaryFile | null> {
+  for (const dir of [BUNDLED_DIR, UPLOAD_DIR]) {
+    const filePath = boundaryPath(dir, id, level);
+    try {
+      const [body, stat] = await Promise.all([fs.readFile(filePath, 'utf-8'), fs.stat(filePath)]);
+      return { body, etag: `"${id}-${level}-${Math.round(stat.mtimeMs).toString(36)}"` };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  if (options.download === false) return null;
+
+  const vintage = (await listBoundaryVintages()).find((v) => v.id === id);
+  const sourceUrl = vintage?.source?.[level];
+  if (!sourceUrl) return null;
+
+  const response = await fetch(sourceUrl);
+  if (!response.ok) {
+    throw new Error(`경계 데이터 다운로드 실패 (${response.status}): ${sourceUrl}`);
+  }
+  const body = await response.text();
+  validateBoundary(body);
+
+  await fs.mkdir(path.join(UPLOAD_DIR, id), { recursive: true });
+  await fs.writeFile(boundaryPath(UPLOAD_DIR, id, level), body, 'utf-8');
+  return readBoundary(id, level, { download: false });
+}
+
+/**
+ * 경계 파일 형식 검사 (TopoJSON Topology 또는 GeoJSON FeatureCollection)
+ * @throws 형식이 올바르지 않은 경우
+ */
+export function validateBoundary(body: string): void {
+  let data: { type?: string; objects?: object; features?: unknown[] };
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new Error('JSON 형식이 아닙니다');
+  }
+  const valid = (data.type === 'Topology' && data.objects && Object.keys(data.objects).length > 0)
+    || (data.type === 'FeatureCollection' && Array.isArray(data.features));
+  if (!valid) {
+    throw new Error('TopoJSON(Topology) 또는 GeoJSON(FeatureCollection) 파일이 아닙니다');
+  }
+}
+
+/**
+ * 관리자 업로드 버전 저장 (같은 ID 가 있으면 교체)
+ * @param files 단위별 파일 내용 (validateBoundary 로 검사된 것)
+ */
+export async function saveUploadedVintage(
+  id: string,
+  label: string,
+  files: Partial<Record<BoundaryLevel, string>>
+): Promise<void> {
+  if ((await readVintageEntries(BUNDLED_DIR)).some((entry) => entry.id === id)) {
+    throw new Error(`기본 제공 버전과 같은 ID 는 사용할 수 없습니다: ${id}`);
+  }
+
+  await fs.mkdir(path.join(UPLOAD_DIR, id), { recursive: true });
+  for (const level of BOUNDARY_LEVELS) {
+    const body = files[level];
+    if (body) await fs.writeFile(boundaryPath(UPLOAD_DIR, id, level), body, 'utf-8');
+  }
+
+  const entriesFile = path.join('boundaries', VINTAGES_FILE);
+  await withFileLock(entriesFile, async () => {
+    const entries = (await readVintageEntries(UPLOAD_DIR)).filter((entry) => entry.id !== id);
+    await writeJsonFile(entriesFile, [...entries, { id, label }]);
+  });
+}
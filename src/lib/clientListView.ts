@@ -0,0 +1,225 @@
+/**
+ * 고객사 목록 정렬 / 필터
+ *
+ * 대시보드 목록(카드 · 목록 · 내보내기)에 적용하는 정렬 기준과 필터 조건입니다.
+ * 공유할 수 있도록 URL 쿼리 문자열과 서로 변환합니다.
+ *
+ * @example ?sort=usage&region=서울특별시,부산광역시&billing=usage&missing=1
+ */
+
+import {
+  Client,
+  ContractInfo,
+  ContractChannel,
+  PaymentMethod,
+  BillingType,
+  CONTRACT_CHANNEL_LABELS,
+  PAYMENT_METHOD_LABELS,
+  BILLING_TYPE_LABELS,
+  hasContractInfo,
+} from '@/data/clients';
+import { canonicalProvince } from '@/data/regionMappings';
+import type { UserMetrics } from '@/lib/googleSheets';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export type ListSortKey =
+  | 'charge'
+  | 'usage'
+  | 'activationRate'
+  | 'pricePerActiveUser'
+  | 'name'
+  | 'contractDate';
+
+/** 같은 항목 안에서는 하나라도 맞으면(OR), 항목끼리는 모두 맞아야(AND) 표시 */
+export interface ListFilters {
+  /** 시/도 (정식 명칭) */
+  regions: string[];
+  channels: ContractChannel[];
+  payments: PaymentMethod[];
+  billings: BillingType[];
+  /** 계약 정보(채널 / 정산 / 과금)가 없는 고객사만 */
+  missingContract: boolean;
+}
+
+export interface ListView {
+  sort: ListSortKey;
+  filters: ListFilters;
+}
+
+/** 정렬 지표 계산용 (Google Sheets 입력값) */
+export interface ListViewContext {
+  contracts: Record<string, ContractInfo>;
+  userMetrics: Record<string, UserMetrics>;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+export const LIST_SORT_LABELS: Record<ListSortKey, string> = {
+  charge: '사용금액순',
+  usage: '사용량순',
+  activationRate: '활성율순',
+  pricePerActiveUser: '활성사용자당 가격순',
+  name: '이름순',
+  contractDate: '최근 계약순',
+};
+
+export const DEFAULT_LIST_VIEW: ListView = {
+  sort: 'charge',
+  filters: {
+    regions: [],
+    channels: [],
+    payments: [],
+    billings: [],
+    missingContract: false,
+  },
+};
+
+/** URL 쿼리 키 */
+const QUERY_KEYS = {
+  sort: 'sort',
+  regions: 'region',
+  channels: 'channel',
+  payments: 'payment',
+  billings: 'billing',
+  missingContract: 'missing',
+} as const;
+
+// ============================================================================
+// URL 쿼리 변환
+// ============================================================================
+
+/**
+ * 쉼표로 구분된 쿼리 값 중 허용된 값만
+ */
+function parseList<T extends string>(value: string | null, allowed?: Record<T, string>): T[] {
+  if (!value) return [];
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  return (allowed ? items.filter(item => Object.hasOwn(allowed, item)) : items) as T[];
+}
+
+/**
+ * URL 쿼리 → 정렬/필터 (알 수 없는 값은 무시)
+ */
+export function parseListView(params: Pick<URLSearchParams, 'get'>): ListView {
+  const sort = params.get(QUERY_KEYS.sort);
+  return {
+    sort: sort && Object.hasOwn(LIST_SORT_LABELS, sort) ? (sort as ListSortKey) : DEFAULT_LIST_VIEW.sort,
+    filters: {
+      regions: parseList<string>(params.get(QUERY_KEYS.regions)),
+      channels: parseList(params.get(QUERY_KEYS.channels), CONTRACT_CHANNEL_LABELS),
+      payments: parseList(params.get(QUERY_KEYS.payments), PAYMENT_METHOD_LABELS),
+      billings: parseList(params.get(QUERY_KEYS.billings), BILLING_TYPE_LABELS),
+      missingContract: params.get(QUERY_KEYS.missingContract) === '1',
+    },
+  };
+}
+
+/**
+ * 정렬/필터 → URL 쿼리 (기본값은 쿼리에서 제거)
+ */
+export function writeListView(params: URLSearchParams, view: ListView): void {
+  const set = (key: string, value: string | null) => {
+    if (value) params.set(key, value);
+    else params.delete(key);
+  };
+  const { filters } = view;
+  set(QUERY_KEYS.sort, view.sort === DEFAULT_LIST_VIEW.sort ? null : view.sort);
+  set(QUERY_KEYS.regions, filters.regions.join(','));
+  set(QUERY_KEYS.channels, filters.channels.join(','));
+  set(QUERY_KEYS.payments, filters.payments.join(','));
+  set(QUERY_KEYS.billings, filters.billings.join(','));
+  set(QUERY_KEYS.missingContract, filters.missingContract ? '1' : null);
+}
+
+/**
+ * 적용 중인 필터 조건 수
+ */
+export function countActiveFilters(filters: ListFilters): number {
+  return filters.regions.length
+    + filters.channels.length
+    + filters.payments.length
+    + filters.billings.length
+    + (filters.missingContract ? 1 : 0);
+}
+
+// ============================================================================
+// 필터 / 정렬
+// ============================================================================
+
+/**
+ * 정렬 기준 값 (값이 없으면 null → 항상 맨 뒤)
+ * 사용자 지표는 Google Sheets 입력값 우선, 없으면 청구 데이터 값을 사용합니다.
+ */
+function sortValue(item: Client, sort: ListSortKey, context: ListViewContext): number | string | null {
+  const stored = context.userMetrics[item.name];
+  const activeUsers = stored?.activeUsers ?? item.activeUsers;
+  const totalUsers = stored?.totalUsers ?? item.totalUsers;
+
+  switch (sort) {
+    case 'charge':
+      return item.charge;
+    case 'usage':
+      return item.usage;
+    case 'activationRate':
+      return activeUsers && totalUsers ? activeUsers / totalUsers : null;
+    case 'pricePerActiveUser':
+      return activeUsers ? item.charge / item.months / activeUsers : null;
+    case 'name':
+      return item.name;
+    case 'contractDate':
+      return context.contracts[item.name]?.contractDate || null;
+  }
+}
+
+/**
+ * 필터 조건에 맞는지
+ */
+function matchesFilters(item: Client, filters: ListFilters, context: ListViewContext): boolean {
+  const contract = context.contracts[item.name];
+
+  if (filters.regions.length > 0) {
+    const region = item.region && (canonicalProvince(item.region) ?? item.region);
+    if (!region || !filters.regions.includes(region)) return false;
+  }
+  if (filters.channels.length > 0 && !(contract?.channel && filters.channels.includes(contract.channel))) {
+    return false;
+  }
+  if (filters.payments.length > 0 && !(contract?.payment && filters.payments.includes(contract.payment))) {
+    return false;
+  }
+  if (filters.billings.length > 0 && !(contract?.billing && filters.billings.includes(contract.billing))) {
+    return false;
+  }
+  if (filters.missingContract && hasContractInfo(contract)) return false;
+  return true;
+}
+
+/**
+ * 목록 필터 (정렬 없음 - 통계 / 지도용)
+ */
+export function filterClients(items: Client[], filters: ListFilters, context: ListViewContext): Client[] {
+  return countActiveFilters(filters) === 0
+    ? items
+    : items.filter(item => matchesFilters(item, filters, context));
+}
+
+/**
+ * 목록 정렬
+ * 이름은 가나다순, 그 외(금액 · 사용량 · 활성율 · 가격 · 계약일)는 큰 값(최근)부터 표시합니다.
+ */
+export function sortClients(items: Client[], sort: ListSortKey, context: ListViewContext): Client[] {
+  const values = new Map(items.map(item => [item, sortValue(item, sort, context)]));
+  return [...items].sort((a, b) => {
+    const va = values.get(a) ?? null;
+    const vb = values.get(b) ?? null;
+    if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+    if (sort === 'name') return String(va).localeCompare(String(vb), 'ko');
+    if (typeof va === 'string') return String(vb).localeCompare(va);
+    return (vb as number) - va;
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * 고객사 데이터 저장소 (서버 전용)
+ *
+ * /api/clients 라우트가 사용하는 고객사 데이터 저장소입니다.
+ * CLIENT_STORE 환경변수로 구현체를 선택합니다.
+ * - 'file' (기본값): DATA_DIR/clients.json 파일 (파일이 없으면 시드 데이터 사용)
+ * - 'static': src/data/clients.ts 시드 데이터 (읽기 전용)
+ */
+
+import {
+  CategorizedRecord,
+  ClientCategory,
+  ClientRecord,
+  educationData,
+  localGovData,
+  centralGovData,
+  provinceGovData,
+  publicInstitutionData,
+  privateData,
+  universityData,
+} from '@/data/clients';
+import { readJsonFile, withFileLock, writeJsonFile } from '@/lib/jsonStore';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/**
+ * 고객사 저장소 인터페이스
+ * 새로운 저장소(DB 등)는 이 인터페이스를 구현하여 getClientStore()에 등록합니다.
+ */
+export interface ClientStore {
+  /** 쓰기 가능 여부 (false 면 update 호출 불가) */
+  readonly writable: boolean;
+  /** 전체 고객사 목록 (분류 지정 시 해당 분류만) */
+  list(categories?: ClientCategory[]): Promise<CategorizedRecord[]>;
+  /** 기관명으로 고객사 조회 */
+  get(name: string): Promise<CategorizedRecord | null>;
+  /**
+   * 전체 고객사 목록 수정 (현재 목록을 읽어 apply 결과로 교체)
+   * 읽기부터 저장까지 다른 변경이 끼어들지 않도록 한 번에 처리합니다.
+   * @param apply 저장할 목록 반환 (null 이면 저장하지 않음)
+   */
+  update(apply: (records: CategorizedRecord[]) => CategorizedRecord[] | null): Promise<void>;
+}
+
+// ============================================================================
+// 시드 데이터
+// ============================================================================
+
+/**
+ * 기존 clients.ts 배열을 분류가 지정된 레코드로 변환
+ */
+function toSeedRecords(data: ClientRecord[], category: ClientCategory): CategorizedRecord[] {
+  return data.map(({ name, region, subRegion, monthly }) => ({
+    name,
+    region,
+    subRegion,
+    monthly,
+    category,
+  }));
+}
+
+function buildSeedRecords(): CategorizedRecord[] {
+  return [
+    ...toSeedRecords(educationData, 'education'),
+    ...toSeedRecords(localGovData, 'local'),
+    ...toSeedRecords(centralGovData, 'central'),
+    ...toSeedRecords(provinceGovData, 'province'),
+    ...toSeedRecords(publicInstitutionData, 'public'),
+    ...toSeedRecords(privateData, 'private'),
+    ...toSeedRecords(universityData, 'university'),
+  ];
+}
+
+/**
+ * 분류 필터 적용
+ */
+function filterByCategory(
+  records: CategorizedRecord[],
+  categories?: ClientCategory[]
+): CategorizedRecord[] {
+  if (!categories || categories.length === 0) return records;
+  return records.filter(record => categories.includes(record.category));
+}
+
+// ============================================================================
+// 구현체: 정적 시드 데이터
+// ============================================================================
+
+class StaticClientStore implements ClientStore {
+  readonly writable = false;
+  private readonly records = buildSeedRecords();
+
+  async list(categories?: ClientCategory[]): Promise<CategorizedRecord[]> {
+    return filterByCategory(this.records, categories);
+  }
+
+  async get(name: string): Promise<CategorizedRecord | null> {
+    return this.records.find(record => record.name === name) ?? null;
+  }
+
+  async update(): Promise<void> {
+    throw new Error('읽기 전용 저장소입니다 (CLIENT_STORE=static)');
+  }
+}
+
+// ============================================================================
+// 구현체: JSON 파일
+// ============================================================================
+
+const CLIENTS_FILE = 'clients.json';
+
+class FileClientStore implements ClientStore {
+  readonly writable = true;
+
+  private async load(): Promise<CategorizedRecord[]> {
+    return readJsonFile<CategorizedRecord[]>(CLIENTS_FILE, buildSeedRecords);
+  }
+
+  async list(categories?: ClientCategory[]): Promise<CategorizedRecord[]> {
+    return filterByCategory(await this.load(), categories);
+  }
+
+  async get(name: string): Promise<CategorizedRecord | null> {
+    const records = await this.load();
+    return records.find(record => record.name === name) ?? null;
+  }
+
+  async update(apply: (records: CategorizedRecord[]) => CategorizedRecord[] | null): Promise<void> {
+    await withFileLock(CLIENTS_FILE, async () => {
+      const records = apply(await this.load());
+      if (records) await writeJsonFile(CLIENTS_FILE, records);
+    });
+  }
+}
+
+// ============================================================================
+// 저장소 선택
+// ============================================================================
+
+let store: ClientStore | null = null;
+
+/**
+ * 환경변수(CLIENT_STORE)에 따라 저장소 인스턴스 반환 (싱글톤)
+ */
+export function getClientStore(): ClientStore {
+  if (!store) {
+    store = process.env.CLIENT_STORE === 'static'
+      ? new StaticClientStore()
+      : new FileClientStore();
+  }
+  return store;
+}
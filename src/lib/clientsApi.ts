@@ -0,0 +1,20 @@
+/**
+ * 고객사 데이터 API 클라이언트
+ *
+ * /api/clients 라우트에서 고객사 목록(월별 시계열 포함)을 불러옵니다.
+ */
+
+import { CategorizedRecord } from '@/data/clients';
+
+/**
+ * 전체 고객사 목록 불러오기
+ * @throws 응답 실패 시 에러
+ */
+export async function fetchClients(): Promise<CategorizedRecord[]> {
+  const response = await fetch('/api/clients', { cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`고객사 목록 조회 실패 (${response.status})`);
+  }
+  const data = await response.json();
+  return data.clients as CategorizedRecord[];
+}
@@ -0,0 +1,244 @@
+/**
+ * 지도 색상 스케일
+ *
+ * 지역별 값 분포에 맞춰 색상 스케일과 범례 정보를 만듭니다.
+ * - linear: 0 ~ 최대값 선형 (연속 범례)
+ * - log: 로그(symlog) — 서울처럼 한 지역이 압도적으로 클 때 (연속 범례)
+ * - quantile: 분위수 구간 — 구간마다 지역 수가 비슷하게 (단계 범례)
+ * - quantize: 등간격 구간 (단계 범례)
+ * - jenks: 자연 구분(Fisher-Jenks) — 구간 내 분산이 최소가 되도록 (단계 범례)
+ * - 증감률 지표는 0 을 중심으로 한 발산형(diverging) 스케일을 사용합니다.
+ */
+
+import * as d3 from 'd3';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export type ColorScaleType = 'linear' | 'log' | 'quantile' | 'quantize' | 'jenks';
+
+/** 단계 범례의 한 구간 */
+export interface LegendClass {
+  color: string;
+  from: number;
+  to: number;
+}
+
+export type ColorLegend =
+  | { kind: 'continuous'; min: number; max: number; mid?: number; colors: string[] }
+  | { kind: 'classes'; classes: LegendClass[] };
+
+export interface MapColorScale {
+  color: (value: number) => string;
+  legend: ColorLegend;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+/** 색상 범위 설정 (탭 colorScheme 별, 지도·범례·리포트에서 사용) */
+export const COLOR_RANGES = {
+  indigo: ['#e0e7ff', '#4f46e5'] as [string, string],
+  green: ['#d1fae5', '#059669'] as [string, string],
+  blue: ['#dbeafe', '#2563eb'] as [string, string],
+  purple: ['#f3e8ff', '#9333ea'] as [string, string],
+  amber: ['#fef3c7', '#d97706'] as [string, string],
+} as const;
+
+export type MapColorScheme = keyof typeof COLOR_RANGES;
+
+export const COLOR_SCALE_LABELS: Record<ColorScaleType, string> = {
+  linear: '선형',
+  log: '로그',
+  quantile: '분위수',
+  quantize: '등간격',
+  jenks: '자연 구분',
+};
+
+export const COLOR_SCALE_TYPES = Object.keys(COLOR_SCALE_LABELS) as ColorScaleType[];
+
+/** 단계 스케일 구간 수 */
+const CLASS_COUNT = 5;
+
+/** 연속 범례 그라데이션 색상 수 */
+const GRADIENT_STOPS = 9;
+
+/** 발산형 스케일 색상 (감소 ~ 0 ~ 증가, GrowthBadge 의 rose / emerald 와 맞춤) */
+const DIVERGING_COLORS = ['#e11d48', '#f8fafc', '#059669'];
+
+/** 발산형 스케일 최대 범위 (%) — 신규 지역의 큰 증가율이 나머지를 흐리게 만들지 않도록 */
+const DIVERGING_LIMIT = 100;
+
+// ============================================================================
+// 자연 구분 (Fisher-Jenks)
+// ============================================================================
+
+/**
+ * 자연 구분 경계 계산
+ * @returns [최소값, 1구간 상한, 2구간 상한, ..., 최대값] (값 종류가 구간 수보다 적으면 값 목록)
+ */
+export function jenksBreaks(values: number[], classCount: number): number[] {
+  const data = [...values].sort((a, b) => a - b);
+  const distinct = [...new Set(data)];
+  if (distinct.length <= classCount) return distinct;
+
+  const n = data.length;
+  const lowerLimits: number[][] = Array.from({ length: n + 1 }, () => new Array(classCount + 1).fill(0));
+  const variances: number[][] = Array.from({ length: n + 1 }, () => new Array(classCount + 1).fill(0));
+
+  for (let j = 1; j <= classCount; j++) {
+    lowerLimits[1][j] = 1;
+    for (let i = 2; i <= n; i++) variances[i][j] = Infinity;
+  }
+
+  for (let l = 2; l <= n; l++) {
+    let sum = 0;
+    let sumSquares = 0;
+    let variance = 0;
+
+    for (let m = 1; m <= l; m++) {
+      const lowerIndex = l - m + 1;
+      const value = data[lowerIndex - 1];
+      sum += value;
+      sumSquares += value * value;
+      variance = sumSquares - (sum * sum) / m;
+
+      const prevIndex = lowerIndex - 1;
+      if (prevIndex === 0) continue;
+      for (let j = 2; j <= classCount; j++) {
+        if (variances[l][j] >= variance + variances[prevIndex][j - 1]) {
+          lowerLimits[l][j] = lowerIndex;
+          variances[l][j] = variance + variances[prevIndex][j - 1];
+        }
+      }
+    }
+    lowerLimits[l][1] = 1;
+    variances[l][1] = variance;
+  }
+
+  const breaks = new Array(classCount + 1);
+  breaks[0] = data[0];
+  breaks[classCount] = data[n - 1];
+  let k = n;
+  for (let j = classCount; j >= 2; j--) {
+    const lowerIndex = lowerLimits[k][j] - 2;
+    breaks[j - 1] = data[lowerIndex];
+    k = lowerLimits[k][j] - 1;
+  }
+  return breaks;
+}
+
+// ============================================================================
+// 스케일 생성
+// ============================================================================
+
+/**
+ * 구간 경계(각 구간의 시작값)로 단계 스케일 생성
+ * 값이 몰려 경계가 겹치면 구간 수가 줄어듭니다.
+ */
+function classedScale(
+  thresholds: number[],
+  min: number,
+  max: number,
+  range: [string, string]
+): MapColorScale {
+  const bounds = [...new Set(thresholds)].filter((t) => t > min && t <= max).sort((a, b) => a - b);
+  const colors = bounds.length === 0
+    ? [range[1]]
+    : d3.quantize(d3.interpolateRgb(range[0], range[1]), bounds.length + 1);
+  const scale = d3.scaleThreshold<number, string>().domain(bounds).range(colors);
+
+  const edges = [min, ...bounds, max];
+  return {
+    color: (value) => scale(value),
+    legend: {
+      kind: 'classes',
+      classes: colors.map((color, i) => ({ color, from: edges[i], to: edges[i + 1] })),
+    },
+  };
+}
+
+/**
+ * 값 분포에 맞는 색상 스케일
+ * @param values 지역별 값 (데이터 없는 지역 제외)
+ * @param range [최소 색, 최대 색]
+ * @param linearMax 선형 스케일 최대값 (기준 금액 등, 생략하면 데이터 최대값)
+ */
+export function buildColorScale(
+  type: ColorScaleType,
+  values: number[],
+  range: [string, string],
+  linearMax?: number
+): MapColorScale {
+  const min = Math.min(...values, 0);
+  const max = Math.max(...values, min + 1);
+  // 단계 스케일은 실제 데이터 최소값부터 구간 시작
+  const dataMin = values.length > 0 ? Math.min(...values) : 0;
+  const interpolator = d3.interpolateRgb(range[0], range[1]);
+  const gradient = d3.quantize(interpolator, GRADIENT_STOPS);
+
+  switch (type) {
+    case 'log': {
+      // 범례 중간값은 색상 중간(50%)에 해당하는 값 — 로그 스케일임을 드러내기 위해 표시
+      const scale = d3.scaleSymlog().domain([min, max]).range([0, 1]).clamp(true);
+      return {
+        color: (value) => interpolator(scale(value)),
+        legend: { kind: 'continuous', min, max, mid: scale.invert(0.5), colors: gradient },
+      };
+    }
+    case 'quantile':
+      return classedScale(
+        d3.scaleQuantile().domain(values).range(d3.range(CLASS_COUNT)).quantiles(),
+        dataMin,
+        max,
+        range
+      );
+    case 'quantize':
+      return classedScale(
+        d3.scaleQuantize().domain([dataMin, max]).range(d3.range(CLASS_COUNT)).thresholds(),
+        dataMin,
+        max,
+        range
+      );
+    case 'jenks': {
+      // 구간 상한 다음 값부터 다음 구간이 시작 (값 종류가 구간 수 이하면 값마다 한 구간)
+      const breaks = jenksBreaks(values, CLASS_COUNT);
+      const sorted = [...values].sort((a, b) => a - b);
+      const starts = new Set(values).size > CLASS_COUNT
+        ? breaks.slice(1, -1).map((upper) => sorted.find((v) => v > upper) ?? upper)
+        : breaks.slice(1);
+      return classedScale(starts, dataMin, max, range);
+    }
+    case 'linear':
+    default: {
+      const linearTop = Math.max(max, linearMax ?? 0);
+      const scale = d3.scaleLinear<string>().domain([0, linearTop]).range(range).clamp(true);
+      return {
+        color: (value) => scale(value),
+        legend: { kind: 'continuous', min: 0, max: linearTop, colors: gradient },
+      };
+    }
+  }
+}
+
+/**
+ * 증감률(%)용 발산형 스케일 (감소: 빨강, 0: 흰색, 증가: 초록)
+ */
+export function buildDivergingScale(values: number[]): MapColorScale {
+  const extent = Math.min(DIVERGING_LIMIT, Math.max(...values.map(Math.abs), 1));
+  const interpolator = d3.piecewise(d3.interpolateRgb, DIVERGING_COLORS);
+  const scale = d3.scaleDiverging(interpolator).domain([-extent, 0, extent]).clamp(true);
+
+  return {
+    color: (value) => scale(value),
+    legend: {
+      kind: 'continuous',
+      min: -extent,
+      mid: 0,
+      max: extent,
+      colors: d3.quantize(interpolator, GRADIENT_STOPS),
+    },
+  };
+}
@@ -1,15 +1,15 @@
 /**
- * Google Sheets API 연동
+ * Google Sheets API 연동 (서버 전용)
  *
  * 계약 정보와 사용자 지표를 Google Sheets에 저장/불러오기
+ * Apps Script 주소는 쓰기도 가능하므로 브라우저 번들에 넣지 않고 GOOGLE_SHEETS_API_URL 환경변수로만 설정합니다.
+ * (브라우저에서는 /api/sheets 를 거쳐 읽기/쓰기 - sheetsApi.ts)
  *
  * Google Apps Script:
  * - GET (doGet): 읽기 전용
  * - POST (doPost): 쓰기 작업 (302 redirect로 결과 반환)
  */
 
-const API_URL = 'https://script.google.com/macros/s/AKfycbwzFO4EoVbDWBxqT98RN0i9L_xulxECBf80t5wii1HJH0StCl8YRDCfeGr82ldBgW6Brw/exec';
-
 import { ContractInfo } from '@/data/clients';
 
 export interface UserMetrics {
@@ -22,12 +22,24 @@ export interface SheetData {
   users: Record<string, UserMetrics>;
 }
 
+/**
+ * Apps Script 웹 앱 주소
+ * @throws 환경변수가 없는 경우
+ */
+function getApiUrl(): string {
+  const url = process.env.GOOGLE_SHEETS_API_URL;
+  if (!url) {
+    throw new Error('GOOGLE_SHEETS_API_URL 환경변수가 설정되지 않았습니다');
+  }
+  return url;
+}
+
 /**
  * GET 요청 (읽기용)
  */
 async function callGetAPI(params: Record<string, string>): Promise<Record<string, unknown>> {
   const searchParams = new URLSearchParams(params);
-  const url = `${API_URL}?${searchParams.toString()}`;
+  const url = `${getApiUrl()}?${searchParams.toString()}`;
 
   const response = await fetch(url, {
     method: 'GET',
@@ -53,7 +65,7 @@ async function callPostAPI(params: Record<string, string>): Promise<Record<strin
   try {
     // Content-Type 없이 POST (preflight 방지)
     // fetch는 body가 string이면 자동으로 text/plain 사용 (simple request)
-    const response = await fetch(API_URL, {
+    const response = await fetch(getApiUrl(), {
       method: 'POST',
       body: JSON.stringify(params),
       redirect: 'follow',
@@ -94,26 +106,34 @@ async function callPostAPI(params: Record<string, string>): Promise<Record<strin
 }
 
 /**
- * 모든 데이터 불러오기
+ * 모든 데이터 불러오기 (실패 시 에러)
+ * 변경 이력의 이전 값처럼 빈 데이터로 대신하면 안 되는 곳에서 사용합니다.
  */
-export async function fetchAllData(): Promise<SheetData> {
-  try {
-    const data = await callGetAPI({ action: 'getAll' });
-
-    const users: Record<string, UserMetrics> = {};
-    if (data.users && typeof data.users === 'object') {
-      for (const [key, value] of Object.entries(data.users as Record<string, Record<string, unknown>>)) {
-        users[key] = {
-          activeUsers: value.activeUsers ? Number(value.activeUsers) : undefined,
-          totalUsers: value.totalUsers ? Number(value.totalUsers) : undefined,
-        };
-      }
+export async function loadSheetData(): Promise<SheetData> {
+  const data = await callGetAPI({ action: 'getAll' });
+
+  const users: Record<string, UserMetrics> = {};
+  if (data.users && typeof data.users === 'object') {
+    for (const [key, value] of Object.entries(data.users as Record<string, Record<string, unknown>>)) {
+      users[key] = {
+        activeUsers: value.activeUsers ? Number(value.activeUsers) : undefined,
+        totalUsers: value.totalUsers ? Number(value.totalUsers) : undefined,
+      };
     }
+  }
+
+  return {
+    contracts: (data.contracts as Record<string, ContractInfo>) || {},
+    users,
+  };
+}
 
-    return {
-      contracts: (data.contracts as Record<string, ContractInfo>) || {},
-      users,
-    };
+/**
+ * 모든 데이터 불러오기 (실패 시 빈 데이터)
+ */
+export async function fetchAllData(): Promise<SheetData> {
+  try {
+    return await loadSheetData();
   } catch (error) {
     console.error('Google Sheets 데이터 불러오기 실패:', error);
     return { contracts: {}, users: {} };
@@ -135,6 +155,7 @@ export async function saveContract(
       channel: info.channel || '',
       payment: info.payment || '',
       billing: info.billing || '',
+      contractDate: info.contractDate || '',
       note: info.note || '',
       updatedBy: updatedBy || 'dashboard',
     });
@@ -0,0 +1,93 @@
+/**
+ * 로컬 JSON 파일 저장 유틸리티 (서버 전용)
+ *
+ * 서버 측 저장소들이 공통으로 사용하는 파일 입출력입니다.
+ * - 저장 위치: DATA_DIR 환경변수 (기본값: <프로젝트>/.data)
+ * - 쓰기는 임시 파일 작성 후 rename 하여 중간에 깨진 파일이 남지 않도록 합니다.
+ * - 읽고 바꿔 쓰는 작업은 updateJsonFile / withFileLock 으로 파일별로 한 번에 하나씩 처리합니다.
+ *   (잠금은 서버 프로세스 안에서만 유효 - 여러 인스턴스가 같은 DATA_DIR 을 쓰면 공유 저장소 필요)
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/** 데이터 저장 디렉터리 */
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+/**
+ * JSON 파일 읽기
+ * @param fileName DATA_DIR 기준 파일명
+ * @param fallback 파일이 없을 때 사용할 초기값 생성 함수
+ */
+export async function readJsonFile<T>(fileName: string, fallback: () => T): Promise<T> {
+  try {
+    const text = await fs.readFile(path.join(DATA_DIR, fileName), 'utf-8');
+    return JSON.parse(text) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback();
+    }
+    throw error;
+  }
+}
+
+/**
+ * JSON 파일 쓰기
+ * @param fileName DATA_DIR 기준 파일명
+ * @param data 저장할 데이터
+ */
+export async function writeJsonFile<T>(fileName: string, data: T): Promise<void> {
+  const filePath = path.join(DATA_DIR, fileName);
+  const tmpPath = `${filePath}.${randomUUID()}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tmpPath, filePath);
+}
+
+// ============================================================================
+// 파일별 잠금
+// ============================================================================
+
+/** 파일별 마지막 작업 (이 작업이 끝나야 다음 작업 시작) */
+const fileLocks = new Map<string, Promise<void>>();
+
+/**
+ * 같은 파일에 대한 작업을 순서대로 하나씩 실행
+ * 읽기 → 수정 → 쓰기 사이에 다른 요청이 끼어들어 변경이 사라지지 않도록 합니다.
+ * (작업 안에서 같은 파일로 다시 withFileLock 을 호출하면 끝나지 않으므로 주의)
+ * @param fileName DATA_DIR 기준 파일명
+ */
+export async function withFileLock<T>(fileName: string, task: () => Promise<T>): Promise<T> {
+  const previous = fileLocks.get(fileName) ?? Promise.resolve();
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => (release = resolve));
+  const current = previous.then(() => released);
+  fileLocks.set(fileName, current);
+
+  await previous;
+  try {
+    return await task();
+  } finally {
+    release();
+    if (fileLocks.get(fileName) === current) fileLocks.delete(fileName);
+  }
+}
+
+/**
+ * JSON 파일 읽기 → 수정 → 쓰기 (파일 잠금 안에서)
+ * @param update 현재 값을 받아 저장할 값 반환
+ * @returns 저장한 값
+ */
+export async function updateJsonFile<T>(
+  fileName: string,
+  fallback: () => T,
+  update: (data: T) => T | Promise<T>
+): Promise<T> {
+  return withFileLock(fileName, async () => {
+    const data = await update(await readJsonFile(fileName, fallback));
+    await writeJsonFile(fileName, data);
+    return data;
+  });
+}
@@ -0,0 +1,301 @@
+/**
+ * 로그인 시도 제한 (서버 전용)
+ *
+ * 비밀번호 대입 공격을 막기 위해 접속 IP 와 계정 ID 별로 로그인 실패를 기록합니다.
+ * - 연속 실패 시 다음 시도까지 대기 시간을 두 배씩 늘림 (지수 백오프)
+ * - 실패가 한도에 이르면 일정 시간 잠금
+ * - 비밀번호 확인 전에 시도를 실패로 미리 기록(예약)하고, 성공하면 되돌림
+ *   (비밀번호 확인이 느려도 동시에 보낸 요청들이 대기 / 잠금을 건너뛰지 못하도록)
+ * - 로그인에 성공하면 해당 계정의 실패 기록 초기화 (IP 기록은 유지)
+ * - 접속 IP 를 알 수 없으면 IP 별 제한은 건너뜀 (모든 요청이 같은 키를 써서 서로를 잠그지 않도록)
+ *
+ * 기록 저장소는 RateLimitStore 인터페이스로 교체할 수 있습니다.
+ * 기본 구현은 서버 프로세스 메모리입니다. (재시작 시 초기화, 여러 인스턴스 간 공유 안 됨)
+ */
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/** 키(IP / 계정)별 실패 기록 */
+export interface RateLimitRecord {
+  /** 연속 실패 횟수 */
+  failures: number;
+  /** 마지막 실패 시각 (ms) */
+  lastFailureAt: number;
+  /** 잠금 해제 시각 (ms, 잠기지 않았으면 없음) */
+  lockedUntil?: number;
+}
+
+/**
+ * 실패 기록 저장소 인터페이스
+ * 여러 인스턴스에서 공유할 저장소(Redis 등)는 이 인터페이스를 구현하여 getRateLimitStore()에 등록합니다.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitRecord | null>;
+  /**
+   * 기록 읽기 → 수정 → 저장을 다른 요청이 끼어들지 않게 한 번에 처리 (공유 저장소는 트랜잭션 / 스크립트로 구현)
+   * @param apply 현재 기록(없으면 null)을 받아 저장할 기록 반환 (null 이면 삭제)
+   * @param ttlMs 이 시간이 지나면 기록 삭제
+   * @returns 저장된 기록
+   */
+  update(
+    key: string,
+    apply: (record: RateLimitRecord | null) => RateLimitRecord | null,
+    ttlMs: number
+  ): Promise<RateLimitRecord | null>;
+  delete(key: string): Promise<void>;
+}
+
+/** 로그인 시도 상태 */
+export interface LoginAttemptStatus {
+  allowed: boolean;
+  /** 잠금 상태인지 (false 면 백오프 대기) */
+  locked: boolean;
+  /** 다시 시도할 수 있을 때까지 남은 시간 (초) */
+  retryAfter: number;
+  /** 잠기기 전까지 남은 시도 횟수 */
+  remainingAttempts: number;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+/** 계정별 잠금까지 허용하는 실패 횟수 */
+export const MAX_ACCOUNT_FAILURES = 5;
+
+/** IP 별 잠금까지 허용하는 실패 횟수 (같은 사무실 공용 IP 고려해 계정보다 크게) */
+export const MAX_IP_FAILURES = 20;
+
+/** 잠금 시간 (ms) - 15분 */
+export const LOCKOUT_MS = 15 * 60 * 1000;
+
+/** 마지막 실패 후 이 시간이 지나면 실패 기록 초기화 (ms) - 15분 */
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+/** 백오프 기본 / 최대 대기 시간 (ms) */
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30 * 1000;
+
+/** 백오프 없이 허용하는 실패 횟수 (오타 한 번은 바로 재시도) */
+const FREE_FAILURES = 1;
+
+// ============================================================================
+// 구현체: 메모리
+// ============================================================================
+
+/** 메모리 저장소 최대 기록 수 (넘으면 만료된 기록부터 정리) */
+const MAX_MEMORY_ENTRIES = 10000;
+
+class MemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, { record: RateLimitRecord; expiresAt: number }>();
+
+  async get(key: string): Promise<RateLimitRecord | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.record;
+  }
+
+  async update(
+    key: string,
+    apply: (record: RateLimitRecord | null) => RateLimitRecord | null,
+    ttlMs: number
+  ): Promise<RateLimitRecord | null> {
+    // 중간에 await 가 없으므로 같은 프로세스의 다른 요청이 끼어들 수 없음
+    const entry = this.entries.get(key);
+    const record = apply(entry && entry.expiresAt > Date.now() ? entry.record : null);
+    if (!record) {
+      this.entries.delete(key);
+      return null;
+    }
+    if (this.entries.size >= MAX_MEMORY_ENTRIES) this.prune();
+    this.entries.set(key, { record, expiresAt: Date.now() + ttlMs });
+    return record;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  /**
+   * 만료된 기록 정리 (그래도 가득 차면 오래된 기록부터 삭제)
+   */
+  private prune() {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+    for (const key of this.entries.keys()) {
+      if (this.entries.size < MAX_MEMORY_ENTRIES) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+// ============================================================================
+// 저장소 선택
+// ============================================================================
+
+let store: RateLimitStore | null = null;
+
+/**
+ * 실패 기록 저장소 인스턴스 반환 (싱글톤, 기본값: 메모리)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = new MemoryRateLimitStore();
+  }
+  return store;
+}
+
+// ============================================================================
+// 시도 제한
+// ============================================================================
+
+/**
+ * 실패 횟수별 다음 시도까지 대기 시간 (1초, 2초, 4초 ... 최대 30초)
+ */
+function backoffMs(failures: number): number {
+  if (failures <= FREE_FAILURES) return 0;
+  return Math.min(BACKOFF_BASE_MS * 2 ** (failures - FREE_FAILURES - 1), BACKOFF_MAX_MS);
+}
+
+/**
+ * 키 하나의 시도 가능 여부
+ */
+function statusOf(record: RateLimitRecord | null, maxFailures: number, now: number): LoginAttemptStatus {
+  const failures = record?.failures ?? 0;
+  const remainingAttempts = Math.max(maxFailures - failures, 0);
+
+  if (record?.lockedUntil && record.lockedUntil > now) {
+    return { allowed: false, locked: true, retryAfter: Math.ceil((record.lockedUntil - now) / 1000), remainingAttempts: 0 };
+  }
+
+  const waitMs = record ? record.lastFailureAt + backoffMs(failures) - now : 0;
+  if (waitMs > 0) {
+    return { allowed: false, locked: false, retryAfter: Math.ceil(waitMs / 1000), remainingAttempts };
+  }
+  return { allowed: true, locked: false, retryAfter: 0, remainingAttempts };
+}
+
+/**
+ * 두 키(IP / 계정) 중 더 엄격한 쪽
+ */
+function stricter(a: LoginAttemptStatus, b: LoginAttemptStatus): LoginAttemptStatus {
+  return {
+    allowed: a.allowed && b.allowed,
+    locked: (!a.allowed && a.locked) || (!b.allowed && b.locked),
+    retryAfter: Math.max(a.retryAfter, b.retryAfter),
+    remainingAttempts: Math.min(a.remainingAttempts, b.remainingAttempts),
+  };
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+function accountKey(accountId: string): string {
+  return `account:${accountId.trim().toLowerCase()}`;
+}
+
+/** 기록 보관 시간 */
+const RECORD_TTL_MS = Math.max(FAILURE_WINDOW_MS, LOCKOUT_MS);
+
+/**
+ * 시도 한 번 예약 (시도 가능하면 실패 횟수를 미리 올림)
+ * 잠금이 풀린 기록은 비우고 다시 한도만큼 시도할 수 있게 합니다.
+ * @returns 예약된 기록과 예약 전 상태
+ */
+async function reserveKey(
+  key: string,
+  maxFailures: number,
+  now: number
+): Promise<{ before: LoginAttemptStatus; record: RateLimitRecord | null }> {
+  let before!: LoginAttemptStatus;
+  const record = await getRateLimitStore().update(key, (current) => {
+    const previous = current?.lockedUntil && current.lockedUntil <= now ? null : current;
+    before = statusOf(previous, maxFailures, now);
+    if (!before.allowed) return previous;
+
+    const failures = (previous?.failures ?? 0) + 1;
+    return {
+      failures,
+      lastFailureAt: now,
+      lockedUntil: failures >= maxFailures ? now + LOCKOUT_MS : undefined,
+    };
+  }, RECORD_TTL_MS);
+  return { before, record };
+}
+
+/**
+ * 예약한 시도 되돌리기 (실패 횟수를 한 번 내리고, 이 시도로 걸린 잠금 해제)
+ */
+async function releaseKey(key: string, maxFailures: number): Promise<void> {
+  await getRateLimitStore().update(key, (current) => {
+    if (!current || current.failures <= 1) return null;
+    const failures = current.failures - 1;
+    return { ...current, failures, lockedUntil: failures >= maxFailures ? current.lockedUntil : undefined };
+  }, RECORD_TTL_MS);
+}
+
+/** 시도 예약 결과 */
+export interface LoginAttemptReservation {
+  /** 시도 가능 여부 */
+  allowed: boolean;
+  /** 거부되었으면 대기 / 잠금 상태, 허용되었으면 이번 시도가 실패로 끝났을 때의 상태 */
+  status: LoginAttemptStatus;
+}
+
+/**
+ * 로그인 시도 예약 (비밀번호 확인 전에 호출)
+ * 시도 가능하면 실패 한 번으로 미리 기록하고, 로그인에 성공하면 recordLoginSuccess 로 되돌립니다.
+ * @param ip 접속 IP (알 수 없으면 null - IP 별 제한 건너뜀)
+ */
+export async function reserveLoginAttempt(
+  ip: string | null,
+  accountId: string
+): Promise<LoginAttemptReservation> {
+  const now = Date.now();
+
+  const account = await reserveKey(accountKey(accountId), MAX_ACCOUNT_FAILURES, now);
+  if (!account.before.allowed) {
+    return { allowed: false, status: account.before };
+  }
+  let status = statusOf(account.record, MAX_ACCOUNT_FAILURES, now);
+
+  if (ip) {
+    const byIp = await reserveKey(ipKey(ip), MAX_IP_FAILURES, now);
+    if (!byIp.before.allowed) {
+      await releaseKey(accountKey(accountId), MAX_ACCOUNT_FAILURES);
+      return { allowed: false, status: byIp.before };
+    }
+    status = stricter(statusOf(byIp.record, MAX_IP_FAILURES, now), status);
+  }
+
+  return { allowed: true, status };
+}
+
+/**
+ * 예약한 시도 취소 (서버 오류로 비밀번호를 확인하지 못한 경우)
+ */
+export async function releaseLoginAttempt(ip: string | null, accountId: string): Promise<void> {
+  await Promise.all([
+    releaseKey(accountKey(accountId), MAX_ACCOUNT_FAILURES),
+    ip ? releaseKey(ipKey(ip), MAX_IP_FAILURES) : undefined,
+  ]);
+}
+
+/**
+ * 로그인 성공 시 계정 실패 기록 초기화 (IP 는 예약한 시도만 되돌림)
+ */
+export async function recordLoginSuccess(ip: string | null, accountId: string): Promise<void> {
+  await Promise.all([
+    getRateLimitStore().delete(accountKey(accountId)),
+    ip ? releaseKey(ipKey(ip), MAX_IP_FAILURES) : undefined,
+  ]);
+}
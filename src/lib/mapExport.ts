@@ -0,0 +1,313 @@
+/**
+ * 지도 내보내기 (SVG / PNG)
+ *
+ * 화면의 지도 SVG 를 복제해 제목·기간·범례·출처를 붙인 보고서용 이미지를 만듭니다.
+ * 모두 브라우저에서 처리하며 서버로 전송하지 않습니다.
+ */
+
+import * as d3 from 'd3';
+import type { ColorLegend } from '@/lib/colorScales';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/** 범례 아래 보조 표시 (데이터 없음, PoC 등) */
+export interface ExportLegendNote {
+  color: string;
+  label: string;
+  /** 점선 테두리 (PoC) */
+  dashed?: boolean;
+}
+
+export interface MapExportOptions {
+  title: string;
+  /** 제목 아래 줄 (조회 기간, 작성일 등) */
+  subtitle?: string;
+  legendTitle: string;
+  legend: ColorLegend;
+  /** 범례 값 포맷 */
+  format: (value: number) => string;
+  notes?: ExportLegendNote[];
+  /** 출처 각주 */
+  footnote: string;
+}
+
+export interface ExportedSvg {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const FONT_FAMILY = '"Pretendard", -apple-system, BlinkMacSystemFont, system-ui, "Malgun Gothic", sans-serif';
+
+const PADDING = 20;
+const HEADER_HEIGHT = 64;
+const LEGEND_HEIGHT = 72;
+const LEGEND_ROW_HEIGHT = 18;
+const FOOTER_HEIGHT = 28;
+
+/** PNG 해상도 배율 (보고서 붙여넣기 시 흐려지지 않도록) */
+const PNG_SCALE = 2;
+
+// ============================================================================
+// SVG 생성
+// ============================================================================
+
+/**
+ * 텍스트 폭 (문서에 붙어 있지 않아 계산할 수 없으면 글자 수로 추정)
+ */
+function textWidth(text: d3.Selection<SVGTextElement, undefined, null, undefined>, label: string): number {
+  return text.node()?.getComputedTextLength() || label.length * 11;
+}
+
+/**
+ * 범례 그리기 (연속: 그라데이션 막대, 단계: 색상 칸 + 구간 라벨)
+ * @returns 범례 줄 수 (단계 범례가 길면 여러 줄)
+ */
+function drawLegend(
+  group: d3.Selection<SVGGElement, undefined, null, undefined>,
+  width: number,
+  options: MapExportOptions
+): number {
+  const { legend, format } = options;
+  let rows = 1;
+
+  group.append('text')
+    .attr('font-size', 12)
+    .attr('font-weight', 600)
+    .attr('fill', '#64748b')
+    .text(options.legendTitle);
+
+  if (legend.kind === 'continuous') {
+    const barWidth = Math.min(width, 360);
+    const gradient = group.append('defs')
+      .append('linearGradient')
+      .attr('id', 'map-export-legend');
+    legend.colors.forEach((color, i) => {
+      gradient.append('stop')
+        .attr('offset', `${(i / (legend.colors.length - 1)) * 100}%`)
+        .attr('stop-color', color);
+    });
+    group.append('rect')
+      .attr('y', 10)
+      .attr('width', barWidth)
+      .attr('height', 12)
+      .attr('rx', 6)
+      .attr('fill', 'url(#map-export-legend)');
+
+    // 중간값(로그 스케일 50% 지점, 발산형 0)은 막대 중앙
+    const ticks: [number, string, string][] = [
+      [0, format(legend.min), 'start'],
+      [barWidth, format(legend.max), 'end'],
+    ];
+    if (legend.mid !== undefined) ticks.push([barWidth / 2, format(legend.mid), 'middle']);
+    ticks.forEach(([x, label, anchor]) => {
+      group.append('text')
+        .attr('x', x)
+        .attr('y', 36)
+        .attr('font-size', 11)
+        .attr('fill', '#94a3b8')
+        .attr('text-anchor', anchor)
+        .text(label);
+    });
+  } else {
+    // 폭을 넘으면 다음 줄로
+    let x = 0;
+    legend.classes.forEach(item => {
+      const label = item.from === item.to ? format(item.from) : `${format(item.from)} ~ ${format(item.to)}`;
+      const swatch = group.append('rect')
+        .attr('width', 12)
+        .attr('height', 12)
+        .attr('rx', 2)
+        .attr('fill', item.color);
+      const text = group.append('text')
+        .attr('font-size', 11)
+        .attr('fill', '#64748b')
+        .text(label);
+      const itemWidth = 16 + textWidth(text, label);
+      if (x > 0 && x + itemWidth > width) {
+        x = 0;
+        rows += 1;
+      }
+      const y = 12 + (rows - 1) * LEGEND_ROW_HEIGHT;
+      swatch.attr('x', x).attr('y', y);
+      text.attr('x', x + 16).attr('y', y + 10);
+      x += itemWidth + 14;
+    });
+  }
+
+  const noteY = 44 + (rows - 1) * LEGEND_ROW_HEIGHT;
+  let noteX = 0;
+  (options.notes ?? []).forEach(note => {
+    group.append('rect')
+      .attr('x', noteX)
+      .attr('y', noteY)
+      .attr('width', 12)
+      .attr('height', 12)
+      .attr('rx', 2)
+      .attr('fill', note.color)
+      .attr('stroke', '#94a3b8')
+      .attr('stroke-dasharray', note.dashed ? '2,2' : null);
+    const text = group.append('text')
+      .attr('x', noteX + 16)
+      .attr('y', noteY + 10)
+      .attr('font-size', 11)
+      .attr('fill', '#94a3b8')
+      .text(note.label);
+    noteX += 16 + textWidth(text, note.label) + 14;
+  });
+
+  return rows;
+}
+
+/**
+ * 지도 SVG 에 제목·범례·출처를 붙인 내보내기용 SVG 생성
+ * 현재 확대/이동 상태 그대로 지도 영역을 잘라서 넣습니다.
+ * @param source 화면에 그려진 지도 SVG (viewBox 기준 크기 사용)
+ */
+export function buildMapSvg(source: SVGSVGElement, options: MapExportOptions): ExportedSvg {
+  const { width: mapWidth, height: mapHeight } = source.viewBox.baseVal;
+  const width = mapWidth + PADDING * 2;
+
+  // 범례 텍스트 폭 계산(getComputedTextLength)을 위해 잠시 문서에 붙여서 그림
+  const svg = d3.create('svg')
+    .attr('xmlns', 'http://www.w3.org/2000/svg')
+    .attr('width', width)
+    .attr('font-family', FONT_FAMILY)
+    .style('position', 'absolute')
+    .style('left', '-10000px');
+  document.body.appendChild(svg.node()!);
+
+  try {
+    const background = svg.append('rect').attr('width', width).attr('fill', '#fff');
+
+    // 제목 / 기간
+    svg.append('text')
+      .attr('x', PADDING)
+      .attr('y', PADDING + 18)
+      .attr('font-size', 20)
+      .attr('font-weight', 700)
+      .attr('fill', '#0f172a')
+      .text(options.title);
+    if (options.subtitle) {
+      svg.append('text')
+        .attr('x', PADDING)
+        .attr('y', PADDING + 40)
+        .attr('font-size', 12)
+        .attr('fill', '#64748b')
+        .text(options.subtitle);
+    }
+
+    // 지도 (영역 밖으로 확대된 부분은 잘라냄)
+    svg.append('defs')
+      .append('clipPath')
+      .attr('id', 'map-export-clip')
+      .append('rect')
+      .attr('width', mapWidth)
+      .attr('height', mapHeight);
+    const mapGroup = svg.append('g')
+      .attr('transform', `translate(${PADDING},${HEADER_HEIGHT})`)
+      .attr('clip-path', 'url(#map-export-clip)');
+    Array.from(source.children).forEach(child => {
+      mapGroup.node()!.appendChild(child.cloneNode(true));
+    });
+    // 화면 전용 스타일 제거 (마우스 커서, 전환 효과)
+    mapGroup.selectAll<SVGElement, unknown>('*').style('cursor', null).style('transition', null);
+
+    // 범례
+    const legendGroup = svg.append('g')
+      .attr('transform', `translate(${PADDING},${HEADER_HEIGHT + mapHeight + 12})`);
+    const legendRows = drawLegend(legendGroup, mapWidth, options);
+    const height = HEADER_HEIGHT + mapHeight + LEGEND_HEIGHT + (legendRows - 1) * LEGEND_ROW_HEIGHT
+      + FOOTER_HEIGHT + PADDING;
+    svg.attr('height', height).attr('viewBox', `0 0 ${width} ${height}`);
+    background.attr('height', height);
+
+    // 출처
+    svg.append('text')
+      .attr('x', PADDING)
+      .attr('y', height - PADDING)
+      .attr('font-size', 10)
+      .attr('fill', '#94a3b8')
+      .text(options.footnote);
+
+    svg.style('position', null).style('left', null);
+    return {
+      markup: new XMLSerializer().serializeToString(svg.node()!),
+      width,
+      height,
+    };
+  } finally {
+    svg.remove();
+  }
+}
+
+// ============================================================================
+// 다운로드
+// ============================================================================
+
+/**
+ * Blob 파일 다운로드 (표 내보내기에서도 사용)
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * SVG 파일로 저장
+ */
+export function downloadSvg(exported: ExportedSvg, fileName: string) {
+  downloadBlob(new Blob([exported.markup], { type: 'image/svg+xml;charset=utf-8' }), `${fileName}.svg`);
+}
+
+/**
+ * PNG 파일로 저장 (캔버스에 그려 변환)
+ * @throws 이미지 변환 실패 시
+ */
+export async function downloadPng(exported: ExportedSvg, fileName: string): Promise<void> {
+  const url = URL.createObjectURL(new Blob([exported.markup], { type: 'image/svg+xml;charset=utf-8' }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('SVG 이미지 변환 실패'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = exported.width * PNG_SCALE;
+    canvas.height = exported.height * PNG_SCALE;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('캔버스를 사용할 수 없습니다');
+    context.scale(PNG_SCALE, PNG_SCALE);
+    context.drawImage(image, 0, 0, exported.width, exported.height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('PNG 변환 실패');
+    downloadBlob(blob, `${fileName}.png`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * 파일명에 쓸 수 없는 문자 제거
+ */
+export function toFileName(...parts: string[]): string {
+  return parts
+    .filter(Boolean)
+    .join('_')
+    .replace(/[\\/:*?"<>|]/g, '')
+    .replace(/\s+/g, '_');
+}
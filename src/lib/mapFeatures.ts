@@ -0,0 +1,56 @@
+/**
+ * 지도 경계 Feature 유틸리티
+ *
+ * 경계 데이터(TopoJSON / GeoJSON)를 고객사 집계 키와 맞추는 함수입니다.
+ * 화면 지도(KoreaMap)와 서버 리포트 지도에서 함께 사용합니다.
+ */
+
+import { feature } from 'topojson-client';
+import type { Topology } from 'topojson-specification';
+import { regionPairKey } from '@/data/clients';
+import { toKoreanName, toKoreanMunicipality, canonicalProvince } from '@/data/regionMappings';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/** 지도 영역(Feature)과 매칭되는 집계 키 */
+export interface FeatureKey {
+  key: string;
+  /** 표시용 한글 지역명 */
+  koreanName: string;
+  /** 시/군/구 지도일 때 상위 시/도명 */
+  parentName?: string;
+}
+
+// ============================================================================
+// 변환
+// ============================================================================
+
+/**
+ * TopoJSON 이면 첫 번째 객체를 GeoJSON FeatureCollection 으로 변환
+ */
+export function toFeatureCollection(data: Topology | GeoJSON.FeatureCollection): GeoJSON.FeatureCollection {
+  if (data.type !== 'Topology') return data;
+  const [objectName] = Object.keys(data.objects);
+  return feature(data, data.objects[objectName]) as GeoJSON.FeatureCollection;
+}
+
+/**
+ * GeoJSON Feature 의 집계 키 계산
+ * - 시/도: NAME_1(영문 또는 한글) → 정식 한글 시/도명 (aggregateByRegion 키)
+ * - 시/군/구: NAME_1 + NAME_2 → regionPairKey (aggregateBySubRegion 키, 동명 구 구분)
+ * @returns 매핑할 수 없는 영역이면 null
+ */
+export function getFeatureKey(d: GeoJSON.Feature, type: 'province' | 'municipality'): FeatureKey | null {
+  const name1 = (d.properties?.NAME_1 || d.properties?.name || '') as string;
+  const province = canonicalProvince(toKoreanName(name1, 'province')) ?? toKoreanName(name1, 'province');
+  if (type === 'province') {
+    return { key: province, koreanName: province };
+  }
+
+  const name2 = (d.properties?.NAME_2 || '') as string;
+  const municipality = toKoreanMunicipality(province, name2);
+  if (!municipality) return null;
+  return { key: regionPairKey(province, municipality), koreanName: municipality, parentName: province };
+}
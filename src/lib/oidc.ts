@@ -0,0 +1,404 @@
+/**
+ * OIDC SSO 로그인 (서버 전용)
+ *
+ * 회사 IdP 의 Authorization Code 흐름(PKCE 포함)으로 로그인하고,
+ * ID 토큰의 클레임을 대시보드 권한으로 바꿔 기존 세션 쿠키(gov_session)를 발급합니다.
+ * 설정은 OIDC_* 환경변수로 하며, OIDC_ISSUER / OIDC_CLIENT_ID 가 없으면 SSO 를 사용하지 않습니다.
+ *
+ * - IdP 엔드포인트는 <issuer>/.well-known/openid-configuration 에서 찾습니다.
+ * - ID 토큰 서명은 IdP 의 JWKS 로 확인합니다. (RS256 / ES256)
+ * - 권한: OIDC_ROLE_CLAIM 클레임 값을 OIDC_ROLE_MAP 으로 매핑, 여러 개면 가장 높은 권한
+ */
+
+import { createHash, createPublicKey, randomBytes, verify, JsonWebKey } from 'crypto';
+import { SessionUser, UserRole, hasRole, isUserRole } from '@/lib/auth';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  /** 없으면 공개 클라이언트 (PKCE 만 사용) */
+  clientSecret?: string;
+  /** 콜백 주소 (없으면 요청 주소 기준 /api/auth/oidc/callback) */
+  redirectUri?: string;
+  scopes: string;
+  /** 로그인 화면 버튼에 표시할 이름 */
+  providerName: string;
+  /** 권한을 읽을 클레임 (점으로 중첩 경로 지정, 예: realm_access.roles) */
+  roleClaim: string;
+  /** 클레임 값 → 권한 */
+  roleMap: Record<string, UserRole>;
+  /** 매핑되는 값이 없을 때 권한 (null 이면 로그인 거부) */
+  defaultRole: UserRole | null;
+}
+
+/** 로그인 시작 시 만들어 콜백에서 확인하는 값 */
+export interface OidcLoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  /** 로그인 후 돌아갈 경로 */
+  from: string;
+}
+
+/** ID 토큰 클레임 */
+export type IdTokenClaims = Record<string, unknown> & {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+};
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+/** 로그인 진행 상태 쿠키 (state / nonce / PKCE verifier) */
+export const OIDC_STATE_COOKIE = 'gov_oidc';
+
+/** 로그인 진행 상태 유효 시간 (초) - 10분 */
+export const OIDC_STATE_MAX_AGE = 60 * 10;
+
+/** IdP 메타데이터 / JWKS 캐시 시간 (ms) - 1시간 */
+const METADATA_CACHE_MS = 60 * 60 * 1000;
+
+/** ID 토큰 시간 확인 허용 오차 (초) */
+const CLOCK_SKEW_SECONDS = 60;
+
+/** 서명 알고리즘 → Node.js verify 설정 */
+const SIGNATURE_ALGORITHMS: Record<string, { hash: string; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+};
+
+// ============================================================================
+// 설정
+// ============================================================================
+
+/**
+ * OIDC_ROLE_MAP 파싱 (형식: "IdP값=권한,IdP값=권한")
+ */
+function parseRoleMap(value: string | undefined): Record<string, UserRole> {
+  const map: Record<string, UserRole> = {};
+  for (const pair of (value ?? '').split(',')) {
+    const index = pair.lastIndexOf('=');
+    const claimValue = pair.slice(0, index).trim();
+    const role = pair.slice(index + 1).trim();
+    if (index > 0 && claimValue && isUserRole(role)) {
+      map[claimValue] = role;
+    }
+  }
+  return map;
+}
+
+/**
+ * 환경변수의 OIDC 설정 (SSO 를 사용하지 않으면 null)
+ */
+export function getOidcConfig(): OidcConfig | null {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/+$/, '');
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+
+  const defaultRole = process.env.OIDC_DEFAULT_ROLE;
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+    scopes: process.env.OIDC_SCOPES || 'openid profile email',
+    providerName: process.env.OIDC_PROVIDER_NAME || 'SSO',
+    roleClaim: process.env.OIDC_ROLE_CLAIM || 'groups',
+    roleMap: parseRoleMap(process.env.OIDC_ROLE_MAP),
+    defaultRole: isUserRole(defaultRole) ? defaultRole : null,
+  };
+}
+
+/**
+ * 콜백 주소 (OIDC_REDIRECT_URI, 없으면 요청 주소 기준)
+ * 리버스 프록시 뒤에서 요청 주소가 외부 주소와 다르면 OIDC_REDIRECT_URI 를 설정합니다.
+ */
+export function getRedirectUri(config: OidcConfig, requestUrl: string): string {
+  return config.redirectUri ?? new URL('/api/auth/oidc/callback', requestUrl).toString();
+}
+
+// ============================================================================
+// 권한 / 사용자 매핑
+// ============================================================================
+
+/**
+ * 클레임 값 (점으로 중첩 경로, 배열 / 공백·쉼표 구분 문자열 모두 허용)
+ */
+function readClaimValues(claims: Record<string, unknown>, path: string): string[] {
+  let value: unknown = claims;
+  for (const key of path.split('.')) {
+    value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+  if (typeof value === 'string') return value.split(/[\s,]+/).filter(Boolean);
+  return [];
+}
+
+/**
+ * ID 토큰 클레임 → 대시보드 권한
+ * @returns 매핑된 가장 높은 권한, 없으면 기본 권한 (기본 권한도 없으면 null)
+ */
+export function mapClaimsToRole(claims: Record<string, unknown>, config: OidcConfig): UserRole | null {
+  let role: UserRole | null = null;
+  for (const value of readClaimValues(claims, config.roleClaim)) {
+    const mapped = config.roleMap[value];
+    if (mapped && (!role || hasRole(mapped, role))) role = mapped;
+  }
+  return role ?? config.defaultRole;
+}
+
+/**
+ * ID 토큰 클레임 → 세션 사용자
+ * 사용자 ID 는 IdP 가 바꿀 수 없게 보장하는 iss + sub 로 만들고, 로컬 계정과 구분되도록 앞에 "sso:" 를 붙입니다.
+ * (email / preferred_username 은 IdP 에서 사용자가 바꾸거나 확인되지 않은 값일 수 있어 이름 표시에만 사용)
+ */
+export function toSessionUser(claims: IdTokenClaims, role: UserRole): SessionUser {
+  const pickString = (...keys: string[]) =>
+    keys.map((key) => claims[key]).find((v): v is string => typeof v === 'string' && v !== '');
+  const subject = createHash('sha256').update(`${claims.iss}\n${claims.sub}`).digest('base64url').slice(0, 22);
+
+  return {
+    id: `sso:${subject}`,
+    name: pickString('name', 'preferred_username', 'email') ?? claims.sub,
+    role,
+  };
+}
+
+// ============================================================================
+// IdP 메타데이터 / JWKS
+// ============================================================================
+
+const metadataCache = new Map<string, { metadata: ProviderMetadata; expiresAt: number }>();
+const jwksCache = new Map<string, { keys: JsonWebKey[]; expiresAt: number }>();
+
+async function fetchJson(url: string, init?: RequestInit): Promise<Record<string, unknown>> {
+  const response = await fetch(url, { ...init, cache: 'no-store' });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`IdP 요청 실패 (${response.status}): ${data.error_description || data.error || url}`);
+  }
+  return data;
+}
+
+/**
+ * IdP 메타데이터 (openid-configuration)
+ * @throws 조회 실패 / issuer 불일치 시 에러
+ */
+async function getProviderMetadata(issuer: string): Promise<ProviderMetadata> {
+  const cached = metadataCache.get(issuer);
+  if (cached && cached.expiresAt > Date.now()) return cached.metadata;
+
+  const data = await fetchJson(`${issuer}/.well-known/openid-configuration`);
+  const metadata = data as unknown as ProviderMetadata;
+  if (metadata.issuer?.replace(/\/+$/, '') !== issuer) {
+    throw new Error(`IdP issuer 가 설정과 다릅니다: ${metadata.issuer}`);
+  }
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error('IdP 메타데이터에 필요한 엔드포인트가 없습니다');
+  }
+  metadataCache.set(issuer, { metadata, expiresAt: Date.now() + METADATA_CACHE_MS });
+  return metadata;
+}
+
+/**
+ * IdP 서명 키 (kid 를 찾지 못하면 키 교체로 보고 다시 조회)
+ */
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<JsonWebKey> {
+  const find = (keys: JsonWebKey[]) =>
+    keys.find((key) => (!kid || key.kid === kid) && (!key.use || key.use === 'sig'));
+
+  const cached = jwksCache.get(jwksUri);
+  const cachedKey = cached && cached.expiresAt > Date.now() ? find(cached.keys) : undefined;
+  if (cachedKey) return cachedKey;
+
+  const data = await fetchJson(jwksUri);
+  const keys = Array.isArray(data.keys) ? (data.keys as JsonWebKey[]) : [];
+  jwksCache.set(jwksUri, { keys, expiresAt: Date.now() + METADATA_CACHE_MS });
+
+  const key = find(keys);
+  if (!key) {
+    throw new Error(`ID 토큰 서명 키를 찾을 수 없습니다: ${kid}`);
+  }
+  return key;
+}
+
+// ============================================================================
+// 로그인 흐름
+// ============================================================================
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * 로그인 시작: IdP 인증 주소와 콜백에서 확인할 값 생성
+ * @param from 로그인 후 돌아갈 경로
+ */
+export async function createAuthorizationRequest(
+  config: OidcConfig,
+  redirectUri: string,
+  from: string
+): Promise<{ url: string; loginState: OidcLoginState }> {
+  const metadata = await getProviderMetadata(config.issuer);
+  const loginState: OidcLoginState = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    from,
+  };
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scopes,
+    state: loginState.state,
+    nonce: loginState.nonce,
+    code_challenge: createHash('sha256').update(loginState.codeVerifier).digest('base64url'),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { url: url.toString(), loginState };
+}
+
+/**
+ * 인가 코드 → ID 토큰 (토큰 엔드포인트 호출, client_secret_basic)
+ * @throws 교환 실패 시 에러
+ */
+async function exchangeCode(
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  redirectUri: string,
+  code: string,
+  codeVerifier: string
+): Promise<string> {
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+  if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', config.clientId);
+  }
+
+  const data = await fetchJson(metadata.token_endpoint, { method: 'POST', headers, body });
+  if (typeof data.id_token !== 'string') {
+    throw new Error('토큰 응답에 id_token 이 없습니다');
+  }
+  return data.id_token;
+}
+
+/**
+ * ID 토큰 검증 (서명, issuer, audience, 만료, nonce)
+ * @throws 검증 실패 시 에러
+ */
+async function verifyIdToken(
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  idToken: string,
+  nonce: string
+): Promise<IdTokenClaims> {
+  const [encodedHeader, encodedPayload, encodedSignature] = idToken.split('.');
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw new Error('ID 토큰 형식이 올바르지 않습니다');
+  }
+
+  const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+  const algorithm = SIGNATURE_ALGORITHMS[header.alg];
+  if (!algorithm) {
+    throw new Error(`지원하지 않는 ID 토큰 서명 방식입니다: ${header.alg}`);
+  }
+
+  const jwk = await getSigningKey(metadata.jwks_uri, header.kid);
+  const isValid = verify(
+    algorithm.hash,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key: createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: algorithm.dsaEncoding },
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!isValid) {
+    throw new Error('ID 토큰 서명이 올바르지 않습니다');
+  }
+
+  const claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8')) as IdTokenClaims;
+  const now = Date.now() / 1000;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss?.replace(/\/+$/, '') !== config.issuer) throw new Error('ID 토큰 issuer 가 다릅니다');
+  if (!audiences.includes(config.clientId)) throw new Error('ID 토큰 audience 가 다릅니다');
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) throw new Error('ID 토큰이 만료되었습니다');
+  if (claims.nonce !== nonce) throw new Error('ID 토큰 nonce 가 다릅니다');
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new Error('ID 토큰에 sub 가 없습니다');
+
+  return claims;
+}
+
+/**
+ * 로그인 완료: 인가 코드 교환 후 ID 토큰 검증
+ * @returns 검증된 ID 토큰 클레임
+ * @throws IdP 요청 / 토큰 검증 실패 시 에러
+ */
+export async function completeAuthorization(
+  config: OidcConfig,
+  redirectUri: string,
+  code: string,
+  loginState: OidcLoginState
+): Promise<IdTokenClaims> {
+  const metadata = await getProviderMetadata(config.issuer);
+  const idToken = await exchangeCode(config, metadata, redirectUri, code, loginState.codeVerifier);
+  return verifyIdToken(config, metadata, idToken, loginState.nonce);
+}
+
+// ============================================================================
+// 로그인 진행 상태 쿠키
+// ============================================================================
+
+/**
+ * 로그인 진행 상태 → 쿠키 값
+ */
+export function encodeLoginState(loginState: OidcLoginState): string {
+  return Buffer.from(JSON.stringify(loginState)).toString('base64url');
+}
+
+/**
+ * 쿠키 값 → 로그인 진행 상태 (형식이 맞지 않으면 null)
+ */
+export function decodeLoginState(value: string | undefined): OidcLoginState | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+    const fields = [parsed.state, parsed.nonce, parsed.codeVerifier, parsed.from];
+    return fields.every((field) => typeof field === 'string') ? (parsed as OidcLoginState) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 로그인 후 돌아갈 경로 (같은 사이트의 경로만 허용)
+ */
+export function safeReturnPath(from: string | null): string {
+  return from && from.startsWith('/') && !from.startsWith('//') && !from.startsWith('/\\') ? from : '/';
+}
@@ -0,0 +1,157 @@
+/**
+ * 기관 자동 분류기
+ *
+ * 신규 기관명을 탭 분류(교육청/지자체/중앙행정기관/시도청/공공기관/민간/대학)로 분류하고
+ * region / subRegion 은 regionResolver 로 기관명에서 추론합니다.
+ *
+ * 분류 순서
+ * 1. CLASSIFICATION_OVERRIDES (수동 지정, 규칙으로 판단하기 어려운 기관)
+ * 2. CLASSIFICATION_RULES (기관명 접미사/키워드, 위에서부터 먼저 일치하는 규칙 적용)
+ * 3. 일치하는 규칙이 없으면 분류 없음 (confidence: 'low')
+ *
+ * confidence 가 'low' 인 결과는 검토 대기열(reviewQueue)로 보내 관리자가 확인합니다.
+ * (지자체로 판단했지만 시/군/구 이름이 여러 시/도에 있어 지역을 정할 수 없는 경우 포함)
+ */
+
+import { ClientCategory, CLIENT_CATEGORY_LABELS } from '@/data/clients';
+import { PROVINCE_KR_TO_EN, PROVINCE_ABBR_TO_EN } from '@/data/regionMappings';
+import { resolveRegionFromName } from '@/lib/regionResolver';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export type ClassificationConfidence = 'high' | 'medium' | 'low';
+
+export interface Classification {
+  /** 분류 (판단 불가 시 null) */
+  category: ClientCategory | null;
+  confidence: ClassificationConfidence;
+  /** 적용된 규칙 설명 */
+  reason: string;
+  /** 추론된 시/도 */
+  region?: string;
+  /** 추론된 시/군/구 */
+  subRegion?: string;
+}
+
+interface ClassificationRule {
+  pattern: RegExp;
+  category: ClientCategory;
+  confidence: ClassificationConfidence;
+  reason: string;
+}
+
+// ============================================================================
+// 분류 규칙
+// ============================================================================
+
+/**
+ * 수동 분류 지정
+ * 규칙과 다르게 분류해야 하는 기관 (README 재분류 이력 참고)
+ */
+export const CLASSIFICATION_OVERRIDES: Record<string, ClientCategory> = {
+  '광주광역시도시공사': 'public',
+  '경남소방': 'public',
+  '충청북도': 'province',
+  '경상남도청': 'province',
+  '대한민국정부': 'central',
+  '한전KPS': 'public',
+  '한국지역난방기술': 'private',
+};
+
+/**
+ * 기관명 규칙 (위에서부터 먼저 일치하는 규칙 적용)
+ * 지자체·시도청 판단은 지역명 확인이 필요해 classifyOrganization 에서 별도 처리합니다.
+ */
+const CLASSIFICATION_RULES: ClassificationRule[] = [
+  { pattern: /교육청/, category: 'education', confidence: 'high', reason: "'교육청' 포함" },
+  { pattern: /(대학교|대학)$/, category: 'university', confidence: 'high', reason: "'대학교' 접미사" },
+  { pattern: /(시|군|구)의회$/, category: 'local', confidence: 'high', reason: '기초의회 접미사' },
+  { pattern: /(구청|군청|특례시청)$/, category: 'local', confidence: 'high', reason: "'구청/군청' 접미사" },
+  { pattern: /(주식회사|\(주\)|㈜)/, category: 'private', confidence: 'high', reason: '회사 표기' },
+  {
+    pattern: /(공단|공사|재단|진흥원|개발원|연구원|연금|협회|은행|마사회)/,
+    category: 'public',
+    confidence: 'medium',
+    reason: "'공단/공사/재단/연구원' 등 공공기관 키워드",
+  },
+  {
+    pattern: /(센터|미술관|박물관|도서관|보건소|예술단|예술의전당|훈련원|사무소|소방)/,
+    category: 'public',
+    confidence: 'medium',
+    reason: "'센터/도서관/보건소' 등 공공시설 키워드",
+  },
+  {
+    pattern: /(부|처|청|위원회|본부)$|(본부|검역)/,
+    category: 'central',
+    confidence: 'medium',
+    reason: "'부/처/청/위원회/본부' 접미사",
+  },
+  { pattern: /[A-Za-z]/, category: 'private', confidence: 'low', reason: '영문 포함 기관명' },
+];
+
+/**
+ * 시/도 명칭 여부 (정식 명칭 또는 '부산시', '경남도' 같은 약칭)
+ */
+function isProvinceName(name: string): boolean {
+  return Object.hasOwn(PROVINCE_KR_TO_EN, name) || Object.hasOwn(PROVINCE_ABBR_TO_EN, name.replace(/(시|도)$/, ''));
+}
+
+// ============================================================================
+// 분류
+// ============================================================================
+
+/**
+ * 기관명 분류
+ * @param name 기관명
+ * @returns 분류, 신뢰도, 적용 규칙, 추론된 지역
+ */
+export function classifyOrganization(name: string): Classification {
+  // 끝에 붙은 기호 제거 (예: '동작구청+')
+  const trimmed = name.trim().replace(/[^가-힣A-Za-z0-9)]+$/, '');
+  const { region, subRegion } = resolveRegionFromName(trimmed);
+  const result = (
+    category: ClientCategory | null,
+    confidence: ClassificationConfidence,
+    reason: string
+  ): Classification => ({ category, confidence, reason, region, subRegion });
+
+  if (Object.hasOwn(CLASSIFICATION_OVERRIDES, trimmed)) {
+    return result(CLASSIFICATION_OVERRIDES[trimmed], 'high', '수동 지정');
+  }
+
+  const rule = CLASSIFICATION_RULES.find(({ pattern }) => pattern.test(trimmed));
+  // 교육청·대학·기초의회·구청/군청은 지역명보다 우선
+  if (rule?.confidence === 'high') {
+    // 고성군청, 강서구청처럼 여러 시/도에 같은 이름이 있으면 지역을 정할 수 없으므로 검토 대상
+    if (rule.category === 'local' && !subRegion) {
+      return result(rule.category, 'low', `${rule.reason} - 시/군/구를 하나의 시/도로 특정할 수 없음`);
+    }
+    return result(rule.category, rule.confidence, rule.reason);
+  }
+
+  // 시/도 이름만 있거나 '도청/시청'으로 끝나는 경우: 시도청 (예: 충청북도, 서울특별시청, 부산시청)
+  if (region && !subRegion && isProvinceName(trimmed.replace(/청$/, ''))) {
+    return result('province', 'high', '시/도 명칭');
+  }
+
+  // 시/군/구 이름 + '시청' 또는 이름만 있는 경우: 지자체 (예: 서산시청, 하동군, 대전광역시 중구)
+  if (subRegion && /(시|군|구)(청)?$/.test(trimmed)) {
+    return result('local', trimmed.endsWith('청') ? 'high' : 'medium', '시/군/구 명칭');
+  }
+
+  if (rule) return result(rule.category, rule.confidence, rule.reason);
+
+  return result(null, 'low', '일치하는 규칙 없음');
+}
+
+/**
+ * 분류 결과 요약 문구 (예: '지자체 (시/군/구 명칭)')
+ */
+export function describeClassification(classification: Classification): string {
+  const label = classification.category
+    ? CLIENT_CATEGORY_LABELS[classification.category]
+    : '분류 불가';
+  return `${label} (${classification.reason})`;
+}
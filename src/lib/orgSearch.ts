@@ -0,0 +1,287 @@
+/**
+ * 기관 검색 (기관명 / 시·도 / 시·군·구)
+ *
+ * - 일반 검색: 공백·대소문자 무시 부분 일치
+ * - 초성 검색: "ㅅㅇㄱㅇㅊ" → 서울시교육청, 완성형과 섞어 쓰기 가능 ("서울ㅅㄱㅇㅊ")
+ * - 오타 허용: 자모 단위 편집 거리로 비슷한 이름 찾기 ("서울시교욱청" → 서울시교육청)
+ *   초성이 섞인 검색어는 중간에 빠뜨린 글자를 허용하고, 초성 문자열끼리 편집 거리로 비교 (잘못 쓴 초성 허용)
+ *   (짧은 검색어는 제외)
+ */
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/** 오타 허용 비교용 검색어 */
+interface FuzzyQuery {
+  /** 초성이 섞인 검색어면 초성 문자열, 아니면 자모 */
+  chars: string[];
+  chosung: boolean;
+}
+
+/** 검색 대상 */
+export interface SearchEntry {
+  name: string;
+  region?: string;
+  subRegion?: string;
+}
+
+export type SearchField = 'name' | 'region' | 'subRegion';
+
+/** 일치 방식 (위에서부터 우선) */
+export type SearchMatchKind = 'exact' | 'prefix' | 'contains' | 'chosung' | 'fuzzy';
+
+export interface SearchMatch<T extends SearchEntry> {
+  item: T;
+  field: SearchField;
+  kind: SearchMatchKind;
+  /** 작을수록 앞에 표시 */
+  score: number;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const HANGUL_BASE = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+const JUNG_COUNT = 21;
+const JONG_COUNT = 28;
+
+/** 초성 19자 (호환용 자모) */
+const CHOSUNG = [
+  'ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ',
+  'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ',
+];
+
+/** 중성 21자 */
+const JUNGSUNG = [
+  'ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅘ', 'ㅙ',
+  'ㅚ', 'ㅛ', 'ㅜ', 'ㅝ', 'ㅞ', 'ㅟ', 'ㅠ', 'ㅡ', 'ㅢ', 'ㅣ',
+];
+
+/** 종성 27자 (0번은 받침 없음) */
+const JONGSUNG = [
+  '', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ',
+  'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ',
+];
+
+const CHOSUNG_SET = new Set(CHOSUNG);
+
+/** 필드별 가중치 (기관명 일치를 지역 일치보다 앞에) */
+const FIELD_WEIGHT: Record<SearchField, number> = {
+  name: 0,
+  region: 20,
+  subRegion: 10,
+};
+
+const KIND_SCORE: Record<Exclude<SearchMatchKind, 'fuzzy'>, number> = {
+  exact: 0,
+  prefix: 1,
+  contains: 2,
+  chosung: 3,
+};
+
+/** 오타 허용 결과 기본 점수 (편집 거리만큼 더함) */
+const FUZZY_SCORE = 5;
+
+// ============================================================================
+// 한글 유틸리티
+// ============================================================================
+
+/**
+ * 검색용 정규화 (공백 제거, 소문자)
+ */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, '').toLowerCase();
+}
+
+/**
+ * 완성형 한글 음절이면 초성 반환
+ */
+function getChosungOf(char: string): string | null {
+  const code = char.charCodeAt(0);
+  if (code < HANGUL_BASE || code > HANGUL_LAST) return null;
+  return CHOSUNG[Math.floor((code - HANGUL_BASE) / (JUNG_COUNT * JONG_COUNT))];
+}
+
+/**
+ * 문자열의 초성만 추출 (한글 외 문자는 그대로)
+ * @example getChosung('서울시교육청') // 'ㅅㅇㅅㄱㅇㅊ'
+ */
+export function getChosung(text: string): string {
+  return Array.from(text, char => getChosungOf(char) ?? char).join('');
+}
+
+/**
+ * 자모 단위로 분해 (오타 허용 비교용)
+ * @example decompose('교육') // ['ㄱ', 'ㅛ', 'ㅇ', 'ㅠ', 'ㄱ']
+ */
+function decompose(text: string): string[] {
+  const result: string[] = [];
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < HANGUL_BASE || code > HANGUL_LAST) {
+      result.push(char);
+      continue;
+    }
+    const offset = code - HANGUL_BASE;
+    result.push(CHOSUNG[Math.floor(offset / (JUNG_COUNT * JONG_COUNT))]);
+    result.push(JUNGSUNG[Math.floor((offset % (JUNG_COUNT * JONG_COUNT)) / JONG_COUNT)]);
+    const jong = JONGSUNG[offset % JONG_COUNT];
+    if (jong) result.push(jong);
+  }
+  return result;
+}
+
+/**
+ * 검색어 글자가 대상 글자와 일치하는지 (초성 자모는 같은 초성의 음절과 일치)
+ */
+function charMatches(queryChar: string, textChar: string): boolean {
+  return queryChar === textChar
+    || (CHOSUNG_SET.has(queryChar) && getChosungOf(textChar) === queryChar);
+}
+
+/**
+ * 초성 섞인 검색어 부분 일치 위치 (없으면 -1)
+ */
+function indexOfWithChosung(text: string, query: string): number {
+  const textChars = Array.from(text);
+  const queryChars = Array.from(query);
+  for (let start = 0; start + queryChars.length <= textChars.length; start++) {
+    if (queryChars.every((char, i) => charMatches(char, textChars[start + i]))) return start;
+  }
+  return -1;
+}
+
+/**
+ * 초성 섞인 검색어가 글자를 건너뛰며 순서대로 나타날 때 건너뛴 글자 수 (가장 적은 경우, 없으면 -1)
+ * @example skippedWithChosung('서울시교육청', 'ㅅㅇㄱㅇㅊ') // 1 ('시' 건너뜀)
+ */
+function skippedWithChosung(text: string, query: string): number {
+  const textChars = Array.from(text);
+  const queryChars = Array.from(query);
+  let best = -1;
+  for (let start = 0; start < textChars.length; start++) {
+    if (!charMatches(queryChars[0], textChars[start])) continue;
+    // 시작 위치마다 가장 먼저 나오는 글자로 맞추면 끝 위치가 가장 앞
+    let matched = 1;
+    let end = start + 1;
+    for (; matched < queryChars.length && end < textChars.length; end++) {
+      if (charMatches(queryChars[matched], textChars[end])) matched++;
+    }
+    // 여기서 안 되면 더 뒤에서 시작해도 안 됨
+    if (matched < queryChars.length) break;
+    const skipped = end - start - queryChars.length;
+    if (best < 0 || skipped < best) best = skipped;
+  }
+  return best;
+}
+
+/**
+ * 대상 문자열의 어느 부분과 가장 가까운지 편집 거리 (근사 부분 문자열 매칭)
+ * 검색어 전체가 대상의 일부와 비슷하면 작은 값이 나옵니다.
+ */
+function substringDistance(text: string[], query: string[]): number {
+  // prev[j]: 검색어 i 글자까지와 대상 j 위치에서 끝나는 부분 문자열의 최소 거리
+  let prev = new Array<number>(text.length + 1).fill(0);
+  for (let i = 1; i <= query.length; i++) {
+    const current = new Array<number>(text.length + 1);
+    current[0] = i;
+    for (let j = 1; j <= text.length; j++) {
+      current[j] = Math.min(
+        prev[j] + 1,
+        current[j - 1] + 1,
+        prev[j - 1] + (query[i - 1] === text[j - 1] ? 0 : 1)
+      );
+    }
+    prev = current;
+  }
+  return Math.min(...prev);
+}
+
+/**
+ * 검색어 길이별 허용 오타 수 (자모 기준)
+ * 두 글자 검색어(자모 6개 미만)는 '부산' → '수산' 처럼 엉뚱한 결과가 많아 오타를 허용하지 않습니다.
+ */
+function maxTypos(jamoLength: number): number {
+  return jamoLength < 6 ? 0 : Math.floor(jamoLength / 5);
+}
+
+/**
+ * 초성 검색어 길이별 허용 오타 수 (초성 글자 기준)
+ * 초성 세 글자 이하는 일치하는 기관이 너무 많아 오타를 허용하지 않습니다.
+ */
+function maxChosungTypos(chosungLength: number): number {
+  return chosungLength < 4 ? 0 : Math.floor(chosungLength / 4);
+}
+
+// ============================================================================
+// 검색
+// ============================================================================
+
+/**
+ * 한 필드 값과 검색어 비교
+ * @returns 일치하지 않으면 null
+ */
+function matchField(
+  value: string,
+  query: string,
+  fuzzy: FuzzyQuery
+): { kind: SearchMatchKind; score: number } | null {
+  const text = normalize(value);
+  if (!text) return null;
+
+  if (text === query) return { kind: 'exact', score: KIND_SCORE.exact };
+  if (text.startsWith(query)) return { kind: 'prefix', score: KIND_SCORE.prefix };
+  if (text.includes(query)) return { kind: 'contains', score: KIND_SCORE.contains };
+  if (indexOfWithChosung(text, query) >= 0) return { kind: 'chosung', score: KIND_SCORE.chosung };
+  if (fuzzy.chosung) {
+    // 중간 글자를 빠뜨린 초성 검색어 ("ㅅㅇㄱㅇㅊ" → 서울시교육청)
+    const skipped = skippedWithChosung(text, query);
+    if (skipped > 0 && skipped <= maxChosungTypos(fuzzy.chars.length)) {
+      return { kind: 'chosung', score: KIND_SCORE.chosung + skipped };
+    }
+  }
+
+  const limit = fuzzy.chosung ? maxChosungTypos(fuzzy.chars.length) : maxTypos(fuzzy.chars.length);
+  if (limit === 0) return null;
+  const target = fuzzy.chosung ? Array.from(getChosung(text)) : decompose(text);
+  const distance = substringDistance(target, fuzzy.chars);
+  return distance <= limit ? { kind: 'fuzzy', score: FUZZY_SCORE + distance } : null;
+}
+
+/**
+ * 기관 검색 (기관명 · 시/도 · 시/군/구)
+ * 기관마다 가장 잘 맞는 필드 하나로 순위를 매기고, 같은 점수는 이름이 짧은 순으로 정렬합니다.
+ */
+export function searchOrganizations<T extends SearchEntry>(
+  items: T[],
+  rawQuery: string,
+  limit = 10
+): SearchMatch<T>[] {
+  const query = normalize(rawQuery);
+  if (!query) return [];
+  // 초성이 섞인 검색어는 초성 문자열끼리, 아니면 자모끼리 오타 허용 비교
+  const fuzzy: FuzzyQuery = Array.from(query).some(char => CHOSUNG_SET.has(char))
+    ? { chars: Array.from(getChosung(query)), chosung: true }
+    : { chars: decompose(query), chosung: false };
+
+  const matches: SearchMatch<T>[] = [];
+  items.forEach(item => {
+    let best: SearchMatch<T> | null = null;
+    (['name', 'subRegion', 'region'] as const).forEach(field => {
+      const value = item[field];
+      if (!value) return;
+      const match = matchField(value, query, fuzzy);
+      if (!match) return;
+      const score = match.score + FIELD_WEIGHT[field];
+      if (!best || score < best.score) best = { item, field, kind: match.kind, score };
+    });
+    if (best) matches.push(best);
+  });
+
+  return matches
+    .sort((a, b) => a.score - b.score || a.item.name.length - b.item.name.length)
+    .slice(0, limit);
+}
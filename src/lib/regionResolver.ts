@@ -0,0 +1,249 @@
+/**
+ * 기관명 기반 지역 추론 / 검증
+ *
+ * 기관명("광주광역시 동구청", "대전광역시 중구", "경남소방" 등)에서 (시/도, 시/군/구)를 추론하고,
+ * 저장된 region / subRegion 이 올바른 조합인지, 기관명과 일치하는지 검사합니다.
+ *
+ * 시/도 명칭은 canonicalProvince 로 정식 명칭으로 맞추며,
+ * 결과에는 GeoJSON 매칭용 영문명(NAME_1 / NAME_2)도 함께 담습니다.
+ */
+
+import { CategorizedRecord, ClientCategory } from '@/data/clients';
+import {
+  PROVINCE_KR_TO_EN,
+  PROVINCE_EN_TO_KR,
+  PROVINCE_ABBR_TO_EN,
+  MUNICIPALITY_KR_TO_EN,
+  MUNICIPALITIES_BY_PROVINCE,
+  findProvincesOfMunicipality,
+  canonicalProvince,
+} from '@/data/regionMappings';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export interface ResolvedRegion {
+  /** 시/도 (정식 한글 명칭) */
+  region?: string;
+  /** 시/군/구 */
+  subRegion?: string;
+  /** GeoJSON NAME_1 */
+  regionEn?: string;
+  /** GeoJSON NAME_2 */
+  subRegionEn?: string;
+}
+
+export type RegionIssueCode =
+  | 'unknown-province'
+  | 'unknown-municipality'
+  | 'municipality-mismatch'
+  | 'name-mismatch'
+  | 'outdated-name'
+  | 'missing';
+
+export interface RegionIssue {
+  code: RegionIssueCode;
+  /** error: 지도 집계가 틀어지는 문제, warning: 확인 권장 */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface RegionCheckResult {
+  name: string;
+  category: ClientCategory;
+  region?: string;
+  subRegion?: string;
+  issues: RegionIssue[];
+  /** 제안 값 (기관명 또는 시/군/구에서 추론) */
+  suggestion?: ResolvedRegion;
+}
+
+// ============================================================================
+// 영문명
+// ============================================================================
+
+const PROVINCES = Object.keys(PROVINCE_KR_TO_EN);
+
+/**
+ * 시/군/구 영문명 (GeoJSON NAME_2)
+ * 동명 군(고성군)은 '고성군(경남)' 형태의 키를 먼저 찾습니다.
+ */
+function municipalityEn(province: string, municipality: string): string | undefined {
+  const abbr = Object.keys(PROVINCE_ABBR_TO_EN)
+    .find((key) => PROVINCE_EN_TO_KR[PROVINCE_ABBR_TO_EN[key]] === province);
+  return MUNICIPALITY_KR_TO_EN[`${municipality}(${abbr})`] ?? MUNICIPALITY_KR_TO_EN[municipality];
+}
+
+function withEnglishNames(region?: string, subRegion?: string): ResolvedRegion {
+  if (!region) return {};
+  const resolved: ResolvedRegion = { region, regionEn: PROVINCE_KR_TO_EN[region] };
+  if (subRegion) {
+    resolved.subRegion = subRegion;
+    resolved.subRegionEn = municipalityEn(region, subRegion);
+  }
+  return resolved;
+}
+
+// ============================================================================
+// 기관명에서 추론
+// ============================================================================
+
+/** 약어/시·군 이름 뒤에 오면 지역명으로 보는 말 (예: 서울지역본부, 제천지사, 인천공항) */
+const LOCATION_SUFFIX = '(지역|지사|지점|본부|공항)';
+
+/**
+ * 기관명에서 시/도 추론
+ * 정식 명칭(서울특별시, 충청북도 등)을 먼저 찾고, 없으면 기관명 앞머리 약어(서울, 경남 등)를 봅니다.
+ */
+function provinceFromName(name: string): string | undefined {
+  const fullName = PROVINCES
+    .filter((province) => name.includes(province))
+    .sort((a, b) => b.length - a.length)[0];
+  if (fullName) return fullName;
+
+  const abbr = Object.keys(PROVINCE_ABBR_TO_EN).find((key) =>
+    name.startsWith(key) || new RegExp(`${key}${LOCATION_SUFFIX}`).test(name)
+  );
+  return abbr ? PROVINCE_EN_TO_KR[PROVINCE_ABBR_TO_EN[abbr]] : undefined;
+}
+
+/**
+ * 기관명에서 시/군/구 추론 (가장 긴 이름 우선, '수원특례시' → '수원시')
+ * 시/군은 '시/군'을 뺀 이름으로 시작하거나 지사·지역 앞에 와도 인정합니다
+ * ('서귀포공립미술관' → '서귀포시', '에콜리안제천지사' → '제천시').
+ */
+function municipalityFromName(name: string, province?: string): string | undefined {
+  const normalized = name.replace(/특례시/g, '시');
+  const candidates = province
+    ? MUNICIPALITIES_BY_PROVINCE[province] ?? []
+    : [...new Set(Object.values(MUNICIPALITIES_BY_PROVINCE).flat())];
+
+  const stemMatches = (municipality: string) => {
+    const stem = municipality.replace(/(시|군)$/, '');
+    if (stem === municipality || Object.hasOwn(PROVINCE_ABBR_TO_EN, stem)) return false;
+    return normalized.startsWith(stem) || new RegExp(`${stem}${LOCATION_SUFFIX}`).test(normalized);
+  };
+
+  return candidates
+    .filter((municipality) => normalized.includes(municipality) || stemMatches(municipality))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * 기관명에서 (시/도, 시/군/구) 추론
+ * 시/도를 모르는데 동명 구가 여러 시/도에 있으면(중구, 강서구 등) 시/군/구는 판단하지 않습니다.
+ */
+export function resolveRegionFromName(name: string): ResolvedRegion {
+  const province = provinceFromName(name);
+  const municipality = municipalityFromName(name, province);
+
+  if (province) return withEnglishNames(province, municipality);
+  if (!municipality) return {};
+
+  const provinces = findProvincesOfMunicipality(municipality);
+  return provinces.length === 1 ? withEnglishNames(provinces[0], municipality) : {};
+}
+
+// ============================================================================
+// 검증
+// ============================================================================
+
+/**
+ * (시/도, 시/군/구) 조합 검증
+ * @returns 정규화된 조합과 발견된 문제
+ */
+export function validateRegionPair(
+  region?: string,
+  subRegion?: string
+): { resolved: ResolvedRegion; issues: RegionIssue[] } {
+  const issues: RegionIssue[] = [];
+  if (!region) {
+    return { resolved: {}, issues };
+  }
+
+  const province = canonicalProvince(region);
+  if (!province) {
+    issues.push({ code: 'unknown-province', severity: 'error', message: `알 수 없는 시/도: ${region}` });
+    return { resolved: {}, issues };
+  }
+  if (province !== region) {
+    issues.push({ code: 'outdated-name', severity: 'warning', message: `시/도 명칭 변경: ${region} → ${province}` });
+  }
+
+  if (!subRegion) {
+    return { resolved: withEnglishNames(province), issues };
+  }
+
+  if (MUNICIPALITIES_BY_PROVINCE[province]?.includes(subRegion)) {
+    return { resolved: withEnglishNames(province, subRegion), issues };
+  }
+
+  const provinces = findProvincesOfMunicipality(subRegion);
+  if (provinces.length === 0) {
+    issues.push({ code: 'unknown-municipality', severity: 'error', message: `알 수 없는 시/군/구: ${subRegion}` });
+  } else {
+    issues.push({
+      code: 'municipality-mismatch',
+      severity: 'error',
+      message: `${subRegion}은(는) ${province} 소속이 아닙니다 (${provinces.join(', ')})`,
+    });
+  }
+  return { resolved: withEnglishNames(province), issues };
+}
+
+/**
+ * 고객사 한 건의 지역 정보 점검
+ * - 저장된 (시/도, 시/군/구) 조합 검증
+ * - 기관명에서 추론한 지역과 비교
+ * - 지역이 없으면 기관명 추론 결과를 제안
+ */
+export function checkRecordRegion(record: CategorizedRecord): RegionCheckResult {
+  const { name, category, region, subRegion } = record;
+  const { resolved, issues } = validateRegionPair(region, subRegion);
+  const fromName = resolveRegionFromName(name);
+  let suggestion: ResolvedRegion | undefined;
+
+  if (!region) {
+    issues.push({ code: 'missing', severity: 'warning', message: '지역 정보가 없습니다' });
+    if (fromName.region) suggestion = fromName;
+  } else if (fromName.region && resolved.region && fromName.region !== resolved.region) {
+    issues.push({
+      code: 'name-mismatch',
+      severity: 'error',
+      message: `기관명은 ${fromName.region}을(를) 가리킵니다 (저장: ${region})`,
+    });
+    suggestion = fromName;
+  } else if (fromName.subRegion && subRegion && fromName.subRegion !== subRegion) {
+    issues.push({
+      code: 'name-mismatch',
+      severity: 'error',
+      message: `기관명은 ${fromName.subRegion}을(를) 가리킵니다 (저장: ${subRegion})`,
+    });
+    suggestion = fromName;
+  }
+
+  // 시/군/구가 다른 시/도 소속이면 시/군/구 기준으로 시/도를 제안 (동명 구가 아닐 때)
+  if (!suggestion && issues.some((issue) => issue.code === 'municipality-mismatch')) {
+    const provinces = findProvincesOfMunicipality(subRegion!);
+    if (provinces.length === 1) suggestion = withEnglishNames(provinces[0], subRegion);
+  }
+  if (!suggestion && issues.some((issue) => issue.code === 'outdated-name')) {
+    suggestion = resolved;
+  }
+
+  return { name, category, region, subRegion, issues, suggestion };
+}
+
+/**
+ * 전체 고객사 지역 정보 점검 (문제가 있는 고객사만, 오류 우선)
+ */
+export function findRegionIssues(records: CategorizedRecord[]): RegionCheckResult[] {
+  const hasError = (result: RegionCheckResult) =>
+    result.issues.some((issue) => issue.severity === 'error');
+
+  return records
+    .map(checkRecordRegion)
+    .filter((result) => result.issues.length > 0)
+    .sort((a, b) => Number(hasError(b)) - Number(hasError(a)));
+}
@@ -0,0 +1,354 @@
+/**
+ * 인쇄용 리포트 데이터 (서버)
+ *
+ * /report 페이지와 PDF 내보내기(/api/report/pdf)가 같은 데이터를 쓰도록 한 곳에서 계산합니다.
+ * - 표지 / 분류별 합계 / 상위 고객사 / 분류별 지도 / 계약 유형 분포 / PoC 목록
+ * - Google Sheets(계약 정보, 사용자 지표)나 경계 데이터를 불러오지 못해도 나머지 항목으로 작성합니다. (오프라인)
+ */
+
+import * as d3 from 'd3';
+import type { Topology } from 'topojson-specification';
+import {
+  CategorizedRecord,
+  Client,
+  ClientCategory,
+  ClientStats,
+  ContractInfo,
+  MonthKey,
+  Period,
+  POC_THRESHOLD,
+  CONTRACT_CHANNEL_LABELS,
+  PAYMENT_METHOD_LABELS,
+  BILLING_TYPE_LABELS,
+  aggregateByRegion,
+  aggregateBySubRegion,
+  applyPeriod,
+  calcClientStats,
+  comparePeriods,
+  getAvailableMonths,
+  monthsInPeriod,
+  previousPeriod,
+  yearAgoPeriod,
+} from '@/data/clients';
+import { buildMapColorScale } from '@/data/mapMetrics';
+import { COLOR_RANGES, ColorLegend, ColorScaleType, MapColorScheme } from '@/lib/colorScales';
+import { getFeatureKey, toFeatureCollection } from '@/lib/mapFeatures';
+import { getClientStore } from '@/lib/clientStore';
+import { getActiveVintageId, readBoundary } from '@/lib/boundaryStore';
+import { fetchAllData, SheetData } from '@/lib/googleSheets';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+interface ReportSectionConfig {
+  id: string;
+  label: string;
+  categories: ClientCategory[];
+  mapType: 'province' | 'municipality';
+  colorScheme: MapColorScheme;
+  scaleType: ColorScaleType;
+}
+
+/** 리포트 지도 (서버에서 투영한 SVG 경로) */
+export interface ReportMap {
+  width: number;
+  height: number;
+  regions: { name: string; d: string; fill: string }[];
+  legend: ColorLegend;
+}
+
+export interface ReportSection {
+  id: string;
+  label: string;
+  count: number;
+  pocCount: number;
+  stats: ClientStats;
+  /** 직전 기간 대비 사용금액 증감률 (%) */
+  mom: number | null;
+  /** 전년 동기간 대비 사용금액 증감률 (%) */
+  yoy: number | null;
+  map: ReportMap | null;
+}
+
+export interface ReportClient {
+  name: string;
+  section: string;
+  region?: string;
+  subRegion?: string;
+  charge: number;
+  usage: number;
+  contract?: ContractInfo;
+}
+
+/** 계약 유형 분포 한 줄 */
+export interface BreakdownRow {
+  label: string;
+  count: number;
+  charge: number;
+}
+
+export interface ReportData {
+  period: Period;
+  /** 작성 시각 (ISO) */
+  generatedAt: string;
+  pocThreshold: number;
+  sections: ReportSection[];
+  totals: Omit<ReportSection, 'id' | 'label' | 'map'>;
+  topClients: ReportClient[];
+  contracts: {
+    channel: BreakdownRow[];
+    payment: BreakdownRow[];
+    billing: BreakdownRow[];
+  };
+  pocClients: ReportClient[];
+  /** Google Sheets 계약 정보를 불러왔는지 여부 */
+  hasContracts: boolean;
+  /** 지도에 사용한 경계 버전 (지도를 그리지 못했으면 null) */
+  boundaryVintage: string | null;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+/** 리포트 분류 (메인 대시보드 탭과 같은 구분·색상) */
+export const REPORT_SECTIONS: ReportSectionConfig[] = [
+  { id: 'education', label: '교육청', categories: ['education'], mapType: 'province', colorScheme: 'indigo', scaleType: 'jenks' },
+  { id: 'local', label: '지자체', categories: ['local'], mapType: 'municipality', colorScheme: 'green', scaleType: 'quantile' },
+  { id: 'central', label: '중앙행정기관', categories: ['central'], mapType: 'province', colorScheme: 'blue', scaleType: 'linear' },
+  { id: 'public', label: '공공기관', categories: ['public', 'province'], mapType: 'province', colorScheme: 'purple', scaleType: 'log' },
+  { id: 'private', label: '민간/대학', categories: ['private', 'university'], mapType: 'province', colorScheme: 'amber', scaleType: 'log' },
+];
+
+/** 상위 고객사 수 */
+export const REPORT_TOP_N = 10;
+
+/** 외부 데이터(Google Sheets) 대기 시간 (ms) - 오프라인에서 리포트가 멈추지 않도록 */
+const EXTERNAL_TIMEOUT = 5000;
+
+/** 리포트 지도 크기 (SVG / PDF 좌표) */
+const MAP_WIDTH = 360;
+const MAP_HEIGHT = 440;
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// ============================================================================
+// 유틸리티 함수
+// ============================================================================
+
+/**
+ * 제한 시간 안에 끝나지 않으면 null
+ */
+async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * 조회 기간 파라미터 해석 (?from=YYYY-MM&to=YYYY-MM, 생략 시 가장 최근 월)
+ * @returns 형식이 올바르지 않으면 null
+ */
+export function resolveReportPeriod(
+  from: string | null | undefined,
+  to: string | null | undefined,
+  availableMonths: MonthKey[]
+): Period | null {
+  const latest = availableMonths[availableMonths.length - 1] ?? '';
+  const period = { from: from || to || latest, to: to || from || latest };
+  if (!latest && !from && !to) return period; // 데이터가 없으면 빈 기간 (빈 리포트)
+  if (!MONTH_PATTERN.test(period.from) || !MONTH_PATTERN.test(period.to) || period.from > period.to) {
+    return null;
+  }
+  return period;
+}
+
+/**
+ * 계약 정보 항목별 분포 (미입력 포함)
+ */
+function breakdown<K extends string>(
+  clients: Client[],
+  contracts: SheetData['contracts'],
+  pick: (info: ContractInfo) => K | undefined,
+  labels: Record<K, string>
+): BreakdownRow[] {
+  const rows = new Map<string, BreakdownRow>();
+  clients.forEach(client => {
+    const key = pick(contracts[client.name] ?? {});
+    const label = key ? labels[key] : '미입력';
+    const row = rows.get(label) ?? { label, count: 0, charge: 0 };
+    row.count += 1;
+    row.charge += client.charge;
+    rows.set(label, row);
+  });
+  return [...rows.values()].sort((a, b) => b.charge - a.charge);
+}
+
+/**
+ * 분류별 지도 (화면 지도와 같은 영역 매칭·색상 스케일, PoC 회색 / 데이터 없음 연회색)
+ */
+function buildReportMap(
+  boundary: GeoJSON.FeatureCollection,
+  clients: Client[],
+  config: ReportSectionConfig,
+  period: Period,
+  pocThreshold: number
+): ReportMap {
+  const type = config.mapType;
+  const groups = type === 'province' ? aggregateByRegion(clients) : aggregateBySubRegion(clients);
+  const scale = buildMapColorScale({
+    metric: 'charge',
+    scaleType: config.scaleType,
+    groups: Object.values(groups).filter(group => group.charge >= pocThreshold),
+    type,
+    range: COLOR_RANGES[config.colorScheme],
+    period,
+  });
+
+  const projection = d3.geoMercator().fitSize([MAP_WIDTH, MAP_HEIGHT], boundary);
+  const path = d3.geoPath(projection).digits(1);
+
+  return {
+    width: MAP_WIDTH,
+    height: MAP_HEIGHT,
+    legend: scale.legend,
+    regions: boundary.features.flatMap(feature => {
+      const d = path(feature);
+      if (!d) return [];
+      const featureKey = getFeatureKey(feature, type);
+      const group = featureKey ? groups[featureKey.key] : undefined;
+      const fill = !group
+        ? '#f1f5f9'
+        : group.charge < pocThreshold
+          ? '#cbd5e1'
+          : scale.color(group.charge);
+      return [{ name: featureKey?.koreanName ?? '', d, fill }];
+    }),
+  };
+}
+
+/**
+ * 현재 경계 버전의 시/도·시/군/구 경계 (번들 / 업로드 / 받아 둔 파일만 사용, 파일이 없는 단위는 없음)
+ */
+async function loadBoundaries(): Promise<{
+  vintage: string | null;
+  boundaries: Partial<Record<'province' | 'municipality', GeoJSON.FeatureCollection>>;
+}> {
+  const vintage = await getActiveVintageId();
+  if (!vintage) return { vintage: null, boundaries: {} };
+
+  const boundaries: Partial<Record<'province' | 'municipality', GeoJSON.FeatureCollection>> = {};
+  for (const level of ['province', 'municipality'] as const) {
+    try {
+      const file = await readBoundary(vintage, level, { download: false });
+      if (file) {
+        boundaries[level] = toFeatureCollection(JSON.parse(file.body) as Topology | GeoJSON.FeatureCollection);
+      }
+    } catch (error) {
+      console.error('리포트 경계 데이터 불러오기 실패:', error);
+    }
+  }
+  return { vintage: Object.keys(boundaries).length > 0 ? vintage : null, boundaries };
+}
+
+// ============================================================================
+// 리포트 생성
+// ============================================================================
+
+/**
+ * 리포트 데이터 생성
+ * @param period 조회 기간 (resolveReportPeriod 결과)
+ */
+export async function buildReportData(records: CategorizedRecord[], period: Period): Promise<ReportData> {
+  const [sheet, { vintage, boundaries }] = await Promise.all([
+    withTimeout(fetchAllData(), EXTERNAL_TIMEOUT),
+    loadBoundaries(),
+  ]);
+  const contracts = sheet?.contracts ?? {};
+  const users = sheet?.users ?? {};
+  const pocThreshold = POC_THRESHOLD * monthsInPeriod(period).length;
+
+  const growthOf = (items: CategorizedRecord[]) => ({
+    mom: comparePeriods(items, period, previousPeriod(period))?.charge.rate ?? null,
+    yoy: comparePeriods(items, period, yearAgoPeriod(period))?.charge.rate ?? null,
+  });
+
+  const allClients: (Client & { section: string })[] = [];
+  const sections = REPORT_SECTIONS.map((config): ReportSection => {
+    const sectionRecords = records.filter(record => config.categories.includes(record.category));
+    // 사용자 지표는 Google Sheets 입력값 우선 (대시보드와 동일)
+    const clients = applyPeriod(sectionRecords, period).map(client => ({
+      ...client,
+      activeUsers: users[client.name]?.activeUsers ?? client.activeUsers,
+      totalUsers: users[client.name]?.totalUsers ?? client.totalUsers,
+    }));
+    clients.forEach(client => allClients.push({ ...client, section: config.label }));
+
+    const boundary = boundaries[config.mapType];
+    return {
+      id: config.id,
+      label: config.label,
+      count: clients.length,
+      pocCount: clients.filter(client => client.charge < pocThreshold).length,
+      stats: calcClientStats(clients),
+      ...growthOf(sectionRecords),
+      map: boundary && clients.length > 0
+        ? buildReportMap(boundary, clients, config, period, pocThreshold)
+        : null,
+    };
+  });
+
+  const toReportClient = (client: Client & { section: string }): ReportClient => ({
+    name: client.name,
+    section: client.section,
+    region: client.region,
+    subRegion: client.subRegion,
+    charge: client.charge,
+    usage: client.usage,
+    contract: contracts[client.name],
+  });
+  const byCharge = [...allClients].sort((a, b) => b.charge - a.charge);
+  const sectionRecords = records.filter(record =>
+    REPORT_SECTIONS.some(config => config.categories.includes(record.category))
+  );
+
+  return {
+    period,
+    generatedAt: new Date().toISOString(),
+    pocThreshold,
+    sections,
+    totals: {
+      count: allClients.length,
+      pocCount: allClients.filter(client => client.charge < pocThreshold).length,
+      stats: calcClientStats(allClients),
+      ...growthOf(sectionRecords),
+    },
+    topClients: byCharge.slice(0, REPORT_TOP_N).map(toReportClient),
+    contracts: {
+      channel: breakdown(allClients, contracts, info => info.channel, CONTRACT_CHANNEL_LABELS),
+      payment: breakdown(allClients, contracts, info => info.payment, PAYMENT_METHOD_LABELS),
+      billing: breakdown(allClients, contracts, info => info.billing, BILLING_TYPE_LABELS),
+    },
+    pocClients: byCharge.filter(client => client.charge < pocThreshold).map(toReportClient),
+    hasContracts: Object.keys(contracts).length > 0,
+    boundaryVintage: vintage,
+  };
+}
+
+/**
+ * 요청 파라미터로 리포트 데이터 불러오기
+ * @returns 기간 형식이 올바르지 않으면 null
+ */
+export async function loadReportData(from?: string | null, to?: string | null): Promise<ReportData | null> {
+  const records = await getClientStore().list();
+  const period = resolveReportPeriod(from, to, getAvailableMonths(records));
+  if (!period) return null;
+  return buildReportData(records, period);
+}
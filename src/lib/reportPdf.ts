@@ -0,0 +1,371 @@
+/**
+ * 리포트 PDF 생성 (서버)
+ *
+ * /report 페이지와 같은 구성의 PDF 를 pdfkit 으로 만듭니다.
+ * 외부 서비스(브라우저 렌더링 등) 없이 동작하도록 한글 글꼴은 로컬 파일을 사용합니다.
+ * - 기본: pretendard 패키지의 Pretendard TTF
+ * - REPORT_FONT_DIR 환경변수로 다른 폴더 지정 가능 (Pretendard-Regular.ttf / Pretendard-Bold.ttf)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import * as d3 from 'd3';
+import { formatMoney, formatPeriod } from '@/data/clients';
+import type { ColorLegend } from '@/lib/colorScales';
+import { BreakdownRow, ReportClient, ReportData, ReportMap, REPORT_TOP_N } from '@/lib/report';
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const FONT_DIR = process.env.REPORT_FONT_DIR
+  || path.join(process.cwd(), 'node_modules', 'pretendard', 'dist', 'public', 'static', 'alternative');
+
+const FONT_FILES = {
+  regular: 'Pretendard-Regular.ttf',
+  bold: 'Pretendard-Bold.ttf',
+};
+
+const MARGIN = 48;
+
+const COLORS = {
+  text: '#0f172a',
+  muted: '#64748b',
+  faint: '#94a3b8',
+  line: '#e2e8f0',
+  accent: '#4f46e5',
+};
+
+type Doc = PDFKit.PDFDocument;
+
+/** 표 열 정의 (width 합계 = 본문 폭 비율) */
+interface Column<T> {
+  label: string;
+  width: number;
+  align?: 'left' | 'right';
+  value: (row: T, index: number) => string;
+}
+
+// ============================================================================
+// 유틸리티 함수
+// ============================================================================
+
+function formatRate(rate: number | null): string {
+  if (rate === null) return '-';
+  return `${rate > 0 ? '+' : ''}${rate.toFixed(1)}%`;
+}
+
+/**
+ * pdfkit 은 rgb() 표기를 읽지 못하므로 hex 로 변환 (d3 보간 색상)
+ */
+function toHex(color: string): string {
+  return d3.color(color)?.formatHex() ?? color;
+}
+
+function formatLegendMoney(value: number): string {
+  return formatMoney(Math.round(value));
+}
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - MARGIN * 2;
+}
+
+/**
+ * 남은 공간이 부족하면 새 페이지
+ */
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - MARGIN) {
+    doc.addPage();
+  }
+}
+
+function sectionTitle(doc: Doc, title: string) {
+  ensureSpace(doc, 60);
+  doc.font('bold').fontSize(14).fillColor(COLORS.text).text(title, MARGIN, doc.y);
+  doc.moveDown(0.5);
+}
+
+/**
+ * 표 그리기 (행마다 페이지 넘김 확인, 넘기면 머리글 반복)
+ */
+function drawTable<T>(doc: Doc, columns: Column<T>[], rows: T[], options: { fontSize?: number } = {}) {
+  const fontSize = options.fontSize ?? 9;
+  const rowHeight = fontSize + 9;
+  const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+  const scale = contentWidth(doc) / totalWidth;
+
+  const drawRow = (cells: string[], font: 'regular' | 'bold', color: string) => {
+    ensureSpace(doc, rowHeight);
+    const y = doc.y;
+    let x = MARGIN;
+    columns.forEach((column, i) => {
+      const width = column.width * scale;
+      doc.font(font).fontSize(fontSize).fillColor(color)
+        .text(cells[i], x + 2, y + 4, { width: width - 4, align: column.align ?? 'left', lineBreak: false, ellipsis: true });
+      x += width;
+    });
+    doc.moveTo(MARGIN, y + rowHeight).lineTo(MARGIN + contentWidth(doc), y + rowHeight)
+      .lineWidth(0.5).strokeColor(COLORS.line).stroke();
+    doc.x = MARGIN;
+    doc.y = y + rowHeight;
+  };
+
+  const header = columns.map(column => column.label);
+  drawRow(header, 'bold', COLORS.muted);
+  rows.forEach((row, index) => {
+    const pageBefore = doc.bufferedPageRange().count;
+    ensureSpace(doc, rowHeight);
+    if (doc.bufferedPageRange().count !== pageBefore) drawRow(header, 'bold', COLORS.muted);
+    drawRow(columns.map(column => column.value(row, index)), 'regular', COLORS.text);
+  });
+  doc.moveDown(0.5);
+}
+
+// ============================================================================
+// 페이지 구성
+// ============================================================================
+
+function drawCover(doc: Doc, report: ReportData) {
+  const { totals } = report;
+
+  doc.roundedRect(MARGIN, MARGIN, 24, 24, 5).fill(COLORS.accent);
+  doc.font('bold').fontSize(14).fillColor('#fff').text('W', MARGIN, MARGIN + 5, { width: 24, align: 'center' });
+  doc.font('bold').fontSize(14).fillColor(COLORS.text).text('Wrks.ai', MARGIN + 32, MARGIN + 5);
+
+  doc.font('bold').fontSize(26).fillColor(COLORS.text).text('공공 고객사 AI 서비스 활용 현황', MARGIN, 220);
+  doc.font('regular').fontSize(14).fillColor(COLORS.muted).text(`${formatPeriod(report.period)} 기준`);
+
+  const items: [string, string][] = [
+    ['총 사용금액', formatMoney(totals.stats.totalCharge)],
+    ['총 사용량', totals.stats.totalUsage.toLocaleString()],
+    ['고객사', `${totals.count}곳 (PoC ${totals.pocCount}곳)`],
+    ['사용금액 증감', `직전 ${formatRate(totals.mom)} · 전년 ${formatRate(totals.yoy)}`],
+  ];
+  const columnWidth = contentWidth(doc) / 2;
+  items.forEach(([label, value], i) => {
+    const x = MARGIN + (i % 2) * columnWidth;
+    const y = 420 + Math.floor(i / 2) * 60;
+    doc.rect(x, y, 3, 40).fill(COLORS.accent);
+    doc.font('regular').fontSize(9).fillColor(COLORS.faint).text(label, x + 12, y + 2);
+    doc.font('bold').fontSize(16).fillColor(COLORS.text).text(value, x + 12, y + 16);
+  });
+
+  const notes = [
+    `작성: ${new Date(report.generatedAt).toLocaleString('ko-KR', { timeZone: 'Asia/Seoul' })}`,
+    `자료: 고객사 청구 데이터 · PoC 기준 ${formatMoney(report.pocThreshold)} 미만 (월 10만원 × 기간 개월 수)`,
+    ...(report.hasContracts ? [] : ['계약 정보(Google Sheets)를 불러오지 못해 계약 유형은 미입력으로 집계했습니다.']),
+  ];
+  doc.font('regular').fontSize(8).fillColor(COLORS.faint)
+    .text(notes.join('\n'), MARGIN, doc.page.height - MARGIN - notes.length * 14, { lineGap: 2 });
+}
+
+function drawSummary(doc: Doc, report: ReportData) {
+  doc.addPage();
+  sectionTitle(doc, '분류별 합계');
+
+  const rows = [
+    ...report.sections,
+    { id: 'total', label: '합계', ...report.totals },
+  ];
+  drawTable(doc, [
+    { label: '분류', width: 3, value: row => row.label },
+    { label: '고객사', width: 2, align: 'right', value: row => `${row.count}${row.pocCount ? ` (PoC ${row.pocCount})` : ''}` },
+    { label: '사용금액', width: 2, align: 'right', value: row => formatMoney(row.stats.totalCharge) },
+    { label: '사용량', width: 2, align: 'right', value: row => row.stats.totalUsage.toLocaleString() },
+    { label: '활성율', width: 1.5, align: 'right', value: row => row.stats.overallActivationRate ? `${row.stats.overallActivationRate}%` : '-' },
+    { label: '직전 대비', width: 1.5, align: 'right', value: row => formatRate(row.mom) },
+    { label: '전년 대비', width: 1.5, align: 'right', value: row => formatRate(row.yoy) },
+  ], rows);
+
+  doc.moveDown(1.5);
+  sectionTitle(doc, `사용금액 상위 ${REPORT_TOP_N}개 고객사`);
+  drawClientTable(doc, report.topClients, true);
+}
+
+function drawClientTable(doc: Doc, clients: ReportClient[], ranked = false) {
+  drawTable(doc, [
+    ...(ranked ? [{ label: '#', width: 0.6, value: (_: ReportClient, i: number) => String(i + 1) }] : []),
+    { label: '기관명', width: 4, value: client => client.name },
+    { label: '분류', width: 2, value: client => client.section },
+    { label: '지역', width: 3, value: client => [client.region, client.subRegion].filter(Boolean).join(' ') || '-' },
+    { label: '사용금액', width: 2, align: 'right', value: client => formatMoney(client.charge) },
+    { label: '사용량', width: 2, align: 'right', value: client => client.usage.toLocaleString() },
+  ], clients);
+}
+
+/**
+ * 범례 (연속: 그라데이션 막대, 단계: 색상 칸 + 구간 라벨)
+ */
+function drawLegend(doc: Doc, legend: ColorLegend, x: number, y: number, width: number) {
+  doc.font('regular').fontSize(7).fillColor(COLORS.muted);
+
+  if (legend.kind === 'continuous') {
+    const gradient = doc.linearGradient(x, 0, x + width, 0);
+    legend.colors.forEach((color, i) => gradient.stop(i / (legend.colors.length - 1), toHex(color)));
+    doc.roundedRect(x, y, width, 6, 3).fill(gradient);
+    doc.fillColor(COLORS.faint)
+      .text(formatLegendMoney(legend.min), x, y + 9, { width, align: 'left' })
+      .text(formatLegendMoney(legend.max), x, y + 9, { width, align: 'right' });
+    if (legend.mid !== undefined) {
+      doc.text(formatLegendMoney(legend.mid), x, y + 9, { width, align: 'center' });
+    }
+    return;
+  }
+
+  let cursorX = x;
+  let cursorY = y;
+  legend.classes.forEach(item => {
+    const label = item.from === item.to
+      ? formatLegendMoney(item.from)
+      : `${formatLegendMoney(item.from)} ~ ${formatLegendMoney(item.to)}`;
+    const itemWidth = 10 + doc.widthOfString(label) + 8;
+    if (cursorX > x && cursorX + itemWidth > x + width) {
+      cursorX = x;
+      cursorY += 11;
+    }
+    doc.rect(cursorX, cursorY + 1, 6, 6).fill(toHex(item.color));
+    doc.fillColor(COLORS.muted).text(label, cursorX + 9, cursorY, { lineBreak: false });
+    cursorX += itemWidth;
+  });
+}
+
+/**
+ * 지도 (서버에서 투영한 SVG 경로를 크기에 맞춰 그림)
+ */
+function drawMap(doc: Doc, map: ReportMap, x: number, y: number, width: number) {
+  const scale = width / map.width;
+  doc.save().translate(x, y).scale(scale);
+  map.regions.forEach(region => {
+    doc.path(region.d).lineWidth(0.5 / scale).fillAndStroke(toHex(region.fill), '#ffffff');
+  });
+  doc.restore();
+  drawLegend(doc, map.legend, x, y + map.height * scale + 6, width);
+}
+
+function drawMaps(doc: Doc, report: ReportData) {
+  doc.addPage();
+  sectionTitle(doc, '분류별 지도 (사용금액)');
+
+  const sections = report.sections.filter(section => section.map);
+  if (!report.boundaryVintage || sections.length === 0) {
+    doc.font('regular').fontSize(10).fillColor(COLORS.muted)
+      .text('지도 경계 데이터를 불러오지 못해 지도를 생략했습니다.');
+    return;
+  }
+
+  // 2열 배치, 아래 공간이 부족하면 다음 페이지
+  const gap = 24;
+  const cellWidth = (contentWidth(doc) - gap) / 2;
+  const mapHeight = (map: ReportMap) => map.height * (cellWidth / map.width);
+  const cellHeight = 16 + Math.max(...sections.map(section => mapHeight(section.map!))) + 40;
+  let rowTop = doc.y;
+  sections.forEach((section, i) => {
+    const column = i % 2;
+    if (column === 0 && i > 0) rowTop += cellHeight;
+    if (column === 0 && rowTop + cellHeight > doc.page.height - MARGIN) {
+      doc.addPage();
+      rowTop = doc.y;
+    }
+    const x = MARGIN + column * (cellWidth + gap);
+    doc.font('bold').fontSize(10).fillColor(COLORS.text).text(section.label, x, rowTop, { lineBreak: false });
+    drawMap(doc, section.map!, x, rowTop + 16, cellWidth);
+  });
+  doc.x = MARGIN;
+  doc.y = rowTop + cellHeight;
+
+  doc.font('regular').fontSize(8).fillColor(COLORS.faint)
+    .text(`연회색: 데이터 없음 · 회색: PoC · 지도 경계: ${report.boundaryVintage}`, MARGIN, doc.y);
+}
+
+function drawContracts(doc: Doc, report: ReportData) {
+  doc.addPage();
+  sectionTitle(doc, '계약 유형 분포');
+
+  const groups: [string, BreakdownRow[]][] = [
+    ['계약 채널', report.contracts.channel],
+    ['정산 방식', report.contracts.payment],
+    ['과금 방식', report.contracts.billing],
+  ];
+  groups.forEach(([title, rows]) => {
+    ensureSpace(doc, 40);
+    doc.font('bold').fontSize(10).fillColor(COLORS.text).text(title, MARGIN, doc.y);
+    doc.moveDown(0.3);
+    drawTable(doc, [
+      { label: '구분', width: 3, value: row => row.label },
+      { label: '고객사', width: 1, align: 'right', value: row => `${row.count}곳` },
+      { label: '사용금액', width: 2, align: 'right', value: row => formatMoney(row.charge) },
+    ], rows);
+  });
+
+  doc.moveDown(1);
+  sectionTitle(doc, `PoC 고객사 (${report.pocClients.length}곳)`);
+  if (report.pocClients.length > 0) {
+    drawClientTable(doc, report.pocClients);
+  } else {
+    doc.font('regular').fontSize(10).fillColor(COLORS.muted).text('PoC 고객사가 없습니다.');
+  }
+}
+
+/**
+ * 페이지 번호 (표지 제외)
+ */
+function drawPageNumbers(doc: Doc) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start + 1; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // 아래 여백에 쓰면 자동으로 새 페이지가 추가되므로 잠시 여백 해제
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('regular').fontSize(8).fillColor(COLORS.faint)
+      .text(`${i + 1} / ${range.count}`, MARGIN, doc.page.height - MARGIN + 16, {
+        width: contentWidth(doc),
+        align: 'center',
+        lineBreak: false,
+      });
+    doc.page.margins.bottom = bottom;
+  }
+}
+
+// ============================================================================
+// PDF 생성
+// ============================================================================
+
+/**
+ * 리포트 PDF 생성
+ * @throws 글꼴 파일이 없는 경우
+ */
+export async function renderReportPdf(report: ReportData): Promise<Buffer> {
+  const [regular, bold] = await Promise.all([
+    fs.readFile(path.join(FONT_DIR, FONT_FILES.regular)),
+    fs.readFile(path.join(FONT_DIR, FONT_FILES.bold)),
+  ]);
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    info: {
+      Title: `공공 고객사 AI 서비스 활용 현황 (${formatPeriod(report.period)})`,
+      Author: 'Wrks.ai',
+    },
+  });
+  doc.registerFont('regular', regular);
+  doc.registerFont('bold', bold);
+
+  const chunks: Buffer[] = [];
+  doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  drawCover(doc, report);
+  drawSummary(doc, report);
+  drawMaps(doc, report);
+  drawContracts(doc, report);
+  drawPageNumbers(doc);
+  doc.end();
+
+  return done;
+}
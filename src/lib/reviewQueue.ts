@@ -0,0 +1,68 @@
+/**
+ * 분류 검토 대기열 (서버 전용)
+ *
+ * 자동 분류 신뢰도가 낮은 신규 기관을 저장해 두고 관리자가 분류를 확인하도록 합니다.
+ * 저장 위치: DATA_DIR/review-queue.json
+ */
+
+import { ClientCategory } from '@/data/clients';
+import { readJsonFile, updateJsonFile, withFileLock, writeJsonFile } from '@/lib/jsonStore';
+import { Classification } from '@/lib/orgClassifier';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export interface ReviewItem extends Classification {
+  /** 기관명 */
+  name: string;
+  /** 대기열 등록 시각 (ISO) */
+  createdAt: string;
+}
+
+export interface ReviewDecision {
+  name: string;
+  category: ClientCategory;
+  region?: string;
+  subRegion?: string;
+}
+
+// ============================================================================
+// 저장소
+// ============================================================================
+
+const REVIEW_QUEUE_FILE = 'review-queue.json';
+
+/**
+ * 검토 대기 목록 (등록 순)
+ */
+export async function listReviewItems(): Promise<ReviewItem[]> {
+  return readJsonFile<ReviewItem[]>(REVIEW_QUEUE_FILE, () => []);
+}
+
+/**
+ * 검토 대기열에 추가 (같은 기관이 있으면 새 결과로 교체)
+ */
+export async function enqueueReviewItems(items: ReviewItem[]): Promise<void> {
+  if (items.length === 0) return;
+  const names = new Set(items.map((item) => item.name));
+  await updateJsonFile<ReviewItem[]>(REVIEW_QUEUE_FILE, () => [], (queue) => [
+    ...queue.filter((item) => !names.has(item.name)),
+    ...items,
+  ]);
+}
+
+/**
+ * 검토 대기열에서 제거
+ * @returns 제거된 항목 (없으면 null)
+ */
+export async function removeReviewItem(name: string): Promise<ReviewItem | null> {
+  return withFileLock(REVIEW_QUEUE_FILE, async () => {
+    const queue = await listReviewItems();
+    const item = queue.find((entry) => entry.name === name) ?? null;
+    if (item) {
+      await writeJsonFile(REVIEW_QUEUE_FILE, queue.filter((entry) => entry.name !== name));
+    }
+    return item;
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * 라우트 핸들러용 세션 확인 (서버 전용)
+ *
+ * 미들웨어가 경로별 권한을 먼저 확인하지만, 데이터를 바꾸는 핸들러는
+ * 여기서 한 번 더 확인하고 변경한 사용자를 기록합니다.
+ * 세션 쿠키 발급 / 삭제도 여기서 같은 옵션으로 처리합니다.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  COOKIE_NAME,
+  Session,
+  SessionUser,
+  UserRole,
+  hasRole,
+  verifySessionToken,
+} from '@/lib/auth';
+import { isSessionRevoked } from '@/lib/sessionRevocation';
+
+/**
+ * 요청 쿠키의 세션 (없거나 만료 / 유휴 시간 초과 / 폐기되었으면 null)
+ */
+export async function getSession(request: NextRequest): Promise<Session | null> {
+  const token = request.cookies.get(COOKIE_NAME)?.value;
+  const secret = process.env.AUTH_SECRET;
+  if (!token || !secret) return null;
+
+  const session = await verifySessionToken(token, secret);
+  if (!session || (await isSessionRevoked(session))) return null;
+  return session;
+}
+
+/**
+ * 요청 쿠키의 세션 사용자 (유효한 세션이 없으면 null)
+ */
+export async function getSessionUser(request: NextRequest): Promise<SessionUser | null> {
+  const session = await getSession(request);
+  return session?.user ?? null;
+}
+
+/**
+ * 세션 쿠키 발급 (HTTP-only, SameSite=Lax)
+ * @param expiresAt 세션 만료 시각 (ms)
+ */
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: number) {
+  response.cookies.set(COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: Math.max(Math.floor((expiresAt - Date.now()) / 1000), 0),
+    path: '/',
+  });
+}
+
+/**
+ * 세션 쿠키 삭제
+ */
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 0,
+    path: '/',
+  });
+}
+
+/**
+ * 필요 권한 확인
+ * @returns 권한이 있으면 세션 사용자, 아니면 401 / 403 응답
+ *
+ * @example
+ * const user = await requireRole(request, 'editor');
+ * if (user instanceof NextResponse) return user;
+ */
+export async function requireRole(
+  request: NextRequest,
+  role: UserRole
+): Promise<SessionUser | NextResponse> {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return NextResponse.json({ error: '로그인이 필요합니다' }, { status: 401 });
+  }
+  if (!hasRole(user.role, role)) {
+    return NextResponse.json({ error: '권한이 없습니다' }, { status: 403 });
+  }
+  return user;
+}
@@ -0,0 +1,92 @@
+/**
+ * 세션 폐기 목록 (서버 전용)
+ *
+ * 세션 토큰은 서명만으로 검증되므로, 로그아웃한 토큰이나 유출된 토큰을
+ * 만료 전에 막으려면 서버에 폐기 기록을 남겨 요청마다 확인합니다.
+ * 저장 위치: DATA_DIR/revoked-sessions.json
+ *
+ * - 세션 한 개 폐기: 세션 ID 기록 (로그아웃)
+ * - 사용자 전체 폐기: 이 시각 이전에 로그인한 세션을 모두 거부 (모든 기기에서 로그아웃, 권한 / 비밀번호 변경)
+ * - 폐기된 토큰도 로그인 후 최대 유지 시간이 지나면 어차피 거부되므로 그때 기록을 정리합니다.
+ */
+
+import { Session, SESSION_ABSOLUTE_MAX_AGE } from '@/lib/auth';
+import { readJsonFile, updateJsonFile } from '@/lib/jsonStore';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+interface RevocationList {
+  /** 세션 ID → 기록을 지워도 되는 시각 (ms) */
+  sessions: Record<string, number>;
+  /** 사용자 ID → 이 시각 이전에 로그인한 세션 폐기 (ms) */
+  users: Record<string, number>;
+}
+
+// ============================================================================
+// 저장소
+// ============================================================================
+
+const REVOCATION_FILE = 'revoked-sessions.json';
+
+function emptyList(): RevocationList {
+  return { sessions: {}, users: {} };
+}
+
+/**
+ * 더 이상 필요 없는 기록 정리
+ */
+function prune(list: RevocationList, now: number): RevocationList {
+  const maxAgeMs = SESSION_ABSOLUTE_MAX_AGE * 1000;
+  return {
+    sessions: Object.fromEntries(
+      Object.entries(list.sessions).filter(([, expiresAt]) => expiresAt > now)
+    ),
+    users: Object.fromEntries(
+      Object.entries(list.users).filter(([, revokedBefore]) => revokedBefore + maxAgeMs > now)
+    ),
+  };
+}
+
+async function updateList(apply: (list: RevocationList, now: number) => void): Promise<void> {
+  await updateJsonFile(REVOCATION_FILE, emptyList, (current) => {
+    const now = Date.now();
+    const list = prune(current, now);
+    apply(list, now);
+    return list;
+  });
+}
+
+// ============================================================================
+// 폐기 / 확인
+// ============================================================================
+
+/**
+ * 세션 한 개 폐기 (로그아웃)
+ */
+export async function revokeSession(session: Session): Promise<void> {
+  await updateList((list) => {
+    list.sessions[session.sid] = session.issuedAt + SESSION_ABSOLUTE_MAX_AGE * 1000;
+  });
+}
+
+/**
+ * 사용자의 현재 세션 모두 폐기 (지금 이후 새로 로그인한 세션만 유효)
+ */
+export async function revokeUserSessions(userId: string): Promise<void> {
+  await updateList((list, now) => {
+    list.users[userId] = now;
+  });
+}
+
+/**
+ * 폐기된 세션인지
+ */
+export async function isSessionRevoked(session: Session): Promise<boolean> {
+  const list = await readJsonFile<RevocationList>(REVOCATION_FILE, emptyList);
+  if (session.sid in list.sessions) return true;
+
+  const revokedBefore = list.users[session.user.id];
+  return revokedBefore !== undefined && session.issuedAt <= revokedBefore;
+}
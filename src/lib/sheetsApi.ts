@@ -0,0 +1,153 @@
+/**
+ * Google Sheets API 클라이언트
+ *
+ * 계약 정보 / 사용자 지표 읽기·저장은 /api/sheets 를 거쳐 서버에서 Google Sheets 로 전달합니다.
+ * (로그인 / 영업 편집 권한 확인, 변경 이력 기록을 서버에서 처리)
+ */
+
+import { ContractInfo } from '@/data/clients';
+import type { SheetData, UserMetrics } from '@/lib/googleSheets';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export type SheetAction = 'saveContract' | 'deleteContract' | 'saveUsers' | 'deleteUsers';
+
+export const SHEET_ACTIONS: SheetAction[] = ['saveContract', 'deleteContract', 'saveUsers', 'deleteUsers'];
+
+/** 변경 대상 */
+export type AuditTarget = 'contract' | 'userMetrics';
+
+/** 변경 종류 */
+export type AuditAction = 'save' | 'delete' | 'revert';
+
+export type AuditValue = ContractInfo | UserMetrics;
+
+/** 변경 이력 한 건 */
+export interface AuditEntry {
+  id: string;
+  clientName: string;
+  target: AuditTarget;
+  action: AuditAction;
+  /** 변경 전 값 (없었으면 null) */
+  before: AuditValue | null;
+  /** 변경 후 값 (삭제면 null) */
+  after: AuditValue | null;
+  userId: string;
+  userName: string;
+  /** 변경 시각 (ISO) */
+  createdAt: string;
+  /** 되돌리기면 되돌린 이력 ID */
+  revertOf?: string;
+  /** Google Sheets 반영 확인 전 (반영 도중 서버가 중단되면 남음) */
+  pending?: boolean;
+}
+
+export const AUDIT_TARGET_LABELS: Record<AuditTarget, string> = {
+  contract: '계약 정보',
+  userMetrics: '사용자 수',
+};
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  save: '저장',
+  delete: '삭제',
+  revert: '되돌리기',
+};
+
+// ============================================================================
+// API 호출
+// ============================================================================
+
+/**
+ * /api/sheets 호출
+ * @throws 권한이 없거나 저장에 실패하면 서버 오류 메시지로 에러
+ */
+async function callSheetsAPI(
+  path: string,
+  body: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `저장 실패 (${response.status})`);
+  }
+  return data;
+}
+
+/**
+ * 계약 정보 / 사용자 지표 전체 불러오기 (실패 시 빈 데이터)
+ */
+export async function fetchAllData(): Promise<SheetData> {
+  try {
+    const response = await fetch('/api/sheets', { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`Google Sheets 조회 실패 (${response.status})`);
+    }
+    return (await response.json()) as SheetData;
+  } catch (error) {
+    console.error('Google Sheets 데이터 불러오기 실패:', error);
+    return { contracts: {}, users: {} };
+  }
+}
+
+/**
+ * 계약 정보 저장
+ */
+export async function saveContract(clientName: string, info: ContractInfo): Promise<boolean> {
+  const data = await callSheetsAPI('/api/sheets', { action: 'saveContract', clientName, contract: info });
+  return data.success === true;
+}
+
+/**
+ * 계약 정보 삭제
+ */
+export async function deleteContract(clientName: string): Promise<boolean> {
+  const data = await callSheetsAPI('/api/sheets', { action: 'deleteContract', clientName });
+  return data.success === true;
+}
+
+/**
+ * 사용자 지표 저장
+ */
+export async function saveUserMetrics(clientName: string, metrics: UserMetrics): Promise<boolean> {
+  const data = await callSheetsAPI('/api/sheets', { action: 'saveUsers', clientName, metrics });
+  return data.success === true;
+}
+
+/**
+ * 사용자 지표 삭제
+ */
+export async function deleteUserMetrics(clientName: string): Promise<boolean> {
+  const data = await callSheetsAPI('/api/sheets', { action: 'deleteUsers', clientName });
+  return data.success === true;
+}
+
+/**
+ * 고객사별 변경 이력 (최신순)
+ * @throws 응답 실패 시 에러
+ */
+export async function fetchChangeHistory(clientName: string): Promise<AuditEntry[]> {
+  const response = await fetch(`/api/sheets/history?${new URLSearchParams({ client: clientName })}`, {
+    cache: 'no-store',
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `변경 이력 조회 실패 (${response.status})`);
+  }
+  return data.entries as AuditEntry[];
+}
+
+/**
+ * 변경 되돌리기 (해당 변경 전 값으로 다시 저장)
+ * @returns 되돌리기로 새로 기록된 이력
+ * @throws 이후에 다시 변경되었거나 저장에 실패하면 에러
+ */
+export async function revertChange(entryId: string): Promise<AuditEntry> {
+  const data = await callSheetsAPI('/api/sheets/revert', { entryId });
+  return data.entry as AuditEntry;
+}
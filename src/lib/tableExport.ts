@@ -0,0 +1,184 @@
+/**
+ * 고객사 목록 내보내기 (CSV / XLSX)
+ *
+ * 화면에 보이는 탭별 목록(조회 기간 · PoC 필터 · 정렬 적용)에
+ * Google Sheets 의 계약 정보와 사용자 지표를 붙여 파일로 저장합니다.
+ * 모두 브라우저에서 처리하며 서버로 전송하지 않습니다.
+ */
+
+import {
+  Client,
+  ClientCategory,
+  ContractInfo,
+  CLIENT_CATEGORY_LABELS,
+  CONTRACT_CHANNEL_LABELS,
+  PAYMENT_METHOD_LABELS,
+  BILLING_TYPE_LABELS,
+} from '@/data/clients';
+import type { UserMetrics } from '@/lib/googleSheets';
+import { downloadBlob } from '@/lib/mapExport';
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+/** 내보낼 탭 하나 (XLSX 에서는 시트 하나) */
+export interface ExportSheet {
+  /** 탭 이름 (시트 이름 / CSV 의 '탭' 열) */
+  name: string;
+  items: Client[];
+}
+
+export interface TableExportContext {
+  /** 기관명 → 분류 (공공기관 / 시도청, 민간 / 대학 구분용) */
+  categories: Record<string, ClientCategory>;
+  contracts: Record<string, ContractInfo>;
+  userMetrics: Record<string, UserMetrics>;
+  /** 기간 기준 PoC 판단 금액 */
+  pocThreshold: number;
+}
+
+type Cell = string | number | null;
+
+// ============================================================================
+// 열 정의
+// ============================================================================
+
+const COLUMNS = [
+  '기관명',
+  '분류',
+  '시/도',
+  '시/군/구',
+  '사용금액',
+  '사용량',
+  '청구 개월 수',
+  'PoC',
+  '활성사용자',
+  '전체가입자',
+  '활성율(%)',
+  '월평균 가격(전체)',
+  '월평균 가격(활성)',
+  '계약 경로',
+  '정산 방식',
+  '과금 방식',
+  '계약일',
+  '메모',
+] as const;
+
+/** XLSX 열 너비 (글자 수) */
+const COLUMN_WIDTHS = [24, 10, 14, 12, 14, 12, 8, 6, 10, 10, 9, 14, 14, 14, 12, 10, 12, 30];
+
+/** 엑셀 시트 이름 최대 길이 / 사용할 수 없는 문자 */
+const SHEET_NAME_MAX = 31;
+const SHEET_NAME_INVALID = /[\\/?*[\]:]/g;
+
+// ============================================================================
+// 행 생성
+// ============================================================================
+
+/**
+ * 고객사 한 건 → 내보내기 행 (COLUMNS 순서)
+ * 사용자 지표는 Google Sheets 입력값 우선, 없으면 청구 데이터 값을 사용합니다.
+ */
+function toRow(item: Client, context: TableExportContext): Cell[] {
+  const stored = context.userMetrics[item.name];
+  const activeUsers = stored?.activeUsers ?? item.activeUsers;
+  const totalUsers = stored?.totalUsers ?? item.totalUsers;
+  const category = context.categories[item.name];
+  const contract = context.contracts[item.name];
+  const monthlyCharge = item.charge / item.months;
+
+  return [
+    item.name,
+    category ? CLIENT_CATEGORY_LABELS[category] : null,
+    item.region || null,
+    item.subRegion && item.subRegion !== item.region ? item.subRegion : null,
+    item.charge,
+    item.usage,
+    item.months,
+    item.charge < context.pocThreshold ? 'Y' : 'N',
+    activeUsers ?? null,
+    totalUsers ?? null,
+    activeUsers && totalUsers ? Number(((activeUsers / totalUsers) * 100).toFixed(1)) : null,
+    totalUsers ? Math.round(monthlyCharge / totalUsers) : null,
+    activeUsers ? Math.round(monthlyCharge / activeUsers) : null,
+    contract?.channel ? CONTRACT_CHANNEL_LABELS[contract.channel] : null,
+    contract?.payment ? PAYMENT_METHOD_LABELS[contract.payment] : null,
+    contract?.billing ? BILLING_TYPE_LABELS[contract.billing] : null,
+    contract?.contractDate || null,
+    contract?.note || null,
+  ];
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * CSV 셀 이스케이프 (쉼표 / 따옴표 / 줄바꿈 포함 시 따옴표로 감쌈)
+ * = + - @ (탭 / CR) 로 시작하는 문자열은 엑셀이 수식으로 실행하지 않도록 앞에 ' 를 붙입니다. (CSV 인젝션)
+ */
+function escapeCsv(value: Cell): string {
+  if (value === null) return '';
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV 파일로 저장
+ * 한글 엑셀에서 바로 열리도록 UTF-8 BOM 을 붙이고, 여러 탭이면 첫 열에 탭 이름을 넣습니다.
+ */
+export function downloadCsv(sheets: ExportSheet[], context: TableExportContext, fileName: string) {
+  const withTab = sheets.length > 1;
+  const header = withTab ? ['탭', ...COLUMNS] : [...COLUMNS];
+  const rows = sheets.flatMap(sheet =>
+    sheet.items.map(item => {
+      const row = toRow(item, context);
+      return withTab ? [sheet.name, ...row] : row;
+    })
+  );
+  const csv = [header, ...rows]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\r\n');
+
+  downloadBlob(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+/**
+ * 엑셀 시트 이름 규칙에 맞춤 (특수문자 제거, 31자 제한)
+ */
+function toSheetName(name: string): string {
+  return name.replace(SHEET_NAME_INVALID, '·').slice(0, SHEET_NAME_MAX) || 'Sheet';
+}
+
+/**
+ * XLSX 파일로 저장 (탭마다 시트 하나)
+ * xlsx 라이브러리는 용량이 커서 내보낼 때만 불러옵니다.
+ */
+export async function downloadXlsx(
+  sheets: ExportSheet[],
+  context: TableExportContext,
+  fileName: string
+): Promise<void> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+
+  sheets.forEach(sheet => {
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      [...COLUMNS],
+      ...sheet.items.map(item => toRow(item, context)),
+    ]);
+    worksheet['!cols'] = COLUMN_WIDTHS.map(wch => ({ wch }));
+    XLSX.utils.book_append_sheet(workbook, worksheet, toSheetName(sheet.name));
+  });
+
+  const buffer: ArrayBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  downloadBlob(
+    new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${fileName}.xlsx`
+  );
+}
@@ -0,0 +1,246 @@
+/**
+ * 사용자 계정 저장소 (서버 전용)
+ *
+ * 대시보드 로그인 계정과 권한을 관리합니다.
+ * 저장 위치: DATA_DIR/users.json
+ *
+ * - 비밀번호는 scrypt 해시로만 저장합니다. (형식: scrypt$<salt hex>$<hash hex>)
+ * - 계정이 하나도 없으면 AUTH_PASSWORD 로 초기 관리자(admin) 계정을 만듭니다.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { readJsonFile, withFileLock, writeJsonFile } from '@/lib/jsonStore';
+import { SessionUser, UserRole } from '@/lib/auth';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+// ============================================================================
+// 타입 정의
+// ============================================================================
+
+export interface UserAccount {
+  /** 로그인 ID (소문자) */
+  id: string;
+  /** 표시 이름 (변경 이력 등에 사용) */
+  name: string;
+  role: UserRole;
+  passwordHash: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** 화면 / API 응답용 (비밀번호 해시 제외) */
+export type PublicUser = Omit<UserAccount, 'passwordHash'>;
+
+export interface NewUser {
+  id: string;
+  name: string;
+  role: UserRole;
+  password: string;
+}
+
+export interface UserChanges {
+  name?: string;
+  role?: UserRole;
+  password?: string;
+}
+
+// ============================================================================
+// 상수 정의
+// ============================================================================
+
+const USERS_FILE = 'users.json';
+
+/** 초기 관리자 계정 ID */
+export const BOOTSTRAP_ADMIN_ID = 'admin';
+
+/** 비밀번호 최소 길이 */
+export const MIN_PASSWORD_LENGTH = 8;
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+/** 로그인 ID: 영문 소문자, 숫자, . _ @ - (2~64자) */
+const USER_ID_PATTERN = /^[a-z0-9._@-]{2,64}$/;
+
+// ============================================================================
+// 비밀번호 해시
+// ============================================================================
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/** 없는 ID 로 로그인할 때도 같은 시간이 걸리도록 비교할 해시 */
+let dummyHash: Promise<string> | null = null;
+
+function getDummyHash(): Promise<string> {
+  dummyHash ??= hashPassword(randomBytes(SALT_BYTES).toString('hex'));
+  return dummyHash;
+}
+
+// ============================================================================
+// 저장소
+// ============================================================================
+
+/**
+ * 로그인 ID 형식 확인
+ */
+export function isValidUserId(id: string): boolean {
+  return USER_ID_PATTERN.test(id);
+}
+
+function toPublicUser(account: UserAccount): PublicUser {
+  const { id, name, role, createdAt, updatedAt } = account;
+  return { id, name, role, createdAt, updatedAt };
+}
+
+/**
+ * 전체 계정 (계정이 없으면 AUTH_PASSWORD 로 초기 관리자 생성)
+ * 파일 잠금 안에서만 호출합니다. (잠금 밖에서는 readAccounts)
+ */
+async function loadAccounts(): Promise<UserAccount[]> {
+  const accounts = await readJsonFile<UserAccount[]>(USERS_FILE, () => []);
+  const bootstrapPassword = process.env.AUTH_PASSWORD;
+  if (accounts.length > 0 || !bootstrapPassword) return accounts;
+
+  const now = new Date().toISOString();
+  const admin: UserAccount = {
+    id: BOOTSTRAP_ADMIN_ID,
+    name: '관리자',
+    role: 'admin',
+    passwordHash: await hashPassword(bootstrapPassword),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await writeJsonFile(USERS_FILE, [admin]);
+  return [admin];
+}
+
+/**
+ * 전체 계정 (조회용, 초기 관리자를 만들어야 하면 잠금 안에서 생성)
+ */
+async function readAccounts(): Promise<UserAccount[]> {
+  const accounts = await readJsonFile<UserAccount[]>(USERS_FILE, () => []);
+  if (accounts.length > 0 || !process.env.AUTH_PASSWORD) return accounts;
+  return withFileLock(USERS_FILE, loadAccounts);
+}
+
+/**
+ * 계정 파일 변경 (읽기 → 수정 → 쓰기를 잠금 안에서)
+ */
+function mutateAccounts<T>(task: (accounts: UserAccount[]) => Promise<T>): Promise<T> {
+  return withFileLock(USERS_FILE, async () => task(await loadAccounts()));
+}
+
+/**
+ * 관리자가 한 명만 남는 변경인지 (마지막 관리자는 삭제 / 강등 불가)
+ */
+function isLastAdmin(accounts: UserAccount[], id: string): boolean {
+  const admins = accounts.filter((account) => account.role === 'admin');
+  return admins.length === 1 && admins[0].id === id;
+}
+
+/**
+ * 계정 목록 (ID 순)
+ */
+export async function listUsers(): Promise<PublicUser[]> {
+  const accounts = await readAccounts();
+  return accounts.map(toPublicUser).sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * 로그인 ID / 비밀번호 확인
+ * @returns 일치하면 세션 사용자, 아니면 null
+ */
+export async function authenticate(id: string, password: string): Promise<SessionUser | null> {
+  const accounts = await readAccounts();
+  const account = accounts.find((a) => a.id === id.trim().toLowerCase());
+
+  const isCorrect = await verifyPassword(password, account?.passwordHash ?? (await getDummyHash()));
+  if (!account || !isCorrect) return null;
+
+  return { id: account.id, name: account.name, role: account.role };
+}
+
+/**
+ * 계정 추가
+ * @throws 같은 ID 가 있으면 에러
+ */
+export async function createUser(input: NewUser): Promise<PublicUser> {
+  const passwordHash = await hashPassword(input.password);
+
+  return mutateAccounts(async (accounts) => {
+    if (accounts.some((a) => a.id === input.id)) {
+      throw new Error(`이미 사용 중인 ID 입니다: ${input.id}`);
+    }
+
+    const now = new Date().toISOString();
+    const account: UserAccount = {
+      id: input.id,
+      name: input.name,
+      role: input.role,
+      passwordHash,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await writeJsonFile(USERS_FILE, [...accounts, account]);
+    return toPublicUser(account);
+  });
+}
+
+/**
+ * 계정 수정 (이름 / 권한 / 비밀번호)
+ * @throws 없는 계정이거나 마지막 관리자를 강등하면 에러
+ */
+export async function updateUser(id: string, changes: UserChanges): Promise<PublicUser> {
+  const passwordHash = changes.password ? await hashPassword(changes.password) : undefined;
+
+  return mutateAccounts(async (accounts) => {
+    const account = accounts.find((a) => a.id === id);
+    if (!account) {
+      throw new Error(`계정을 찾을 수 없습니다: ${id}`);
+    }
+    if (changes.role && changes.role !== 'admin' && isLastAdmin(accounts, id)) {
+      throw new Error('마지막 관리자의 권한은 변경할 수 없습니다');
+    }
+
+    const updated: UserAccount = {
+      ...account,
+      name: changes.name ?? account.name,
+      role: changes.role ?? account.role,
+      passwordHash: passwordHash ?? account.passwordHash,
+      updatedAt: new Date().toISOString(),
+    };
+    await writeJsonFile(USERS_FILE, accounts.map((a) => (a.id === id ? updated : a)));
+    return toPublicUser(updated);
+  });
+}
+
+/**
+ * 계정 삭제
+ * @throws 없는 계정이거나 마지막 관리자면 에러
+ */
+export async function deleteUser(id: string): Promise<void> {
+  await mutateAccounts(async (accounts) => {
+    if (!accounts.some((a) => a.id === id)) {
+      throw new Error(`계정을 찾을 수 없습니다: ${id}`);
+    }
+    if (isLastAdmin(accounts, id)) {
+      throw new Error('마지막 관리자는 삭제할 수 없습니다');
+    }
+    await writeJsonFile(USERS_FILE, accounts.filter((a) => a.id !== id));
+  });
+}
@@ -1,12 +1,18 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { verifySessionToken, COOKIE_NAME } from '@/lib/auth';
+import { hasRole, requiredRole, renewSession, signSessionToken, COOKIE_NAME } from '@/lib/auth';
+import { clearSessionCookie, getSession, setSessionCookie } from '@/lib/session';
 
 /**
  * 공개 경로 - 인증 없이 접근 가능
  */
 const PUBLIC_PATHS = ['/login', '/api/auth'];
 
+/**
+ * 인증 / 권한 확인 미들웨어
+ * - 세션 폐기 목록(DATA_DIR 파일)을 확인하므로 Node.js 런타임에서 실행합니다.
+ * - 마지막 활동 시각을 갱신하고, 만료가 가까우면 세션을 연장해 쿠키를 다시 발급합니다.
+ */
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
@@ -15,7 +21,6 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  const token = request.cookies.get(COOKIE_NAME)?.value;
   const secret = process.env.AUTH_SECRET;
 
   if (!secret) {
@@ -25,19 +30,45 @@ export async function middleware(request: NextRequest) {
     });
   }
 
-  if (!token || !(await verifySessionToken(token, secret))) {
+  const session = await getSession(request);
+
+  if (!session) {
     const loginUrl = new URL('/login', request.url);
     // 로그인 후 원래 페이지로 돌아가기
     if (pathname !== '/') {
       loginUrl.searchParams.set('from', pathname);
     }
-    return NextResponse.redirect(loginUrl);
+    const response = NextResponse.redirect(loginUrl);
+    // 만료 / 폐기된 쿠키 정리
+    if (request.cookies.has(COOKIE_NAME)) {
+      clearSessionCookie(response);
+    }
+    return response;
+  }
+
+  const { user } = session;
+
+  // 권한 부족: API 는 403, 페이지는 대시보드로 이동
+  if (!hasRole(user.role, requiredRole(request.method, pathname))) {
+    if (pathname.startsWith('/api/')) {
+      return NextResponse.json({ error: '권한이 없습니다' }, { status: 403 });
+    }
+    return NextResponse.redirect(new URL('/', request.url));
+  }
+
+  const response = NextResponse.next();
+
+  // 슬라이딩 만료: 활동 시각 갱신 / 만료 임박 시 연장
+  const renewed = renewSession(session);
+  if (renewed) {
+    setSessionCookie(response, await signSessionToken(secret, renewed), renewed.expiresAt);
   }
 
-  return NextResponse.next();
+  return response;
 }
 
 export const config = {
+  runtime: 'nodejs',
   matcher: [
     /*
      * 다음 경로는 제외: